@@ -5,6 +5,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { ProjectPermissionsProvider } from "@/contexts/PermissionsContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import Dashboard from "./pages/Dashboard";
 import Login from "./pages/Login";
@@ -12,7 +13,9 @@ import Signup from "./pages/Signup";
 import NotFound from "./pages/NotFound";
 import LandingPage from "./pages/LandingPage";
 import ProjectPage from "./pages/ProjectPage";
+import ProjectSettingsPage from "./pages/ProjectSettingsPage";
 import SprintPage from "./pages/SprintPage";
+import JoinPage from "./pages/JoinPage";
 
 const queryClient = new QueryClient();
 
@@ -42,7 +45,21 @@ const App = () => (
               path="/project/:projectId"
               element={
                 <ProtectedRoute>
-                  <ProjectPage />
+                  <ProjectPermissionsProvider>
+                    <ProjectPage />
+                  </ProjectPermissionsProvider>
+                </ProtectedRoute>
+              }
+            />
+            
+            {/* Project settings page */}
+            <Route
+              path="/project/:projectId/settings"
+              element={
+                <ProtectedRoute>
+                  <ProjectPermissionsProvider>
+                    <ProjectSettingsPage />
+                  </ProjectPermissionsProvider>
                 </ProtectedRoute>
               }
             />
@@ -57,6 +74,9 @@ const App = () => (
               }
             />
             
+            {/* Email invite links, open to logged-out users so they can sign up first */}
+            <Route path="/join/:token" element={<JoinPage />} />
+            
             <Route path="/login" element={<Login />} />
             <Route path="/signup" element={<Signup />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
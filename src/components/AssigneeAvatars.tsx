@@ -0,0 +1,24 @@
+import { AvatarGroup } from "@/components/ui/avatar";
+import { useMemberDirectory } from "@/hooks/use-member-directory";
+import MemberAvatar from "./MemberAvatar";
+
+interface AssigneeAvatarsProps {
+  projectId?: string;
+  userIds: string[];
+}
+
+const AssigneeAvatars = ({ projectId, userIds }: AssigneeAvatarsProps) => {
+  const { resolve } = useMemberDirectory(projectId);
+
+  if (userIds.length === 0) return null;
+
+  return (
+    <AvatarGroup className="-space-x-2">
+      {userIds.map(userId => (
+        <MemberAvatar key={userId} member={resolve(userId)} className="border-2 border-background" />
+      ))}
+    </AvatarGroup>
+  );
+};
+
+export default AssigneeAvatars;
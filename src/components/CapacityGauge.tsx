@@ -0,0 +1,82 @@
+import { AlertTriangle } from "lucide-react";
+import { CapacityState, formatCapacity, SprintCapacity } from "@/lib/capacity";
+import { useMemberDirectory } from "@/hooks/use-member-directory";
+import { cn } from "@/lib/utils";
+import MemberAvatar from "./MemberAvatar";
+
+interface CapacityGaugeProps {
+  capacity: SprintCapacity;
+  projectId?: string;
+  showMembers?: boolean; // List every member's load instead of only the overloaded ones
+  className?: string;
+}
+
+const getBarClass = (state: CapacityState) => {
+  if (state === "over") return "bg-red-500";
+  if (state === "near") return "bg-amber-500";
+  return "bg-primary";
+};
+
+const getTextClass = (state: CapacityState) => {
+  if (state === "over") return "text-red-700 font-semibold";
+  if (state === "near") return "text-amber-700";
+  return "text-muted-foreground";
+};
+
+const Bar = ({ used, total, state }: { used: number; total: number; state: CapacityState }) => (
+  <div className="relative h-2 w-full overflow-hidden rounded-full bg-secondary">
+    <div
+      className={cn("h-full transition-all", getBarClass(state))}
+      style={{ width: `${total > 0 ? Math.min(100, (used / total) * 100) : used > 0 ? 100 : 0}%` }}
+    />
+  </div>
+);
+
+const CapacityGauge = ({ capacity, projectId, showMembers = false, className }: CapacityGaugeProps) => {
+  const { resolve } = useMemberDirectory(projectId);
+  const overloaded = capacity.members.filter(member => member.state === "over");
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="space-y-1">
+        <div className="flex justify-between text-sm">
+          <span>Committed vs capacity</span>
+          <span className={getTextClass(capacity.state)}>
+            {formatCapacity(capacity.committedPoints)} / {formatCapacity(capacity.points)} pts
+          </span>
+        </div>
+        <Bar used={capacity.committedPoints} total={capacity.points} state={capacity.state} />
+        <p className="text-xs text-muted-foreground">
+          {capacity.workingDays} working days · {formatCapacity(capacity.hours)} focused hours
+          {capacity.unassignedPoints > 0 && ` · ${formatCapacity(capacity.unassignedPoints)} pts unassigned`}
+        </p>
+      </div>
+
+      {showMembers ? (
+        <div className="space-y-2">
+          {capacity.members.map(member => (
+            <div key={member.userId} className="flex items-center gap-2">
+              <MemberAvatar member={resolve(member.userId)} />
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span className="truncate">{resolve(member.userId).name}</span>
+                  <span className={getTextClass(member.state)}>
+                    {formatCapacity(member.committedPoints)} / {formatCapacity(member.points)} pts
+                  </span>
+                </div>
+                <Bar used={member.committedPoints} total={member.points} state={member.state} />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : overloaded.length > 0 && (
+        <p className="flex items-center gap-1 text-xs text-red-700">
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          <span>Overloaded: {overloaded.map(member => resolve(member.userId).name).join(", ")}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CapacityGauge;
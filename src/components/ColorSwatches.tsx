@@ -0,0 +1,22 @@
+interface ColorSwatchesProps {
+  colors: string[];
+  value: string;
+  onChange: (color: string) => void;
+}
+
+const ColorSwatches = ({ colors, value, onChange }: ColorSwatchesProps) => (
+  <div className="flex gap-1">
+    {colors.map(color => (
+      <button
+        key={color}
+        type="button"
+        aria-label={color}
+        className={`h-5 w-5 rounded-full border-2 ${value === color ? "border-foreground" : "border-transparent"}`}
+        style={{ backgroundColor: color }}
+        onClick={() => onChange(color)}
+      />
+    ))}
+  </div>
+);
+
+export default ColorSwatches;
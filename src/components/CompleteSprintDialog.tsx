@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Task } from "@/types/task";
+import { Sprint } from "@/types/sprint";
+import { fetchSprintTasks } from "@/lib/supabase/tasks";
+import { completeSprint, fetchProjectSprints } from "@/lib/supabase/sprints";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { format } from "date-fns";
+
+// Value of the radio option that sends unfinished work back to the backlog
+const BACKLOG = "backlog";
+
+interface CompleteSprintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sprint: Sprint;
+  onSprintCompleted: (sprint: Sprint) => void;
+}
+
+const CompleteSprintDialog = ({ open, onOpenChange, sprint, onSprintCompleted }: CompleteSprintDialogProps) => {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [nextSprints, setNextSprints] = useState<Sprint[]>([]);
+  const [destination, setDestination] = useState(BACKLOG);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+  const { getStatus, isDone } = useWorkflow();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadSprintData = async () => {
+      try {
+        setIsLoading(true);
+        const [sprintTasks, projectSprints] = await Promise.all([
+          fetchSprintTasks(sprint.id),
+          sprint.projectId ? fetchProjectSprints(sprint.projectId) : Promise.resolve([]),
+        ]);
+        setTasks(sprintTasks);
+
+        // Unfinished work can only be carried over into sprints that have not started yet
+        const upcoming = projectSprints
+          .filter(s => s.id !== sprint.id && s.status === "planned")
+          .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+        setNextSprints(upcoming);
+        setDestination(upcoming[0]?.id || BACKLOG);
+      } catch (error) {
+        console.error("Failed to load sprint data:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load sprint tasks",
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSprintData();
+  }, [open, sprint.id, sprint.projectId, toast]);
+
+  const unfinishedTasks = tasks.filter(task => !isDone(task.status));
+  const committedPoints = tasks.reduce((sum, task) => sum + task.points, 0);
+  const completedPoints = tasks
+    .filter(task => isDone(task.status))
+    .reduce((sum, task) => sum + task.points, 0);
+
+  const handleComplete = async () => {
+    try {
+      setIsSubmitting(true);
+
+      const completedSprint = await completeSprint(sprint.id, destination === BACKLOG ? null : destination);
+
+      onSprintCompleted(completedSprint);
+      onOpenChange(false);
+
+      toast({
+        title: "Sprint completed",
+        description: unfinishedTasks.length > 0
+          ? `${unfinishedTasks.length} unfinished ${unfinishedTasks.length === 1 ? "task was" : "tasks were"} carried over`
+          : "All tasks were done",
+      });
+    } catch (error) {
+      console.error("Failed to complete sprint:", error);
+      // Carried-over tasks count towards the destination sprint's hard WIP limits
+      const wipLimitReached = error?.hint === "wip_limit";
+      toast({
+        title: wipLimitReached ? "WIP limit reached" : "Error",
+        description: wipLimitReached
+          ? `${error.message} in the destination sprint`
+          : "Failed to complete sprint. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Complete {sprint.name}</DialogTitle>
+          <DialogDescription>
+            {completedPoints} of {committedPoints} points done. This snapshot is kept for reporting.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : unfinishedTasks.length > 0 ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Unfinished tasks ({unfinishedTasks.length})</Label>
+              <ScrollArea className="max-h-48 border rounded-md">
+                {unfinishedTasks.map(task => (
+                  <div key={task.id} className="flex justify-between items-center px-3 py-2 border-b last:border-b-0 text-sm">
+                    <span>{task.title}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {getStatus(task.status).name} · {task.points} pts
+                    </span>
+                  </div>
+                ))}
+              </ScrollArea>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Move unfinished tasks to</Label>
+              <RadioGroup value={destination} onValueChange={setDestination}>
+                <div className="flex items-center space-x-2 border p-3 rounded-md hover:bg-accent/50">
+                  <RadioGroupItem value={BACKLOG} id="destination-backlog" />
+                  <Label htmlFor="destination-backlog" className="flex-1">Product Backlog</Label>
+                </div>
+                {nextSprints.map(next => (
+                  <div key={next.id} className="flex items-center space-x-2 border p-3 rounded-md hover:bg-accent/50">
+                    <RadioGroupItem value={next.id} id={`destination-${next.id}`} />
+                    <Label htmlFor={`destination-${next.id}`} className="flex-1 flex items-center justify-between">
+                      <span>{next.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(next.startDate), "MMM d")} - {format(new Date(next.endDate), "MMM d")}
+                      </span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Every task in this sprint is done.</p>
+        )}
+
+        <div className="flex justify-end gap-2 pt-4">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleComplete} disabled={isLoading || isSubmitting}>
+            {isSubmitting ? "Completing..." : "Complete Sprint"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CompleteSprintDialog;
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Epic } from "@/types/epic";
+import { createEpic } from "@/lib/supabase/epics";
+import { EPIC_COLORS } from "@/lib/issue-types";
+import { useToast } from "@/hooks/use-toast";
+
+interface CreateEpicDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onCreateEpic: (epic: Epic) => void;
+  projectId: string;
+}
+
+const CreateEpicDialog = ({ open, onClose, onCreateEpic, projectId }: CreateEpicDialogProps) => {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [color, setColor] = useState(EPIC_COLORS[0]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+
+      const newEpic = await createEpic({ projectId, name, description, color });
+      onCreateEpic(newEpic);
+
+      setName("");
+      setDescription("");
+      setColor(EPIC_COLORS[0]);
+      onClose();
+    } catch (error) {
+      console.error("Error creating epic:", error);
+      toast({
+        title: "Error",
+        description: "Failed to create epic. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Create New Epic</DialogTitle>
+          <DialogDescription>
+            Epics group related stories, bugs and tasks across sprints.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="epic-name">Epic Name</Label>
+            <Input
+              id="epic-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Enter epic name"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="epic-description">Description</Label>
+            <Input
+              id="epic-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Enter epic description"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Color</Label>
+            <div className="flex gap-2">
+              {EPIC_COLORS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  aria-label={option}
+                  className={`h-6 w-6 rounded-full border-2 ${color === option ? "border-foreground" : "border-transparent"}`}
+                  style={{ backgroundColor: option }}
+                  onClick={() => setColor(option)}
+                />
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Creating..." : "Create Epic"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreateEpicDialog;
@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Sprint } from "@/types/sprint";
 import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/use-permissions";
 import { createSprint } from "@/lib/supabase/sprints";
 import { useToast } from "@/hooks/use-toast";
 
@@ -22,6 +23,7 @@ const CreateSprintDialog = ({ open, onClose, onCreateSprint, projectId }: Create
   const [endDate, setEndDate] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { user } = useAuth();
+  const { canEdit } = usePermissions();
   const { toast } = useToast();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -35,6 +37,15 @@ const CreateSprintDialog = ({ open, onClose, onCreateSprint, projectId }: Create
       });
       return;
     }
+
+    if (!canEdit) {
+      toast({
+        title: "Error",
+        description: "Viewers cannot create sprints",
+        variant: "destructive",
+      });
+      return;
+    }
     
     try {
       setIsSubmitting(true);
@@ -120,7 +131,7 @@ const CreateSprintDialog = ({ open, onClose, onCreateSprint, projectId }: Create
             <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
               Cancel
             </Button>
-            <Button type="submit" disabled={isSubmitting}>
+            <Button type="submit" disabled={isSubmitting || !canEdit}>
               {isSubmitting ? "Creating..." : "Create Sprint"}
             </Button>
           </div>
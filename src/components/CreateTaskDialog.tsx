@@ -5,13 +5,19 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Task } from "@/types/task";
-import { Profile } from "@/types/user";
-import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
-import { Check, UserIcon } from "lucide-react";
-import { fetchProjectMembers } from "@/lib/supabase/tasks";
+import { IssueType, Task } from "@/types/task";
+import { Epic } from "@/types/epic";
+import { Label as TaskLabel } from "@/types/label";
+import { Check } from "lucide-react";
+import { fetchProjectEpics } from "@/lib/supabase/epics";
+import { fetchProjectLabels } from "@/lib/supabase/labels";
+import { ISSUE_TYPES } from "@/lib/issue-types";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/lib/supabase/client";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { useMemberDirectory } from "@/hooks/use-member-directory";
+import IssueTypeIcon from "./IssueTypeIcon";
+import LabelPicker from "./LabelPicker";
+import MemberAvatar from "./MemberAvatar";
 
 interface CreateTaskDialogProps {
   open: boolean;
@@ -25,55 +31,42 @@ const CreateTaskDialog = ({ open, onOpenChange, userId, projectId, onTaskCreated
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [priority, setPriority] = useState("medium");
+  const [type, setType] = useState<IssueType>("story");
+  const [epicId, setEpicId] = useState<string | undefined>();
   const [points, setPoints] = useState("1");
   const [assignees, setAssignees] = useState<string[]>([]);
-  const [memberProfiles, setMemberProfiles] = useState<Profile[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const [epics, setEpics] = useState<Epic[]>([]);
+  const [labels, setLabels] = useState<TaskLabel[]>([]);
+  const [projectLabels, setProjectLabels] = useState<TaskLabel[]>([]);
   const { toast } = useToast();
+  const { statuses } = useWorkflow();
+  const { members, loading: isLoading } = useMemberDirectory(projectId);
 
   useEffect(() => {
     // Reset form when dialog opens
     if (open) {
       resetForm();
-      loadProjectMembers();
+      loadEpicsAndLabels();
     }
   }, [open, projectId]);
 
-  const loadProjectMembers = async () => {
+  const loadEpicsAndLabels = async () => {
     if (!projectId) return;
-    
+
     try {
-      setIsLoading(true);
-      
-      // Fetch project members
-      const members = await fetchProjectMembers(projectId);
-      
-      if (members.length > 0) {
-        // Fetch member profiles
-        const { data: profiles, error } = await supabase
-          .from('profiles')
-          .select('id, name, avatar_url')
-          .in('id', members);
-          
-        if (error) throw error;
-        
-        setMemberProfiles(profiles.map(profile => ({
-          id: profile.id,
-          name: profile.name || 'Unknown User',
-          avatar_url: profile.avatar_url || '',
-          created_at: '',
-          updated_at: ''
-        })));
-      }
+      const [projectEpics, labelsData] = await Promise.all([
+        fetchProjectEpics(projectId),
+        fetchProjectLabels(projectId),
+      ]);
+      setEpics(projectEpics);
+      setProjectLabels(labelsData);
     } catch (error) {
-      console.error("Failed to fetch project members:", error);
+      console.error("Failed to fetch epics and labels:", error);
       toast({
         title: "Error",
-        description: "Failed to load project members",
+        description: "Failed to load epics and labels",
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -85,8 +78,11 @@ const CreateTaskDialog = ({ open, onOpenChange, userId, projectId, onTaskCreated
       title,
       description,
       priority,
+      type,
+      epicId,
+      labels,
       points: Number(points),
-      status: "todo",
+      status: statuses[0].key,
       assignees,
       userId,
       projectId,
@@ -101,6 +97,9 @@ const CreateTaskDialog = ({ open, onOpenChange, userId, projectId, onTaskCreated
     setTitle("");
     setDescription("");
     setPriority("medium");
+    setType("story");
+    setEpicId(undefined);
+    setLabels([]);
     setPoints("1");
     setAssignees([]);
   };
@@ -139,15 +138,55 @@ const CreateTaskDialog = ({ open, onOpenChange, userId, projectId, onTaskCreated
               placeholder="Enter task description"
             />
           </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="type">Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as IssueType)}>
+                <SelectTrigger id="type">
+                  <SelectValue placeholder="Select type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ISSUE_TYPES.map(issueType => (
+                    <SelectItem key={issueType.value} value={issueType.value}>
+                      <span className="flex items-center gap-2">
+                        <IssueTypeIcon type={issueType.value} size={14} />
+                        {issueType.label}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="epic">Epic</Label>
+              <Select value={epicId || "none"} onValueChange={(value) => setEpicId(value === "none" ? undefined : value)}>
+                <SelectTrigger id="epic">
+                  <SelectValue placeholder="Select epic" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No epic</SelectItem>
+                  {epics.map(epic => (
+                    <SelectItem key={epic.id} value={epic.id}>
+                      {epic.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Labels</Label>
+            <LabelPicker labels={projectLabels} value={labels} onChange={setLabels} />
+          </div>
           <div className="space-y-2">
             <Label>Assignees</Label>
             {isLoading ? (
               <div className="flex justify-center py-4">
                 <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
               </div>
-            ) : memberProfiles.length > 0 ? (
+            ) : members.length > 0 ? (
               <div className="flex flex-wrap gap-2">
-                {memberProfiles.map((user) => (
+                {members.map((user) => (
                   <Button
                     key={user.id}
                     type="button"
@@ -155,12 +194,7 @@ const CreateTaskDialog = ({ open, onOpenChange, userId, projectId, onTaskCreated
                     className="flex items-center gap-2"
                     onClick={() => toggleAssignee(user.id)}
                   >
-                    <Avatar className="w-6 h-6">
-                      <AvatarImage src={user.avatar_url} alt={user.name} />
-                      <AvatarFallback>
-                        <UserIcon className="w-4 h-4" />
-                      </AvatarFallback>
-                    </Avatar>
+                    <MemberAvatar member={user} />
                     {user.name}
                     {assignees.includes(user.id) && (
                       <Check className="w-4 h-4" />
@@ -0,0 +1,73 @@
+import { useMemo, useState } from "react";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { TaskHistoryEntry } from "@/types/task";
+import { buildCumulativeFlow, FlowRange } from "@/lib/cumulative-flow";
+import { useWorkflow } from "@/hooks/use-workflow";
+import DateRangePicker from "./DateRangePicker";
+
+interface CumulativeFlowChartProps {
+  history: TaskHistoryEntry[];
+  defaultRange: FlowRange;
+  sprintId?: string; // Only count the tasks in this sprint
+  description: string;
+}
+
+const CumulativeFlowChart = ({ history, defaultRange, sprintId, description }: CumulativeFlowChartProps) => {
+  const [range, setRange] = useState<FlowRange>(defaultRange);
+  const { statuses } = useWorkflow();
+
+  const data = useMemo(
+    () => buildCumulativeFlow(history, statuses.map(status => status.key), range, sprintId),
+    [history, statuses, range, sprintId]
+  );
+
+  const config = useMemo(
+    () => Object.fromEntries(statuses.map(status => [status.key, { label: status.name, color: status.color }])) as ChartConfig,
+    [statuses]
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap justify-between items-start gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="text-lg">Cumulative flow</CardTitle>
+            <CardDescription>{description}</CardDescription>
+          </div>
+          <DateRangePicker value={range} onChange={setRange} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">No days to show in this range yet.</p>
+        ) : (
+          <ChartContainer config={config} className="h-[280px] w-full aspect-auto">
+            <AreaChart data={data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {/* Later statuses sit at the bottom, so widening bands show where work piles up */}
+              {[...statuses].reverse().map(status => (
+                <Area
+                  key={status.key}
+                  dataKey={status.key}
+                  type="monotone"
+                  stackId="flow"
+                  stroke={`var(--color-${status.key})`}
+                  fill={`var(--color-${status.key})`}
+                  fillOpacity={0.6}
+                />
+              ))}
+            </AreaChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CumulativeFlowChart;
@@ -0,0 +1,181 @@
+import { useMemo, useState } from "react";
+import { format, startOfDay, subDays } from "date-fns";
+import { CartesianGrid, ReferenceLine, Scatter, ScatterChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Task } from "@/types/task";
+import { FlowRange } from "@/lib/cumulative-flow";
+import {
+  CYCLE_TIME_PERCENTILES,
+  CycleTimeGroup,
+  CycleTimePoint,
+  formatDays,
+  getCycleTimes,
+  groupCycleTimes,
+  summarizeCycleTimes,
+} from "@/lib/cycle-time";
+import { useMemberDirectory } from "@/hooks/use-member-directory";
+import DateRangePicker from "./DateRangePicker";
+
+interface CycleTimeReportProps {
+  tasks: Task[];
+  projectId: string;
+}
+
+const scatterConfig = {
+  cycleDays: { label: "Cycle time", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const percentileColors: Record<number, string> = {
+  50: "hsl(142 71% 45%)",
+  85: "hsl(38 92% 50%)",
+  95: "hsl(var(--destructive))",
+};
+
+const PointTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: CycleTimePoint }[] }) => {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+
+  return (
+    <div className="rounded-lg border bg-background px-3 py-2 text-xs shadow-xl">
+      <p className="font-medium">{point.title}</p>
+      <p className="text-muted-foreground">Finished {format(point.completedAt, "MMM d, yyyy")}</p>
+      <p>Cycle time {formatDays(point.cycleDays)}</p>
+      <p>Lead time {formatDays(point.leadDays)}</p>
+    </div>
+  );
+};
+
+interface GroupTableProps {
+  title: string;
+  column: string;
+  groups: CycleTimeGroup[];
+  getLabel: (key: string) => string;
+}
+
+const GroupTable = ({ title, column, groups, getLabel }: GroupTableProps) => (
+  <div className="space-y-2">
+    <h3 className="text-sm font-medium">{title}</h3>
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{column}</TableHead>
+          <TableHead className="text-right">Tasks</TableHead>
+          <TableHead className="text-right">Avg cycle</TableHead>
+          <TableHead className="text-right">85% cycle</TableHead>
+          <TableHead className="text-right">Avg lead</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {groups.map(group => (
+          <TableRow key={group.key}>
+            <TableCell>{getLabel(group.key)}</TableCell>
+            <TableCell className="text-right">{group.count}</TableCell>
+            <TableCell className="text-right">{formatDays(group.averageCycleDays)}</TableCell>
+            <TableCell className="text-right">{formatDays(group.percentiles[85])}</TableCell>
+            <TableCell className="text-right">{formatDays(group.averageLeadDays)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+const CycleTimeReport = ({ tasks, projectId }: CycleTimeReportProps) => {
+  const [range, setRange] = useState<FlowRange>({ from: subDays(startOfDay(new Date()), 89), to: new Date() });
+  const { resolve } = useMemberDirectory(projectId);
+
+  const points = useMemo(() => {
+    const from = startOfDay(range.from).getTime();
+    const to = startOfDay(range.to).getTime() + 24 * 60 * 60 * 1000;
+    return getCycleTimes(tasks).filter(point => point.completedAt >= from && point.completedAt < to);
+  }, [tasks, range]);
+  const summary = summarizeCycleTimes(points);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap justify-between items-start gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="text-lg">Cycle and lead time</CardTitle>
+            <CardDescription>
+              Cycle time runs from the start of work to done, lead time from creation to done
+            </CardDescription>
+          </div>
+          <DateRangePicker value={range} onChange={setRange} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {points.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">No tasks were finished in this range.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-sm">
+              <div className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground">Finished tasks</p>
+                <p className="font-semibold">{summary.count}</p>
+              </div>
+              <div className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground">Average lead time</p>
+                <p className="font-semibold">{formatDays(summary.averageLeadDays)}</p>
+              </div>
+              {CYCLE_TIME_PERCENTILES.map(percentile => (
+                <div key={percentile} className="rounded-md border p-3">
+                  <p className="text-xs text-muted-foreground">{percentile}% finish within</p>
+                  <p className="font-semibold" style={{ color: percentileColors[percentile] }}>
+                    {formatDays(summary.percentiles[percentile])}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <ChartContainer config={scatterConfig} className="h-[280px] w-full aspect-auto">
+              <ScatterChart>
+                <CartesianGrid />
+                <XAxis
+                  dataKey="completedAt"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={(value) => format(value, "MMM d")}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis dataKey="cycleDays" type="number" unit="d" tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<PointTooltip />} />
+                {CYCLE_TIME_PERCENTILES.map(percentile => (
+                  <ReferenceLine
+                    key={percentile}
+                    y={summary.percentiles[percentile]}
+                    stroke={percentileColors[percentile]}
+                    strokeDasharray="4 4"
+                    label={{ value: `${percentile}%`, position: "insideTopRight", fontSize: 10 }}
+                  />
+                ))}
+                <Scatter data={points} fill="var(--color-cycleDays)" />
+              </ScatterChart>
+            </ChartContainer>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <GroupTable
+                title="By priority"
+                column="Priority"
+                groups={groupCycleTimes(points, "priority")}
+                getLabel={(key) => key.charAt(0).toUpperCase() + key.slice(1)}
+              />
+              <GroupTable
+                title="By assignee"
+                column="Assignee"
+                groups={groupCycleTimes(points, "assignee")}
+                getLabel={(key) => (key ? resolve(key).name : "Unassigned")}
+              />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CycleTimeReport;
@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { DateRange } from "react-day-picker";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+
+interface DateRangePickerProps {
+  value: { from: Date; to: Date };
+  onChange: (range: { from: Date; to: Date }) => void;
+  className?: string;
+}
+
+const DateRangePicker = ({ value, onChange, className }: DateRangePickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DateRange | undefined>();
+
+  // Every pick starts a new range, which only applies once both ends are picked
+  const handleSelect = (range: DateRange | undefined) => {
+    setDraft(range);
+    if (range?.from && range.to) {
+      onChange({ from: range.from, to: range.to });
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (isOpen) setDraft(undefined);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className={cn("justify-start font-normal", className)}>
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {format(value.from, "MMM d, yyyy")} - {format(value.to, "MMM d, yyyy")}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <Calendar
+          mode="range"
+          selected={draft}
+          onSelect={handleSelect}
+          defaultMonth={value.from}
+          numberOfMonths={2}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default DateRangePicker;
@@ -5,19 +5,29 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Task } from "@/types/task";
-import { User } from "@/types/user";
-import { Avatar } from "@/components/ui/avatar";
-import { Check } from "lucide-react";
-import { fetchProjectMembers } from "@/lib/supabase/tasks";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ChecklistItem, IssueType, Task } from "@/types/task";
+import { Epic } from "@/types/epic";
+import { Label as TaskLabel } from "@/types/label";
+import { AlertTriangle, Check } from "lucide-react";
+import { fetchSubtasks, updateTask } from "@/lib/supabase/tasks";
+import { fetchProjectEpics } from "@/lib/supabase/epics";
+import { fetchProjectLabels, setTaskLabels } from "@/lib/supabase/labels";
+import { getOpenSubtasks } from "@/lib/subtasks";
+import { ISSUE_TYPES } from "@/lib/issue-types";
 import { useToast } from "@/hooks/use-toast";
-
-// Temporary mock data, will be replaced with real data from Supabase
-const MOCK_USERS: User[] = [
-  { id: "1", name: "John Doe", email: "john.doe@example.com", avatarUrl: "https://github.com/shadcn.png" },
-  { id: "2", name: "Jane Smith", email: "jane.smith@example.com", avatarUrl: "https://github.com/shadcn.png" },
-  { id: "3", name: "Bob Johnson", email: "bob.johnson@example.com", avatarUrl: "https://github.com/shadcn.png" },
-];
+import { useWorkflow } from "@/hooks/use-workflow";
+import { useMemberDirectory } from "@/hooks/use-member-directory";
+import { usePermissions } from "@/hooks/use-permissions";
+import TaskActivity from "./TaskActivity";
+import TaskComments from "./TaskComments";
+import TaskSubtasks from "./TaskSubtasks";
+import TaskDependencies from "./TaskDependencies";
+import IssueTypeIcon from "./IssueTypeIcon";
+import LabelPicker from "./LabelPicker";
+import MemberAvatar from "./MemberAvatar";
 
 interface EditTaskDialogProps {
   task: Task;
@@ -31,58 +41,113 @@ const EditTaskDialog = ({ task, open, onOpenChange, userId, onTaskUpdated }: Edi
   const [title, setTitle] = useState(task.title);
   const [description, setDescription] = useState(task.description);
   const [priority, setPriority] = useState(task.priority);
+  const [type, setType] = useState<IssueType>(task.type || "task");
+  const [epicId, setEpicId] = useState(task.epicId);
+  const [labels, setLabels] = useState<TaskLabel[]>(task.labels || []);
   const [points, setPoints] = useState(task.points.toString());
+  const { statuses, doneStatuses, isDone } = useWorkflow();
   const [status, setStatus] = useState(task.status);
   const [assignees, setAssignees] = useState(task.assignees);
-  const [projectMembers, setProjectMembers] = useState<string[]>([]);
+  const [checklist, setChecklist] = useState<ChecklistItem[]>(task.checklist || []);
+  const [epics, setEpics] = useState<Epic[]>([]);
+  const [projectLabels, setProjectLabels] = useState<TaskLabel[]>([]);
+  const [openSubtaskCount, setOpenSubtaskCount] = useState(0);
+  const [completeAnyway, setCompleteAnyway] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { members, resolve } = useMemberDirectory(task.projectId);
+  const { canEdit } = usePermissions();
   const { toast } = useToast();
 
   useEffect(() => {
     setTitle(task.title);
     setDescription(task.description);
     setPriority(task.priority);
+    setType(task.type || "task");
+    setEpicId(task.epicId);
+    setLabels(task.labels || []);
     setPoints(task.points.toString());
     setStatus(task.status);
     setAssignees(task.assignees);
+    setChecklist(task.checklist || []);
+    setOpenSubtaskCount(0);
+    setCompleteAnyway(false);
   }, [task]);
 
   useEffect(() => {
-    // Fetch project members when dialog opens
+    // Fetch epics and labels when dialog opens
     if (open && task.projectId) {
-      const getProjectMembers = async () => {
+      const getEpicsAndLabels = async () => {
         try {
-          const members = await fetchProjectMembers(task.projectId!);
-          setProjectMembers(members);
+          const [projectEpics, labelsData] = await Promise.all([
+            fetchProjectEpics(task.projectId!),
+            fetchProjectLabels(task.projectId!),
+          ]);
+          setEpics(projectEpics);
+          setProjectLabels(labelsData);
         } catch (error) {
-          console.error("Failed to fetch project members:", error);
+          console.error("Failed to fetch epics and labels:", error);
           toast({
             title: "Error",
-            description: "Failed to load project members",
+            description: "Failed to load epics and labels",
             variant: "destructive",
           });
         }
       };
       
-      getProjectMembers();
+      getEpicsAndLabels();
     }
   }, [open, task.projectId, toast]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const updatedTask: Task = {
       ...task,
       title,
       description,
       priority,
+      type,
+      epicId,
+      labels,
       points: Number(points),
       status,
       assignees,
+      checklist,
     };
-    onTaskUpdated(updatedTask);
+
+    try {
+      setIsSaving(true);
+
+      // A parent can only be completed with open subtasks when explicitly confirmed
+      if (isDone(status) && !isDone(task.status) && !task.parentId && !completeAnyway) {
+        const openSubtasks = getOpenSubtasks(await fetchSubtasks(task.id), doneStatuses);
+        if (openSubtasks.length > 0) {
+          setOpenSubtaskCount(openSubtasks.length);
+          return;
+        }
+      }
+
+      // An epic removed in the dialog is cleared rather than left as it was
+      await updateTask({ ...updatedTask, epicId: epicId ?? null, user_id: userId });
+      await setTaskLabels(task.id, labels.map(label => label.id));
+      onTaskUpdated(updatedTask);
+    } catch (error) {
+      console.error("Failed to update task:", error);
+      // Hard WIP limits are enforced by the database for every status change
+      const wipLimitReached = error?.hint === "wip_limit";
+      toast({
+        title: wipLimitReached ? "WIP limit reached" : "Error",
+        description: wipLimitReached ? error.message : "Failed to update task",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const handleStatusChange = (value: string) => {
-    setStatus(value as "todo" | "in-progress" | "in-review" | "done");
+    setStatus(value);
+    setOpenSubtaskCount(0);
+    setCompleteAnyway(false);
   };
 
   const toggleAssignee = (userId: string) => {
@@ -93,110 +158,205 @@ const EditTaskDialog = ({ task, open, onOpenChange, userId, onTaskUpdated }: Edi
     );
   };
 
-  // Filter MOCK_USERS to only show project members
-  const filteredUsers = MOCK_USERS.filter(user => projectMembers.includes(user.id));
+  // Former members stay listed while assigned, so they can be unassigned
+  const assignableUsers = [
+    ...members,
+    ...assignees.filter(id => !members.some(member => member.id === id)).map(resolve),
+  ];
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[560px]">
         <DialogHeader>
-          <DialogTitle>Edit Task</DialogTitle>
+          <DialogTitle>{canEdit ? "Edit Task" : "Task Details"}</DialogTitle>
         </DialogHeader>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="title">Title</Label>
-            <Input
-              id="title"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              placeholder="Enter task title"
-              required
-            />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="description">Description</Label>
-            <Input
-              id="description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Enter task description"
-            />
-          </div>
-          <div className="space-y-2">
-            <Label>Assignees</Label>
-            <div className="flex flex-wrap gap-2">
-              {filteredUsers.length > 0 ? (
-                filteredUsers.map((user) => (
-                  <Button
-                    key={user.id}
-                    type="button"
-                    variant={assignees.includes(user.id) ? "default" : "outline"}
-                    className="flex items-center gap-2"
-                    onClick={() => toggleAssignee(user.id)}
-                  >
-                    <Avatar className="w-6 h-6">
-                      <img src={user.avatarUrl} alt={user.name} />
-                    </Avatar>
-                    {user.name}
-                    {assignees.includes(user.id) && (
-                      <Check className="w-4 h-4" />
+        <Tabs defaultValue="details">
+          <TabsList className="grid w-full grid-cols-5">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="subtasks">Subtasks</TabsTrigger>
+            <TabsTrigger value="links">Links</TabsTrigger>
+            <TabsTrigger value="comments">Comments</TabsTrigger>
+            <TabsTrigger value="activity">Activity</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {/* Viewers see the same fields, read-only */}
+              <fieldset disabled={!canEdit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="title">Title</Label>
+                  <Input
+                    id="title"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder="Enter task title"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description</Label>
+                  <Input
+                    id="description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="Enter task description"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="type">Type</Label>
+                    <Select value={type} onValueChange={(value) => setType(value as IssueType)}>
+                      <SelectTrigger id="type">
+                        <SelectValue placeholder="Select type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ISSUE_TYPES.map(issueType => (
+                          <SelectItem key={issueType.value} value={issueType.value}>
+                            <span className="flex items-center gap-2">
+                              <IssueTypeIcon type={issueType.value} size={14} />
+                              {issueType.label}
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="epic">Epic</Label>
+                    <Select value={epicId || "none"} onValueChange={(value) => setEpicId(value === "none" ? undefined : value)}>
+                      <SelectTrigger id="epic">
+                        <SelectValue placeholder="Select epic" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No epic</SelectItem>
+                        {epics.map(epic => (
+                          <SelectItem key={epic.id} value={epic.id}>
+                            {epic.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Labels</Label>
+                  <LabelPicker labels={projectLabels} value={labels} onChange={setLabels} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Assignees</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {assignableUsers.length > 0 ? (
+                      assignableUsers.map((user) => (
+                        <Button
+                          key={user.id}
+                          type="button"
+                          variant={assignees.includes(user.id) ? "default" : "outline"}
+                          className="flex items-center gap-2"
+                          onClick={() => toggleAssignee(user.id)}
+                        >
+                          <MemberAvatar member={user} />
+                          {user.name}
+                          {assignees.includes(user.id) && (
+                            <Check className="w-4 h-4" />
+                          )}
+                        </Button>
+                      ))
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No project members available</p>
                     )}
-                  </Button>
-                ))
-              ) : (
-                <p className="text-sm text-muted-foreground">No project members available</p>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="priority">Priority</Label>
+                  <Select value={priority} onValueChange={setPriority}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select priority" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="low">Low</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="status">Status</Label>
+                  <Select value={status} onValueChange={handleStatusChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {statuses.map(workflowStatus => (
+                        <SelectItem key={workflowStatus.key} value={workflowStatus.key}>
+                          {workflowStatus.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="points">Story Points</Label>
+                  <Select value={points} onValueChange={setPoints}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select points" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[1, 2, 3, 5, 8, 13].map((point) => (
+                        <SelectItem key={point} value={point.toString()}>
+                          {point}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </fieldset>
+              {openSubtaskCount > 0 && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription className="space-y-2">
+                    <p>
+                      {openSubtaskCount === 1 ? "1 subtask is" : `${openSubtaskCount} subtasks are`} still open.
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="complete-anyway"
+                        checked={completeAnyway}
+                        onCheckedChange={checked => setCompleteAnyway(checked === true)}
+                      />
+                      <label htmlFor="complete-anyway">Mark as done anyway</label>
+                    </div>
+                  </AlertDescription>
+                </Alert>
               )}
-            </div>
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="priority">Priority</Label>
-            <Select value={priority} onValueChange={setPriority}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select priority" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="high">High</SelectItem>
-                <SelectItem value="medium">Medium</SelectItem>
-                <SelectItem value="low">Low</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="status">Status</Label>
-            <Select value={status} onValueChange={handleStatusChange}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="todo">To Do</SelectItem>
-                <SelectItem value="in-progress">In Progress</SelectItem>
-                <SelectItem value="in-review">In Review</SelectItem>
-                <SelectItem value="done">Done</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="points">Story Points</Label>
-            <Select value={points} onValueChange={setPoints}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select points" />
-              </SelectTrigger>
-              <SelectContent>
-                {[1, 2, 3, 5, 8, 13].map((point) => (
-                  <SelectItem key={point} value={point.toString()}>
-                    {point}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-          <div className="flex justify-end gap-2">
-            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
-              Cancel
-            </Button>
-            <Button type="submit">Update Task</Button>
-          </div>
-        </form>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                  {canEdit ? "Cancel" : "Close"}
+                </Button>
+                {canEdit && (
+                  <Button type="submit" disabled={isSaving || (openSubtaskCount > 0 && !completeAnyway)}>
+                    Update Task
+                  </Button>
+                )}
+              </div>
+            </form>
+          </TabsContent>
+
+          <TabsContent value="subtasks">
+            <TaskSubtasks task={task} userId={userId} checklist={checklist} onChecklistChange={setChecklist} />
+          </TabsContent>
+
+          <TabsContent value="links">
+            <TaskDependencies task={task} />
+          </TabsContent>
+
+          <TabsContent value="comments">
+            <TaskComments taskId={task.id} projectId={task.projectId} />
+          </TabsContent>
+
+          <TabsContent value="activity">
+            <TaskActivity taskId={task.id} projectId={task.projectId} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
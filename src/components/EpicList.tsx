@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Layers, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Epic } from "@/types/epic";
+import { Sprint } from "@/types/sprint";
+import { Task } from "@/types/task";
+import { deleteEpic, fetchProjectEpics } from "@/lib/supabase/epics";
+import { fetchProductBacklog } from "@/lib/supabase/tasks";
+import { fetchProjectSprints } from "@/lib/supabase/sprints";
+import { summarizeEpic } from "@/lib/epics";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { usePermissions } from "@/hooks/use-permissions";
+import CreateEpicDialog from "./CreateEpicDialog";
+
+interface EpicListProps {
+  projectId: string;
+}
+
+const EpicList = ({ projectId }: EpicListProps) => {
+  const [epics, setEpics] = useState<Epic[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [sprints, setSprints] = useState<Sprint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isCreateEpicOpen, setIsCreateEpicOpen] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { doneStatuses } = useWorkflow();
+  const { canEdit } = usePermissions();
+
+  useEffect(() => {
+    const loadEpics = async () => {
+      try {
+        setLoading(true);
+        const [projectEpics, projectTasks, projectSprints] = await Promise.all([
+          fetchProjectEpics(projectId),
+          fetchProductBacklog(projectId),
+          fetchProjectSprints(projectId),
+        ]);
+        setEpics(projectEpics);
+        setTasks(projectTasks);
+        setSprints(projectSprints);
+      } catch (error) {
+        console.error("Failed to fetch epics:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load epics",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (projectId) loadEpics();
+  }, [projectId, toast]);
+
+  const handleDeleteEpic = async (id: string) => {
+    try {
+      await deleteEpic(id);
+      setEpics(prev => prev.filter(epic => epic.id !== id));
+      // Tasks stay in the project without an epic
+      setTasks(prev => prev.map(task => (task.epicId === id ? { ...task, epicId: undefined } : task)));
+    } catch (error) {
+      console.error("Failed to delete epic:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete epic",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-8">
+        <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Epics</h2>
+        {canEdit && (
+          <Button size="sm" onClick={() => setIsCreateEpicOpen(true)}>
+            <Plus size={16} className="mr-1" /> Add Epic
+          </Button>
+        )}
+      </div>
+
+      {epics.length === 0 ? (
+        <div className="text-center py-12">
+          <Layers className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+          <h3 className="text-xl font-medium text-muted-foreground">No epics yet</h3>
+          <p className="mt-2">Create an epic to group related work across sprints.</p>
+        </div>
+      ) : (
+        epics.map(epic => {
+          const summary = summarizeEpic(epic, tasks, sprints, doneStatuses);
+          const percent = summary.totalPoints > 0 ? (summary.donePoints / summary.totalPoints) * 100 : 0;
+
+          return (
+            <Card key={epic.id}>
+              <CardHeader className="pb-2">
+                <div className="flex justify-between items-start gap-2">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <span className="h-3 w-3 rounded-full" style={{ backgroundColor: epic.color }} />
+                    {epic.name}
+                  </CardTitle>
+                  {canEdit && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-500 hover:text-red-700"
+                      onClick={() => handleDeleteEpic(epic.id)}
+                    >
+                      <Trash2 size={16} />
+                    </Button>
+                  )}
+                </div>
+                {epic.description && <CardDescription>{epic.description}</CardDescription>}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span>{summary.donePoints} of {summary.totalPoints} points done</span>
+                    <span className="text-muted-foreground">
+                      {summary.doneCount}/{summary.taskCount} tasks
+                    </span>
+                  </div>
+                  <Progress value={percent} />
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">Sprints:</span>
+                  {summary.sprints.map(sprint => (
+                    <Badge
+                      key={sprint.id}
+                      variant="outline"
+                      className="cursor-pointer hover:bg-accent"
+                      onClick={() => navigate(`/sprint/${sprint.id}`)}
+                    >
+                      {sprint.name}
+                    </Badge>
+                  ))}
+                  {summary.unscheduledCount > 0 && (
+                    <Badge variant="secondary">{summary.unscheduledCount} in backlog</Badge>
+                  )}
+                  {summary.taskCount === 0 && <span className="text-muted-foreground">No tasks yet</span>}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      <CreateEpicDialog
+        open={isCreateEpicOpen}
+        onClose={() => setIsCreateEpicOpen(false)}
+        onCreateEpic={(epic) => setEpics(prev => [...prev, epic])}
+        projectId={projectId}
+      />
+    </div>
+  );
+};
+
+export default EpicList;
@@ -0,0 +1,285 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, CheckCircle2, Info } from "lucide-react";
+import { Task } from "@/types/task";
+import { parseCsv } from "@/lib/csv";
+import {
+  IMPORT_FIELDS,
+  ImportField,
+  ImportMapping,
+  MAX_IMPORT_ROWS,
+  buildImportRows,
+  guessMapping,
+} from "@/lib/backlog-import";
+import { createTasks } from "@/lib/supabase/tasks";
+import { fetchMemberEmails } from "@/lib/supabase/project-members";
+import { useMemberDirectory } from "@/hooks/use-member-directory";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { useToast } from "@/hooks/use-toast";
+
+interface ImportTasksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  userId: string;
+  onTasksImported: (tasks: Task[]) => void;
+}
+
+type Step = "upload" | "map" | "preview" | "done";
+
+const NO_COLUMN = "none";
+
+const ImportTasksDialog = ({ open, onOpenChange, projectId, userId, onTasksImported }: ImportTasksDialogProps) => {
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [emails, setEmails] = useState<Record<string, string>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const [summary, setSummary] = useState({ created: 0, skipped: 0 });
+  const { members } = useMemberDirectory(projectId);
+  const { statuses } = useWorkflow();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+
+    // Without emails assignees can still be matched by name
+    fetchMemberEmails(projectId)
+      .then(setEmails)
+      .catch(() => setEmails({}));
+  }, [open, projectId]);
+
+  const importRows = useMemo(() => (
+    buildImportRows(
+      rows,
+      mapping,
+      statuses,
+      members.map(member => ({ id: member.id, name: member.name, email: emails[member.id] }))
+    )
+  ), [rows, mapping, statuses, members, emails]);
+
+  const validRows = importRows.filter(row => row.errors.length === 0);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+
+    const [header, ...body] = parseCsv(await file.text());
+    if (!header || body.length === 0) {
+      toast({
+        title: "Error",
+        description: "The file has no rows below its header",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (body.length > MAX_IMPORT_ROWS) {
+      toast({
+        title: "Error",
+        description: `Files can hold at most ${MAX_IMPORT_ROWS} rows`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(header.map(cell => cell.trim()));
+    setRows(body);
+    setMapping(guessMapping(header));
+    setStep("map");
+  };
+
+  const setColumn = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === NO_COLUMN) delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    try {
+      setIsImporting(true);
+      const created = await createTasks(validRows.map(row => ({
+        ...row.task,
+        projectId,
+        userId,
+        user_id: userId,
+      })));
+
+      onTasksImported(created);
+      setSummary({ created: created.length, skipped: importRows.length - validRows.length });
+      setStep("done");
+    } catch (error) {
+      console.error("Error importing tasks:", error);
+      toast({
+        title: "Error",
+        description: "Failed to import tasks; nothing was created",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const fieldLabel = (field: ImportField) => IMPORT_FIELDS.find(f => f.value === field)?.label;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Import Tasks from CSV</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Choose a CSV file with a header row. Each row becomes a backlog task."}
+            {step === "map" && `Pick the column of ${fileName} that holds each field.`}
+            {step === "preview" && "Rows with problems are skipped. Fix them in the file and import again to add them."}
+            {step === "done" && "The import is finished."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-2">
+            <Label htmlFor="import-file">CSV file</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,text/csv,text/tab-separated-values"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-3">
+            {IMPORT_FIELDS.map(field => (
+              <div key={field.value} className="grid grid-cols-3 items-center gap-4">
+                <Label>
+                  {field.label}
+                  {field.required && <span className="text-destructive"> *</span>}
+                </Label>
+                <Select
+                  value={mapping[field.value] === undefined ? NO_COLUMN : String(mapping[field.value])}
+                  onValueChange={(value) => setColumn(field.value, value)}
+                >
+                  <SelectTrigger className="col-span-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_COLUMN}>Don't import</SelectItem>
+                    {headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {validRows.length} of {importRows.length} rows will be imported
+            </p>
+            <ScrollArea className="h-[360px] rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Line</TableHead>
+                    <TableHead>{fieldLabel("title")}</TableHead>
+                    <TableHead>{fieldLabel("priority")}</TableHead>
+                    <TableHead className="text-right">{fieldLabel("estimate")}</TableHead>
+                    <TableHead>{fieldLabel("status")}</TableHead>
+                    <TableHead>{fieldLabel("assignees")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {importRows.map(row => (
+                    <TableRow key={row.line} className={row.errors.length ? "bg-destructive/5" : undefined}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{row.task.title || "—"}</p>
+                        {row.errors.map(error => (
+                          <p key={error} className="flex items-center gap-1 text-xs text-destructive">
+                            <AlertCircle className="h-3 w-3" />
+                            {error}
+                          </p>
+                        ))}
+                        {row.warnings.map(warning => (
+                          <p key={warning} className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <Info className="h-3 w-3" />
+                            {warning}
+                          </p>
+                        ))}
+                      </TableCell>
+                      <TableCell>{row.task.priority}</TableCell>
+                      <TableCell className="text-right">{row.task.points}</TableCell>
+                      <TableCell>{statuses.find(s => s.key === row.task.status)?.name || "—"}</TableCell>
+                      <TableCell>
+                        {row.task.assignees.map(id => members.find(m => m.id === id)?.name).join(", ") || "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </div>
+        )}
+
+        {step === "done" && (
+          <div className="flex flex-col items-center text-center py-6 space-y-2">
+            <CheckCircle2 className="h-10 w-10 text-green-500" />
+            <p className="font-medium">
+              Created {summary.created} {summary.created === 1 ? "task" : "tasks"}
+            </p>
+            {summary.skipped > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Skipped {summary.skipped} {summary.skipped === 1 ? "row" : "rows"} with problems
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")}>Back</Button>
+              <Button onClick={() => setStep("preview")} disabled={mapping.title === undefined}>
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")} disabled={isImporting}>Back</Button>
+              <Button onClick={handleImport} disabled={isImporting || validRows.length === 0}>
+                {isImporting ? "Importing..." : `Import ${validRows.length} ${validRows.length === 1 ? "task" : "tasks"}`}
+              </Button>
+            </>
+          )}
+          {step === "done" && (
+            <Button onClick={() => onOpenChange(false)}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportTasksDialog;
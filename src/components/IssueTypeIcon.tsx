@@ -0,0 +1,28 @@
+import { Bookmark, Bug, CheckSquare, FlaskConical } from "lucide-react";
+import { IssueType } from "@/types/task";
+import { ISSUE_TYPES } from "@/lib/issue-types";
+
+interface IssueTypeIconProps {
+  type?: IssueType;
+  size?: number;
+}
+
+const issueTypeIcons = {
+  story: { Icon: Bookmark, className: "text-green-600" },
+  bug: { Icon: Bug, className: "text-red-600" },
+  task: { Icon: CheckSquare, className: "text-blue-600" },
+  spike: { Icon: FlaskConical, className: "text-purple-600" },
+};
+
+const IssueTypeIcon = ({ type = "task", size = 16 }: IssueTypeIconProps) => {
+  const { Icon, className } = issueTypeIcons[type] || issueTypeIcons.task;
+  const label = ISSUE_TYPES.find(issueType => issueType.value === type)?.label;
+
+  return (
+    <span title={label} className="shrink-0">
+      <Icon size={size} className={className} />
+    </span>
+  );
+};
+
+export default IssueTypeIcon;
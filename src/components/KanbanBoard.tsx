@@ -1,11 +1,50 @@
 import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Task } from "@/types/task";
-import { fetchSprintTasks, updateTask, deleteTask } from "@/lib/supabase/tasks";
+import { WipBreach } from "@/types/workflow";
+import { fetchProjectEpics } from "@/lib/supabase/epics";
+import { fetchProjectLabels, setTaskLabels } from "@/lib/supabase/labels";
+import { fetchSprintTasks, fetchSubtasks, updateTask, updateTaskRank, deleteTask } from "@/lib/supabase/tasks";
+import { rankAtIndex, rankForMove, sortByRank } from "@/lib/rank";
+import { fetchBlockers } from "@/lib/supabase/task-links";
+import { fetchSprintWipBreaches, recordWipBreach } from "@/lib/supabase/wip-breaches";
+import { getOpenSubtasks } from "@/lib/subtasks";
+import { getOpenBlockers } from "@/lib/dependencies";
+import { collectLabels, filterTasksByLabels } from "@/lib/labels";
+import { getWipState, isStartedStatus } from "@/lib/workflow";
+import {
+  buildSwimlanes,
+  getLaneChanges,
+  getTaskLane,
+  NO_LANE,
+  Swimlane,
+  SwimlaneGrouping,
+  SwimlaneSources,
+  SWIMLANE_GROUPINGS,
+} from "@/lib/swimlanes";
+import LabelFilter from "@/components/LabelFilter";
 import TaskCard from "@/components/TaskCard";
+import SortableTaskCard from "@/components/SortableTaskCard";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useMemberDirectory } from "@/hooks/use-member-directory";
+import { sprintCapacityKey } from "@/hooks/use-sprint-capacity";
 import EditTaskDialog from "@/components/EditTaskDialog";
 import { 
   DndContext, 
@@ -19,46 +58,99 @@ import {
   PointerSensor,
   useDroppable 
 } from "@dnd-kit/core";
+import { AlertTriangle, ChevronDown, ChevronRight } from "lucide-react";
 import { SortableContext, verticalListSortingStrategy } from "@dnd-kit/sortable";
-import { useSortable } from "@dnd-kit/sortable";
-import { CSS } from "@dnd-kit/utilities";
 
-interface KanbanColumnProps {
+interface ColumnHeadingProps {
   title: string;
+  count: number;
+  wipLimit?: number;
+  wipCount: number; // Tasks in the column, including those hidden by filters
+}
+
+interface KanbanColumnProps extends ColumnHeadingProps {
   tasks: Task[];
   onEdit: (task: Task) => void;
   onDelete: (taskId: string) => void;
   columnId: string;
 }
 
+interface KanbanCellProps {
+  tasks: Task[];
+  onEdit: (task: Task) => void;
+  onDelete: (taskId: string) => void;
+  cellId: string;
+}
+
+interface KanbanSwimlaneProps {
+  lane: Swimlane;
+  columns: { key: string; tasks: Task[] }[];
+  collapsed: boolean;
+  onToggle: () => void;
+  onEdit: (task: Task) => void;
+  onDelete: (taskId: string) => void;
+}
+
 interface KanbanBoardProps {
   sprintId: string;
+  projectId?: string;
 }
 
-// Sortable Task Wrapper
-const SortableTaskCard = ({ task, onEdit, onDelete }: { task: Task; onEdit: (task: Task) => void; onDelete: (taskId: string) => void }) => {
-  const { attributes, listeners, setNodeRef, transform, transition } = useSortable({ id: task.id });
+// A move that waits for confirmation, e.g. because of open subtasks or blockers
+interface PendingMove {
+  task: Task;
+  status: Task["status"];
+  rank: string;
+  changes: Partial<Task>; // Fields changed by dropping the task in another swimlane
+  title: string;
+  description: string;
+}
 
-  const style = {
-    transform: CSS.Transform.toString(transform),
-    transition,
-  };
+// Drop targets are the cells where a lane crosses a column. Without swimlanes
+// every column is a single cell of the catch-all lane.
+const toCellId = (laneId: string, status: Task["status"]) => `cell:${laneId}:${status}`;
+
+const parseCellId = (id: string) => {
+  const [prefix, laneId, status] = id.split(":");
+  return prefix === "cell" && laneId && status ? { laneId, status } : null;
+};
+
+const getWipColumnClass = (wipState: ReturnType<typeof getWipState>) => {
+  if (wipState === "over") return "bg-red-50 border-red-400";
+  if (wipState === "at") return "bg-secondary/30 border-amber-400";
+  return "bg-secondary/30";
+};
+
+const ColumnHeading = ({ title, count, wipLimit, wipCount }: ColumnHeadingProps) => {
+  const wipState = getWipState(wipCount, wipLimit);
 
   return (
-    <div ref={setNodeRef} style={style} {...attributes} {...listeners}>
-      <TaskCard task={task} onEdit={onEdit} onDelete={onDelete} isDraggable={true} />
-    </div>
+    <CardTitle className="text-md font-medium flex items-center justify-between gap-2">
+      <span>{title} ({count})</span>
+      {wipState && (
+        <span
+          className={`text-xs font-normal ${wipState === "over" ? "text-red-700 font-semibold" : wipState === "at" ? "text-amber-700" : "text-muted-foreground"}`}
+          title="Work in progress limit"
+        >
+          WIP {wipCount}/{wipLimit}
+        </span>
+      )}
+    </CardTitle>
   );
 };
 
 // Kanban Column with Droppable Support
-const KanbanColumn = ({ title, tasks, onEdit, onDelete, columnId }: KanbanColumnProps) => {
+const KanbanColumn = ({ title, count, tasks, onEdit, onDelete, columnId, wipLimit, wipCount }: KanbanColumnProps) => {
   const { setNodeRef } = useDroppable({ id: columnId });
 
   return (
-    <Card ref={setNodeRef} className="flex-1 min-w-[250px] max-w-[350px] bg-secondary/30" id={columnId}>
+    <Card
+      ref={setNodeRef}
+      className={`flex-1 min-w-[250px] max-w-[350px] ${getWipColumnClass(getWipState(wipCount, wipLimit))}`}
+      id={columnId}
+    >
       <CardHeader className="bg-muted/30 pb-2">
-        <CardTitle className="text-md font-medium">{title} ({tasks.length})</CardTitle>
+        <ColumnHeading title={title} count={count} wipLimit={wipLimit} wipCount={wipCount} />
       </CardHeader>
       <CardContent className="p-2">
         <ScrollArea className="h-[calc(100vh-300px)]">
@@ -73,10 +165,59 @@ const KanbanColumn = ({ title, tasks, onEdit, onDelete, columnId }: KanbanColumn
   );
 };
 
+// Part of a column within a swimlane
+const KanbanCell = ({ tasks, onEdit, onDelete, cellId }: KanbanCellProps) => {
+  const { setNodeRef } = useDroppable({ id: cellId });
+
+  return (
+    <div ref={setNodeRef} className="w-[280px] shrink-0 min-h-[80px] rounded-md bg-secondary/30 p-2" id={cellId}>
+      <SortableContext items={tasks.map(task => task.id)} strategy={verticalListSortingStrategy}>
+        {tasks.map(task => (
+          <SortableTaskCard key={task.id} task={task} onEdit={onEdit} onDelete={onDelete} />
+        ))}
+      </SortableContext>
+    </div>
+  );
+};
+
+const KanbanSwimlane = ({ lane, columns, collapsed, onToggle, onEdit, onDelete }: KanbanSwimlaneProps) => (
+  <div className="border-t pt-2">
+    <button
+      type="button"
+      className="flex items-center gap-2 mb-2 text-sm font-medium"
+      onClick={onToggle}
+      aria-expanded={!collapsed}
+    >
+      {collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      {lane.title}
+      <span className="font-normal text-muted-foreground">
+        {lane.tasks.length} {lane.tasks.length === 1 ? "task" : "tasks"} · {lane.points} {lane.points === 1 ? "point" : "points"}
+      </span>
+    </button>
+    {!collapsed && (
+      <div className="flex gap-4">
+        {columns.map(column => (
+          <KanbanCell
+            key={column.key}
+            tasks={column.tasks}
+            onEdit={onEdit}
+            onDelete={onDelete}
+            cellId={toCellId(lane.id, column.key)}
+          />
+        ))}
+      </div>
+    )}
+  </div>
+);
+
 // Main Kanban Board Component
-const KanbanBoard = ({ sprintId }: KanbanBoardProps) => {
+const KanbanBoard = ({ sprintId, projectId }: KanbanBoardProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { statuses, doneStatuses, wipLimitMode, getStatus, isDone } = useWorkflow();
+  const { canEdit } = usePermissions();
+  const { members } = useMemberDirectory(projectId);
+  const queryClient = useQueryClient();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
@@ -84,6 +225,12 @@ const KanbanBoard = ({ sprintId }: KanbanBoardProps) => {
   const [activeTask, setActiveTask] = useState<Task | null>(null);
   const [activeId, setActiveId] = useState<string | null>(null);
   const [currentOverId, setCurrentOverId] = useState<string | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [labelFilter, setLabelFilter] = useState<string[]>([]);
+  const [wipBreaches, setWipBreaches] = useState<WipBreach[]>([]);
+  const [grouping, setGrouping] = useState<SwimlaneGrouping>("none");
+  const [laneSources, setLaneSources] = useState<Omit<SwimlaneSources, "members"> | null>(null);
+  const [collapsedLanes, setCollapsedLanes] = useState<string[]>([]);
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -97,11 +244,49 @@ const KanbanBoard = ({ sprintId }: KanbanBoardProps) => {
     }
   }, [sprintId]);
 
+  // Epics and labels are only needed once the board is split into lanes
+  useEffect(() => {
+    if (grouping === "none" || laneSources || !projectId) return;
+
+    const loadLaneSources = async () => {
+      try {
+        const [epics, labels] = await Promise.all([
+          fetchProjectEpics(projectId),
+          fetchProjectLabels(projectId),
+        ]);
+
+        setLaneSources({ epics, labels });
+      } catch (error) {
+        console.error("Failed to load swimlanes:", error);
+        toast({ title: "Error", description: "Failed to load swimlanes", variant: "destructive" });
+      }
+    };
+
+    loadLaneSources();
+  }, [grouping, laneSources, projectId, toast]);
+
+  const visibleTasks = filterTasksByLabels(tasks, labelFilter);
+  const lanes = grouping === "none"
+    ? []
+    : buildSwimlanes(visibleTasks, grouping, {
+        members: members.map(member => ({ id: member.id, name: member.name })),
+        epics: laneSources?.epics || [],
+        labels: laneSources?.labels || [],
+      });
+
+  const toggleLane = (laneId: string) => {
+    setCollapsedLanes(prev => (prev.includes(laneId) ? prev.filter(id => id !== laneId) : [...prev, laneId]));
+  };
+
   const fetchTasks = async () => {
     try {
       setLoading(true);
-      const sprintTasks = await fetchSprintTasks(sprintId);
+      const [sprintTasks, sprintBreaches] = await Promise.all([
+        fetchSprintTasks(sprintId),
+        fetchSprintWipBreaches(sprintId),
+      ]);
       setTasks(sprintTasks);
+      setWipBreaches(sprintBreaches);
     } catch (error) {
       console.error("Failed to fetch sprint tasks:", error);
       toast({
@@ -123,6 +308,7 @@ const KanbanBoard = ({ sprintId }: KanbanBoardProps) => {
     try {
       await deleteTask(taskId);
       setTasks(tasks.filter(task => task.id !== taskId));
+      queryClient.invalidateQueries({ queryKey: sprintCapacityKey(projectId) });
       toast({ title: "Task deleted", description: "Task has been deleted successfully" });
     } catch (error) {
       console.error("Failed to delete task:", error);
@@ -151,59 +337,197 @@ const KanbanBoard = ({ sprintId }: KanbanBoardProps) => {
     setActiveId(null);
     setCurrentOverId(null);
 
-    if (!over) return;
+    // Viewers cannot drag cards, this only guards against a stale role
+    if (!over || !canEdit) return;
 
     const taskId = active.id as string;
     const task = tasks.find(t => t.id === taskId);
     if (!task || !user) return;
 
-    const newStatusMap: Record<string, Task["status"]> = {
-      "column-todo": "todo",
-      "column-in-progress": "in-progress",
-      "column-in-review": "in-review",
-      "column-done": "done",
-    };
-
-    const columnId = over.id as string;
-    const newStatus = newStatusMap[columnId];
+    // A task can be dropped on a cell or on another task inside it
+    const overId = over.id as string;
+    const overTask = tasks.find(t => t.id === overId);
+    const cell = parseCellId(overId);
+    const newStatus = overTask ? getStatus(overTask.status).key : cell?.status;
     
-    if (!newStatus || newStatus === task.status) return;
+    if (!newStatus) return;
 
+    // Dropping the task in another lane changes the attribute the board is grouped by
+    const newLane = overTask ? getTaskLane(overTask, grouping) : cell?.laneId;
+    const changes = grouping !== "none" && newLane && newLane !== getTaskLane(task, grouping)
+      ? getLaneChanges(task, grouping, newLane, laneSources?.labels || [])
+      : {};
+    const isLaneChange = Object.keys(changes).length > 0;
+
+    const wipBreach = getWipBreach(task, newStatus);
+    if (wipBreach && wipLimitMode === "hard") {
+      logWipBreach(task, newStatus, wipBreach, true);
+      toast({
+        title: "WIP limit reached",
+        description: `${getStatus(newStatus).name} is limited to ${wipBreach.wipLimit} ${wipBreach.wipLimit === 1 ? "task" : "tasks"}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let newRank: string | null;
+    try {
+      // Work out the task's new position within the target column
+      const columnTasks = tasks.filter(t => getStatus(t.status).key === newStatus);
+      if (newStatus === task.status) {
+        newRank = overTask ? rankForMove(columnTasks, taskId, overId) : null;
+        // A task moved only across lanes keeps its place in the column
+        if (!newRank && isLaneChange) newRank = task.rank || rankAtIndex(columnTasks, columnTasks.length);
+      } else {
+        const index = overTask ? columnTasks.findIndex(t => t.id === overId) : columnTasks.length;
+        newRank = rankAtIndex(columnTasks, index);
+      }
+
+      if (!newRank) return;
+
+      const warning = await getMoveWarning(task, newStatus);
+      if (warning) {
+        setPendingMove({ task, status: newStatus, rank: newRank, changes, ...warning });
+        return;
+      }
+    } catch (error) {
+      console.error("Failed to check the move:", error);
+      toast({ title: "Error", description: "Failed to move task", variant: "destructive" });
+      return;
+    }
+
+    await applyMove(task, newStatus, newRank, changes);
+  };
+
+  // Returns the WIP limit a move into another column would go over, if any
+  const getWipBreach = (task: Task, newStatus: Task["status"]) => {
+    const { wipLimit } = getStatus(newStatus);
+    if (!wipLimit || getStatus(task.status).key === newStatus) return null;
+
+    const taskCount = tasks.filter(t => getStatus(t.status).key === newStatus).length + 1;
+    return taskCount > wipLimit ? { wipLimit, taskCount } : null;
+  };
+
+  // Breaches are recorded for sprint reports; failing to record one never blocks the board
+  const logWipBreach = async (
+    task: Task,
+    status: Task["status"],
+    breach: { wipLimit: number; taskCount: number },
+    rejected: boolean
+  ) => {
+    if (!task.projectId) return;
+
+    try {
+      const recorded = await recordWipBreach({
+        projectId: task.projectId,
+        sprintId,
+        taskId: task.id,
+        status,
+        ...breach,
+        rejected,
+      });
+      setWipBreaches(prev => [...prev, recorded]);
+    } catch (error) {
+      console.error("Failed to record WIP breach:", error);
+    }
+  };
+
+  // Returns why a move needs confirmation, if it does
+  const getMoveWarning = async (task: Task, newStatus: Task["status"]) => {
+    if (isDone(newStatus) && !isDone(task.status) && !task.parentId) {
+      const openSubtasks = getOpenSubtasks(await fetchSubtasks(task.id), doneStatuses);
+      if (openSubtasks.length > 0) {
+        return {
+          title: "Subtasks still open",
+          description: `"${task.title}" has ${openSubtasks.length === 1 ? "1 open subtask" : `${openSubtasks.length} open subtasks`}. Do you want to move it to ${getStatus(newStatus).name} anyway?`,
+        };
+      }
+    }
+
+    // Starting work on a task that has not been started yet
+    if (isStartedStatus(newStatus, statuses) && !isStartedStatus(task.status, statuses) && !isDone(task.status)) {
+      const openBlockers = getOpenBlockers(await fetchBlockers(task.id), doneStatuses);
+      if (openBlockers.length > 0) {
+        return {
+          title: "Task is blocked",
+          description: `"${task.title}" is blocked by ${openBlockers.map(blocker => `"${blocker.title}"`).join(", ")}. Do you want to start it anyway?`,
+        };
+      }
+    }
+
+    return null;
+  };
+
+  const applyMove = async (task: Task, newStatus: Task["status"], newRank: string, changes: Partial<Task> = {}) => {
+    if (!user) return;
+
+    const taskId = task.id;
+    const wipBreach = getWipBreach(task, newStatus);
+    const isLaneChange = Object.keys(changes).length > 0;
     console.log(`Moving task ${taskId} from ${task.status} to ${newStatus}`);
 
     try {
       // Optimistically update UI first
       setTasks(prevTasks =>
-        prevTasks.map(t => (t.id === taskId ? { ...t, status: newStatus } : t))
+        sortByRank(prevTasks.map(t => (t.id === taskId ? { ...t, ...changes, status: newStatus, rank: newRank } : t)))
       );
       
       // Then update the database
+      if (newStatus === task.status && !isLaneChange) {
+        await updateTaskRank(taskId, newRank);
+        return;
+      }
+
       const updatedTask: Task & { user_id: string } = { 
         ...task, 
+        ...changes,
         status: newStatus, 
+        rank: newRank,
         user_id: user.id 
       };
       
       await updateTask(updatedTask);
+      if (changes.labels) {
+        await setTaskLabels(taskId, changes.labels.map(label => label.id));
+      }
       
+      if (wipBreach) {
+        logWipBreach(task, newStatus, wipBreach, false);
+        toast({
+          title: "WIP limit exceeded",
+          description: `${getStatus(newStatus).name} now holds ${wipBreach.taskCount} tasks, over its limit of ${wipBreach.wipLimit}`,
+        });
+        return;
+      }
+
+      const lane = isLaneChange ? lanes.find(l => l.id === getTaskLane(updatedTask, grouping)) : null;
       toast({ 
         title: "Task updated", 
-        description: `Task moved to ${newStatus.replace("-", " ")}` 
+        description: `Task moved to ${[lane?.title, newStatus !== task.status && getStatus(newStatus).name].filter(Boolean).join(", ")}` 
       });
     } catch (error) {
       console.error("Failed to update task status:", error);
       // Revert the optimistic update on failure
       setTasks(prevTasks =>
-        prevTasks.map(t => (t.id === taskId ? { ...task } : t))
+        sortByRank(prevTasks.map(t => (t.id === taskId ? { ...task } : t)))
       );
+      // The database rejects moves over a hard WIP limit the board did not know about
+      const wipLimitReached = error?.hint === "wip_limit";
       toast({ 
-        title: "Error", 
-        description: "Failed to update task status", 
+        title: wipLimitReached ? "WIP limit reached" : "Error", 
+        description: wipLimitReached ? error.message : "Failed to update task status", 
         variant: "destructive" 
       });
     }
   };
 
+  const handleConfirmMove = async () => {
+    if (!pendingMove) return;
+    const { task, status, rank, changes } = pendingMove;
+    setPendingMove(null);
+    await applyMove(task, status, rank, changes);
+  };
+
   if (loading) {
     return <div className="flex justify-center items-center h-[60vh]">
       <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
@@ -212,7 +536,34 @@ const KanbanBoard = ({ sprintId }: KanbanBoardProps) => {
 
   return (
     <div className="h-full">
-      <h2 className="text-xl font-semibold mb-4">Sprint Board</h2>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Sprint Board</h2>
+        <div className="flex items-center gap-2">
+          {wipBreaches.length > 0 && (
+            <Badge
+              variant="outline"
+              className="gap-1 border-amber-400 text-amber-700"
+              title={`${wipBreaches.filter(breach => breach.rejected).length} of these moves were blocked`}
+            >
+              <AlertTriangle className="h-3 w-3" />
+              WIP exceeded {wipBreaches.length} {wipBreaches.length === 1 ? "time" : "times"} this sprint
+            </Badge>
+          )}
+          <Select value={grouping} onValueChange={(value) => setGrouping(value as SwimlaneGrouping)}>
+            <SelectTrigger className="w-[160px]" aria-label="Swimlanes">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SWIMLANE_GROUPINGS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.value === "none" ? option.label : `By ${option.label.toLowerCase()}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <LabelFilter labels={collectLabels(tasks)} value={labelFilter} onChange={setLabelFilter} />
+        </div>
+      </div>
 
       <DndContext 
         collisionDetection={closestCenter} 
@@ -221,18 +572,79 @@ const KanbanBoard = ({ sprintId }: KanbanBoardProps) => {
         onDragEnd={handleDragEnd}
         sensors={sensors}
       >
-        <div className="flex gap-4 overflow-x-auto pb-4">
-          <KanbanColumn title="To Do" tasks={tasks.filter(t => t.status === "todo")} onEdit={handleEditTask} onDelete={handleDeleteTask} columnId="column-todo" />
-          <KanbanColumn title="In Progress" tasks={tasks.filter(t => t.status === "in-progress")} onEdit={handleEditTask} onDelete={handleDeleteTask} columnId="column-in-progress" />
-          <KanbanColumn title="In Review" tasks={tasks.filter(t => t.status === "in-review")} onEdit={handleEditTask} onDelete={handleDeleteTask} columnId="column-in-review" />
-          <KanbanColumn title="Done" tasks={tasks.filter(t => t.status === "done")} onEdit={handleEditTask} onDelete={handleDeleteTask} columnId="column-done" />
-        </div>
+        {grouping === "none" ? (
+          <div className="flex gap-4 overflow-x-auto pb-4">
+            {statuses.map(status => {
+              const columnTasks = visibleTasks.filter(t => getStatus(t.status).key === status.key);
+              return (
+                <KanbanColumn
+                  key={status.key}
+                  title={status.name}
+                  count={columnTasks.length}
+                  tasks={columnTasks}
+                  onEdit={handleEditTask}
+                  onDelete={handleDeleteTask}
+                  columnId={toCellId(NO_LANE, status.key)}
+                  wipLimit={status.wipLimit}
+                  wipCount={tasks.filter(t => getStatus(t.status).key === status.key).length}
+                />
+              );
+            })}
+          </div>
+        ) : (
+          <div className="overflow-x-auto pb-4 space-y-2">
+            <div className="flex gap-4">
+              {statuses.map(status => {
+                const wipCount = tasks.filter(t => getStatus(t.status).key === status.key).length;
+                return (
+                  <Card key={status.key} className={`w-[280px] shrink-0 ${getWipColumnClass(getWipState(wipCount, status.wipLimit))}`}>
+                    <CardHeader className="bg-muted/30 py-3">
+                      <ColumnHeading
+                        title={status.name}
+                        count={visibleTasks.filter(t => getStatus(t.status).key === status.key).length}
+                        wipLimit={status.wipLimit}
+                        wipCount={wipCount}
+                      />
+                    </CardHeader>
+                  </Card>
+                );
+              })}
+            </div>
+            {lanes.map(lane => (
+              <KanbanSwimlane
+                key={lane.id}
+                lane={lane}
+                columns={statuses.map(status => ({
+                  key: status.key,
+                  tasks: lane.tasks.filter(t => getStatus(t.status).key === status.key),
+                }))}
+                collapsed={collapsedLanes.includes(lane.id)}
+                onToggle={() => toggleLane(lane.id)}
+                onEdit={handleEditTask}
+                onDelete={handleDeleteTask}
+              />
+            ))}
+          </div>
+        )}
 
         <DragOverlay>
           {activeTask && <TaskCard task={activeTask} onEdit={() => {}} onDelete={() => {}} isDraggable />}
         </DragOverlay>
       </DndContext>
 
+      <AlertDialog open={!!pendingMove} onOpenChange={(open) => !open && setPendingMove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingMove?.title}</AlertDialogTitle>
+            <AlertDialogDescription>{pendingMove?.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmMove}>Move anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {selectedTask && (
         <EditTaskDialog
           task={selectedTask}
@@ -243,6 +655,8 @@ const KanbanBoard = ({ sprintId }: KanbanBoardProps) => {
             setTasks(prevTasks =>
               prevTasks.map(task => (task.id === updatedTask.id ? updatedTask : task))
             );
+            // Points and assignees count towards the sprint's capacity
+            queryClient.invalidateQueries({ queryKey: sprintCapacityKey(projectId) });
             setIsEditDialogOpen(false);
           }}
         />
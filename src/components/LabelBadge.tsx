@@ -0,0 +1,21 @@
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/types/label";
+
+interface LabelBadgeProps {
+  label: Pick<Label, "name" | "color">;
+  className?: string;
+  children?: React.ReactNode; // Rendered before the name, e.g. an icon
+}
+
+const LabelBadge = ({ label, className = "", children }: LabelBadgeProps) => (
+  <Badge
+    variant="outline"
+    className={`font-normal ${className}`}
+    style={{ borderColor: label.color, color: label.color, backgroundColor: `${label.color}1a` }}
+  >
+    {children}
+    {label.name}
+  </Badge>
+);
+
+export default LabelBadge;
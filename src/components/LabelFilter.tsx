@@ -0,0 +1,58 @@
+import { Tag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Label } from "@/types/label";
+
+interface LabelFilterProps {
+  labels: Label[]; // The labels that can be filtered by
+  value: string[]; // IDs of the selected labels
+  onChange: (labelIds: string[]) => void;
+}
+
+const LabelFilter = ({ labels, value, onChange }: LabelFilterProps) => {
+  const toggleLabel = (labelId: string, checked: boolean) => {
+    onChange(checked ? [...value, labelId] : value.filter(id => id !== labelId));
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant={value.length > 0 ? "secondary" : "outline"} size="sm" disabled={labels.length === 0}>
+          <Tag className="mr-2 h-4 w-4" />
+          {value.length > 0 ? `Labels (${value.length})` : "Labels"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Show tasks labelled</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {labels.map(label => (
+          <DropdownMenuCheckboxItem
+            key={label.id}
+            checked={value.includes(label.id)}
+            onCheckedChange={(checked) => toggleLabel(label.id, checked)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            <span className="mr-2 h-2 w-2 rounded-full" style={{ backgroundColor: label.color }} />
+            {label.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+        {value.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => onChange([])}>Clear filter</DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default LabelFilter;
@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { Plus, Tag, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label as FieldLabel } from "@/components/ui/label";
+import { Label } from "@/types/label";
+import { createLabel, deleteLabel, fetchProjectLabels, updateLabel } from "@/lib/supabase/labels";
+import { LABEL_COLORS } from "@/lib/labels";
+import { useToast } from "@/hooks/use-toast";
+import LabelBadge from "./LabelBadge";
+import ColorSwatches from "./ColorSwatches";
+
+interface LabelManagerProps {
+  projectId: string;
+}
+
+const LabelManager = ({ projectId }: LabelManagerProps) => {
+  const [labels, setLabels] = useState<Label[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({}); // Unsaved renames by label ID
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState(LABEL_COLORS[0]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadLabels = async () => {
+      try {
+        setLoading(true);
+        setLabels(await fetchProjectLabels(projectId));
+      } catch (error) {
+        console.error("Failed to fetch labels:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load labels",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLabels();
+  }, [projectId, toast]);
+
+  const showSaveError = (error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error?.code === "23505" ? "A label with this name already exists" : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    try {
+      const label = await createLabel({ projectId, name: newName.trim(), color: newColor });
+      setLabels(prev => [...prev, label].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewName("");
+    } catch (error) {
+      console.error("Failed to create label:", error);
+      showSaveError(error, "Failed to create label");
+    }
+  };
+
+  const handleUpdate = async (label: Label) => {
+    const previous = labels.find(l => l.id === label.id);
+    const isUnchanged = previous && previous.name === label.name && previous.color === label.color;
+
+    try {
+      if (!previous || !label.name || isUnchanged) return;
+      setLabels(prev => prev.map(l => (l.id === label.id ? label : l)));
+      await updateLabel(label);
+    } catch (error) {
+      console.error("Failed to update label:", error);
+      setLabels(prev => prev.map(l => (l.id === label.id ? previous : l)));
+      showSaveError(error, "Failed to update label");
+    } finally {
+      setNames(prev => {
+        const next = { ...prev };
+        delete next[label.id];
+        return next;
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteLabel(id);
+      setLabels(prev => prev.filter(label => label.id !== id));
+    } catch (error) {
+      console.error("Failed to delete label:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete label",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Renaming, recoloring or deleting a label changes it on every task that carries it.
+      </p>
+
+      {labels.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground">
+          <Tag className="h-8 w-8 mx-auto mb-2" />
+          <p className="text-sm">No labels yet</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {labels.map(label => (
+            <div key={label.id} className="flex flex-wrap items-center gap-3">
+              <LabelBadge label={{ ...label, name: names[label.id] ?? label.name }} className="w-28 justify-center" />
+              <Input
+                className="w-48"
+                value={names[label.id] ?? label.name}
+                onChange={(e) => setNames(prev => ({ ...prev, [label.id]: e.target.value }))}
+                onBlur={() => names[label.id] !== undefined && handleUpdate({ ...label, name: names[label.id].trim() })}
+                onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                aria-label={`Name of ${label.name}`}
+              />
+              <ColorSwatches colors={LABEL_COLORS} value={label.color} onChange={(color) => handleUpdate({ ...label, color })} />
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="ml-auto text-red-500 hover:text-red-700"
+                onClick={() => handleDelete(label.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-2">
+        <FieldLabel htmlFor="new-label">New label</FieldLabel>
+        <div className="flex flex-wrap items-center gap-3">
+          <Input
+            id="new-label"
+            className="w-48"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Label name"
+          />
+          <ColorSwatches colors={LABEL_COLORS} value={newColor} onChange={setNewColor} />
+          <Button type="submit" size="sm" disabled={!newName.trim()}>
+            <Plus className="mr-1 h-4 w-4" /> Add Label
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default LabelManager;
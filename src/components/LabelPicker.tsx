@@ -0,0 +1,45 @@
+import { Check } from "lucide-react";
+import { Label } from "@/types/label";
+import LabelBadge from "./LabelBadge";
+
+interface LabelPickerProps {
+  labels: Label[]; // The project's labels
+  value: Label[];
+  onChange: (labels: Label[]) => void;
+}
+
+const LabelPicker = ({ labels, value, onChange }: LabelPickerProps) => {
+  const toggleLabel = (label: Label) => {
+    onChange(
+      value.some(selected => selected.id === label.id)
+        ? value.filter(selected => selected.id !== label.id)
+        : [...value, label]
+    );
+  };
+
+  if (labels.length === 0) {
+    return <p className="text-sm text-muted-foreground">No labels yet. Add them in the project settings.</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {labels.map(label => {
+        const isSelected = value.some(selected => selected.id === label.id);
+        return (
+          <button
+            key={label.id}
+            type="button"
+            className={isSelected ? "" : "opacity-50 hover:opacity-100"}
+            onClick={() => toggleLabel(label)}
+          >
+            <LabelBadge label={label} className="gap-1">
+              {isSelected && <Check className="h-3 w-3" />}
+            </LabelBadge>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LabelPicker;
@@ -0,0 +1,130 @@
+import { Fragment, ReactNode } from "react";
+import { findMentions, Mentionable } from "@/lib/mentions";
+
+interface MarkdownProps {
+  source: string;
+  mentions?: Mentionable[]; // Members whose "@name" gets highlighted
+}
+
+// Inline syntax: `code`, **bold**, *italic* or _italic_, and [links](https://...)
+const INLINE_PATTERN = /(`[^`]+`)|(\*\*[^*]+\*\*)|(\*[^*\s][^*]*\*|_[^_\s][^_]*_)|(\[[^\]]+\]\([^)\s]+\))/g;
+
+const isSafeUrl = (url: string) => /^(https?:|mailto:)/i.test(url);
+
+const renderMentions = (text: string, mentions: Mentionable[], key: string) => {
+  const matches = findMentions(text, mentions);
+  if (matches.length === 0) return [text];
+
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  matches.forEach((match, index) => {
+    nodes.push(text.slice(last, match.start));
+    nodes.push(
+      <span key={`${key}-mention-${index}`} className="font-medium text-primary">
+        {text.slice(match.start, match.end)}
+      </span>
+    );
+    last = match.end;
+  });
+  nodes.push(text.slice(last));
+  return nodes;
+};
+
+const renderInline = (text: string, mentions: Mentionable[], key: string): ReactNode[] => {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  let match: RegExpExecArray | null;
+  let index = 0;
+
+  INLINE_PATTERN.lastIndex = 0;
+  while ((match = INLINE_PATTERN.exec(text)) !== null) {
+    nodes.push(...renderMentions(text.slice(last, match.index), mentions, `${key}-${index}`));
+    const token = match[0];
+    const tokenKey = `${key}-token-${index}`;
+
+    if (match[1]) {
+      nodes.push(<code key={tokenKey} className="rounded bg-muted px-1 font-mono text-xs">{token.slice(1, -1)}</code>);
+    } else if (match[2]) {
+      nodes.push(<strong key={tokenKey}>{renderInline(token.slice(2, -2), mentions, tokenKey)}</strong>);
+    } else if (match[3]) {
+      nodes.push(<em key={tokenKey}>{renderInline(token.slice(1, -1), mentions, tokenKey)}</em>);
+    } else {
+      const [, label, url] = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(token) || [];
+      nodes.push(
+        isSafeUrl(url)
+          ? <a key={tokenKey} href={url} target="_blank" rel="noopener noreferrer" className="text-primary underline">{label}</a>
+          : token
+      );
+    }
+
+    last = match.index + token.length;
+    index++;
+  }
+
+  nodes.push(...renderMentions(text.slice(last), mentions, `${key}-${index}`));
+  return nodes;
+};
+
+const renderBlock = (block: string, mentions: Mentionable[], key: string) => {
+  const lines = block.split("\n");
+
+  if (lines.every(line => /^\s*[-*] /.test(line))) {
+    return (
+      <ul key={key} className="list-disc pl-5">
+        {lines.map((line, index) => (
+          <li key={index}>{renderInline(line.replace(/^\s*[-*] /, ""), mentions, `${key}-${index}`)}</li>
+        ))}
+      </ul>
+    );
+  }
+
+  if (lines.every(line => /^\s*\d+\. /.test(line))) {
+    return (
+      <ol key={key} className="list-decimal pl-5">
+        {lines.map((line, index) => (
+          <li key={index}>{renderInline(line.replace(/^\s*\d+\. /, ""), mentions, `${key}-${index}`)}</li>
+        ))}
+      </ol>
+    );
+  }
+
+  return (
+    <p key={key}>
+      {lines.map((line, index) => (
+        <Fragment key={index}>
+          {index > 0 && <br />}
+          {renderInline(line, mentions, `${key}-${index}`)}
+        </Fragment>
+      ))}
+    </p>
+  );
+};
+
+// Renders the small subset of Markdown used in comments without ever
+// injecting raw HTML
+const Markdown = ({ source, mentions = [] }: MarkdownProps) => {
+  const parts = source.split(/```(?:[\w-]*)\n?([\s\S]*?)```/g);
+
+  return (
+    <div className="space-y-2 break-words">
+      {parts.map((part, index) => {
+        // Odd parts are the contents of fenced code blocks
+        if (index % 2 === 1) {
+          return (
+            <pre key={index} className="overflow-x-auto rounded bg-muted p-2 font-mono text-xs">
+              <code>{part}</code>
+            </pre>
+          );
+        }
+
+        return part
+          .split(/\n\s*\n/)
+          .map(block => block.trim())
+          .filter(Boolean)
+          .map((block, blockIndex) => renderBlock(block, mentions, `${index}-${blockIndex}`));
+      })}
+    </div>
+  );
+};
+
+export default Markdown;
@@ -0,0 +1,20 @@
+import { User as UserIcon, UserX } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { DirectoryMember } from "@/hooks/use-member-directory";
+import { cn } from "@/lib/utils";
+
+interface MemberAvatarProps {
+  member: DirectoryMember;
+  className?: string;
+}
+
+const MemberAvatar = ({ member, className }: MemberAvatarProps) => (
+  <Avatar className={cn("w-6 h-6", member.isFormer && "opacity-60", className)} title={member.name}>
+    {member.avatarUrl && <AvatarImage src={member.avatarUrl} alt={member.name} />}
+    <AvatarFallback className="bg-muted">
+      {member.isFormer ? <UserX className="w-3 h-3" /> : <UserIcon className="w-3 h-3" />}
+    </AvatarFallback>
+  </Avatar>
+);
+
+export default MemberAvatar;
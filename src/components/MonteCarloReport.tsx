@@ -0,0 +1,158 @@
+import { useEffect, useMemo, useState } from "react";
+import { addDays, differenceInCalendarDays, format, startOfDay } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Task, TaskHistoryEntry } from "@/types/task";
+import { CONFIDENCE_LEVELS, SIMULATION_RUNS, SimulationRequest } from "@/lib/monte-carlo";
+import { getCompletionDates, getDailyThroughput, THROUGHPUT_WINDOW_DAYS } from "@/lib/throughput";
+import { useMonteCarlo } from "@/hooks/use-monte-carlo";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { cn } from "@/lib/utils";
+
+// Confidence level the forecast is headlined with
+const HEADLINE_CONFIDENCE = 85;
+
+interface MonteCarloReportProps {
+  tasks: Task[];
+  history: TaskHistoryEntry[];
+}
+
+const distributionConfig = {
+  share: { label: "Share of runs (%)", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const MonteCarloReport = ({ tasks, history }: MonteCarloReportProps) => {
+  const { doneStatuses } = useWorkflow();
+  const today = startOfDay(new Date());
+
+  // Backlog items are top-level tasks; subtasks would count the same work twice
+  const items = useMemo(() => tasks.filter(task => !task.parentId), [tasks]);
+  const openItems = items.filter(task => !doneStatuses.includes(task.status)).length;
+  const samples = useMemo(
+    () => getDailyThroughput(Array.from(getCompletionDates(items, history, doneStatuses).values())),
+    [items, history, doneStatuses]
+  );
+
+  const [kind, setKind] = useState<SimulationRequest["kind"]>("when");
+  const [itemCount, setItemCount] = useState(Math.max(1, openItems));
+  const [targetDate, setTargetDate] = useState(format(addDays(today, 30), "yyyy-MM-dd"));
+  const { run, result, running } = useMonteCarlo();
+
+  const days = Math.max(1, differenceInCalendarDays(new Date(targetDate), today));
+
+  useEffect(() => {
+    run(kind === "when"
+      ? { kind, samples, items: itemCount, runs: SIMULATION_RUNS }
+      : { kind, samples, days, runs: SIMULATION_RUNS });
+  }, [run, kind, samples, itemCount, days]);
+
+  // A result from the other kind of forecast may still be shown while the new one runs
+  const current = result?.kind === kind ? result : null;
+  const formatOutcome = (value: number) => (
+    kind === "when" ? format(addDays(today, value), "MMM d, yyyy") : `${value} ${value === 1 ? "item" : "items"}`
+  );
+  const chartData = (current?.outcomes || []).map(outcome => ({
+    label: kind === "when" ? format(addDays(today, outcome.value), "MMM d") : String(outcome.value),
+    share: Math.round((outcome.runs / current.runs) * 1000) / 10,
+  }));
+  const completedCount = samples.reduce((sum, count) => sum + count, 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Delivery forecast</CardTitle>
+        <CardDescription>
+          {SIMULATION_RUNS.toLocaleString()} simulated runs drawing from {completedCount} items finished
+          over the last {samples.length || THROUGHPUT_WINDOW_DAYS} days
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Question</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as SimulationRequest["kind"])}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="when">When will the items be done?</SelectItem>
+                <SelectItem value="how-many">How many items by a date?</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {kind === "when" ? (
+            <div className="space-y-2">
+              <Label htmlFor="forecast-items">Items ({openItems} open)</Label>
+              <Input
+                id="forecast-items"
+                type="number"
+                min={1}
+                className="w-32"
+                value={itemCount}
+                onChange={(e) => setItemCount(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="forecast-date">Date</Label>
+              <Input
+                id="forecast-date"
+                type="date"
+                className="w-44"
+                min={format(addDays(today, 1), "yyyy-MM-dd")}
+                value={targetDate}
+                onChange={(e) => e.target.value && setTargetDate(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        {completedCount === 0 ? (
+          // Without finished work in the window the simulation has nothing to draw from
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            {samples.length === 0
+              ? "Finish some tasks to build up the throughput history forecasts are drawn from."
+              : `No tasks were finished in the last ${samples.length} days, so there is no recent throughput to forecast from.`}
+          </p>
+        ) : !current ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-2">
+              {CONFIDENCE_LEVELS.map(level => (
+                <div
+                  key={level}
+                  className={cn("rounded-md border p-3", level === HEADLINE_CONFIDENCE && "border-primary bg-primary/5")}
+                >
+                  <p className="text-xs text-muted-foreground">{level}% confidence</p>
+                  <p className="font-semibold">
+                    {kind === "when" ? "By " : "At least "}
+                    {formatOutcome(current.forecasts[level])}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <ChartContainer config={distributionConfig} className={cn("h-[220px] w-full aspect-auto", running && "opacity-60")}>
+              <BarChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="share" fill="var(--color-share)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MonteCarloReport;
@@ -5,9 +5,17 @@ import { Task } from "@/types/task";
 import { Sprint } from "@/types/sprint";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
-import { useState } from "react";
-import { Calendar } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useEffect, useState } from "react";
+import { AlertTriangle, Calendar } from "lucide-react";
 import { format } from "date-fns";
+import { fetchBlockers } from "@/lib/supabase/task-links";
+import { getLateBlockers } from "@/lib/dependencies";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { useSprintCapacity } from "@/hooks/use-sprint-capacity";
+import { formatCapacity } from "@/lib/capacity";
+import CapacityGauge from "./CapacityGauge";
 
 interface MoveTaskDialogProps {
   open: boolean;
@@ -19,12 +27,49 @@ interface MoveTaskDialogProps {
 
 const MoveTaskDialog = ({ task, open, onOpenChange, sprints, onTaskMoved }: MoveTaskDialogProps) => {
   const [selectedSprintId, setSelectedSprintId] = useState<string>("");
+  const [lateBlockers, setLateBlockers] = useState<Pick<Task, "id" | "title" | "sprintId">[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+  const { toast } = useToast();
+  const { doneStatuses } = useWorkflow();
+  const { getCapacity, loading: capacityLoading } = useSprintCapacity(task.projectId);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Capacity of a sprint as it would be with the task moved into it
+  const getPlannedCapacity = (sprint: Sprint) => getCapacity(sprint, { tasks: [{ ...task, sprintId: sprint.id }] });
+  const selectedSprint = sprints.find(s => s.id === selectedSprintId);
+
+  // The warning only applies to the sprint it was shown for
+  useEffect(() => {
+    setLateBlockers([]);
+  }, [selectedSprintId, task.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (selectedSprintId) {
-      onTaskMoved(task.id, selectedSprintId);
+    const sprint = sprints.find(s => s.id === selectedSprintId);
+    if (!sprint) return;
+
+    // Submitting again after the warning moves the task anyway
+    if (lateBlockers.length === 0) {
+      try {
+        setIsChecking(true);
+        const blockers = getLateBlockers(await fetchBlockers(task.id), sprint, sprints, doneStatuses);
+        if (blockers.length > 0) {
+          setLateBlockers(blockers);
+          return;
+        }
+      } catch (error) {
+        console.error("Failed to check blockers:", error);
+        toast({
+          title: "Error",
+          description: "Failed to check the task's blockers",
+          variant: "destructive",
+        });
+        return;
+      } finally {
+        setIsChecking(false);
+      }
     }
+
+    onTaskMoved(task.id, selectedSprintId);
   };
 
   return (
@@ -42,27 +87,63 @@ const MoveTaskDialog = ({ task, open, onOpenChange, sprints, onTaskMoved }: Move
           <div className="space-y-4">
             <Label>Select Sprint</Label>
             <RadioGroup value={selectedSprintId} onValueChange={setSelectedSprintId}>
-              {sprints.map((sprint) => (
-                <div key={sprint.id} className="flex items-center space-x-2 border p-3 rounded-md hover:bg-accent/50">
-                  <RadioGroupItem value={sprint.id} id={sprint.id} />
-                  <Label htmlFor={sprint.id} className="flex-1 flex items-center justify-between">
-                    <span>{sprint.name}</span>
-                    <span className="text-xs text-muted-foreground flex items-center gap-1">
-                      <Calendar size={12} />
-                      {format(new Date(sprint.startDate), "MMM d")} - {format(new Date(sprint.endDate), "MMM d")}
-                    </span>
-                  </Label>
-                </div>
-              ))}
+              {sprints.map((sprint) => {
+                const capacity = task.projectId && !capacityLoading ? getPlannedCapacity(sprint) : null;
+
+                return (
+                  <div key={sprint.id} className="flex items-center space-x-2 border p-3 rounded-md hover:bg-accent/50">
+                    <RadioGroupItem value={sprint.id} id={sprint.id} />
+                    <Label htmlFor={sprint.id} className="flex-1 flex items-center justify-between">
+                      <span>{sprint.name}</span>
+                      <span className="text-xs text-muted-foreground flex flex-col items-end gap-1">
+                        <span className="flex items-center gap-1">
+                          <Calendar size={12} />
+                          {format(new Date(sprint.startDate), "MMM d")} - {format(new Date(sprint.endDate), "MMM d")}
+                        </span>
+                        {capacity && (
+                          <span className={capacity.state === "over" ? "text-red-700 font-semibold" : undefined}>
+                            {formatCapacity(capacity.committedPoints)} / {formatCapacity(capacity.points)} pts
+                          </span>
+                        )}
+                      </span>
+                    </Label>
+                  </div>
+                );
+              })}
             </RadioGroup>
           </div>
+
+          {selectedSprint && task.projectId && !capacityLoading && (
+            <div className="max-h-48 overflow-y-auto border rounded-md p-3">
+              <CapacityGauge capacity={getPlannedCapacity(selectedSprint)} projectId={task.projectId} showMembers />
+            </div>
+          )}
+          
+          {lateBlockers.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                <p>This task is blocked by tasks that are not scheduled before this sprint:</p>
+                <ul className="list-disc pl-5">
+                  {lateBlockers.map(blocker => (
+                    <li key={blocker.id}>
+                      {blocker.title}
+                      {blocker.sprintId
+                        ? ` (${sprints.find(s => s.id === blocker.sprintId)?.name})`
+                        : " (not in a sprint)"}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
           
           <div className="flex justify-end gap-2 pt-4">
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
-            <Button type="submit" disabled={!selectedSprintId}>
-              Move Task
+            <Button type="submit" disabled={!selectedSprintId || isChecking}>
+              {lateBlockers.length > 0 ? "Move Anyway" : "Move Task"}
             </Button>
           </div>
         </form>
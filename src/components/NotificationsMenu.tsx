@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/contexts/AuthContext";
+import { Notification } from "@/types/notification";
+import { fetchNotifications, markNotificationsRead } from "@/lib/supabase/notifications";
+
+const NotificationsMenu = () => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchNotifications(user.id)
+      .then(setNotifications)
+      .catch(error => console.error("Failed to fetch notifications:", error));
+  }, [user]);
+
+  const unread = notifications.filter(notification => !notification.readAt);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open || unread.length === 0) return;
+
+    try {
+      await markNotificationsRead(unread.map(notification => notification.id));
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(notification => ({ ...notification, readAt: notification.readAt || readAt })));
+    } catch (error) {
+      console.error("Failed to mark notifications as read:", error);
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unread.length > 0 && (
+            <span className="absolute -top-1 -right-1 rounded-full bg-destructive px-1.5 text-[10px] font-semibold text-destructive-foreground">
+              {unread.length}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">You're all caught up</p>
+        ) : (
+          notifications.map(notification => (
+            <DropdownMenuItem
+              key={notification.id}
+              className="flex flex-col items-start gap-0.5"
+              onClick={() => notification.projectId && navigate(`/project/${notification.projectId}`)}
+            >
+              <span className={notification.readAt ? "" : "font-medium"}>
+                {notification.actorName || "Someone"} mentioned you on {notification.taskTitle || "a task"}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+              </span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationsMenu;
@@ -1,12 +1,17 @@
 
 import { useState, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import { sprintCapacityKey } from "@/hooks/use-sprint-capacity";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Task } from "@/types/task";
 import { Sprint } from "@/types/sprint";
-import { fetchProductBacklog, updateTask } from "@/lib/supabase/tasks";
+import { fetchProductBacklog, updateTask, updateTaskRank } from "@/lib/supabase/tasks";
 import { fetchProjectSprints } from "@/lib/supabase/sprints";
-import { Plus, ListChecks, Edit, ArrowRight } from "lucide-react";
+import { rankForMove, sortByRank } from "@/lib/rank";
+import { collectLabels, filterTasksByLabels } from "@/lib/labels";
+import { Plus, ListChecks, Edit, ArrowRight, Grip, Upload } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -18,22 +23,65 @@ import {
 import CreateTaskDialog from "./CreateTaskDialog";
 import EditTaskDialog from "./EditTaskDialog";
 import MoveTaskDialog from "./MoveTaskDialog";
+import ImportTasksDialog from "./ImportTasksDialog";
+import LabelBadge from "./LabelBadge";
+import LabelFilter from "./LabelFilter";
+import { DndContext, DragEndEvent, closestCenter, useSensor, useSensors, PointerSensor } from "@dnd-kit/core";
+import { SortableContext, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
 
 interface ProductBacklogProps {
   projectId: string;
   onRefresh?: () => void;
 }
 
+// Backlog row that can be dragged by its handle to reorder the backlog
+const SortableBacklogItem = ({ id, disabled, children }: { id: string; disabled?: boolean; children: React.ReactNode }) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id, disabled });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className="flex items-start gap-2 p-3 border rounded-md hover:bg-accent/50 transition-colors"
+    >
+      {!disabled && (
+        <button
+          {...attributes}
+          {...listeners}
+          className="mt-1 touch-none"
+          aria-label="Drag to reorder"
+        >
+          <Grip className="w-4 h-4 text-muted-foreground" />
+        </button>
+      )}
+      <div className="flex-1">{children}</div>
+    </div>
+  );
+};
+
 const ProductBacklog = ({ projectId, onRefresh }: ProductBacklogProps) => {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [sprints, setSprints] = useState<Sprint[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showCreateTaskDialog, setShowCreateTaskDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const { canEdit } = usePermissions();
   const [showEditTaskDialog, setShowEditTaskDialog] = useState(false);
   const [showMoveTaskDialog, setShowMoveTaskDialog] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const [labelFilter, setLabelFilter] = useState<string[]>([]);
   const { user } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const sensors = useSensors(useSensor(PointerSensor));
 
   const loadBacklog = async () => {
     if (!user) return;
@@ -95,6 +143,12 @@ const ProductBacklog = ({ projectId, onRefresh }: ProductBacklogProps) => {
     }
   };
 
+  const handleTasksImported = (importedTasks: Task[]) => {
+    setTasks(prev => [...prev, ...importedTasks]);
+    queryClient.invalidateQueries({ queryKey: sprintCapacityKey(projectId) });
+    if (onRefresh) onRefresh();
+  };
+
   const handleEditTask = (task: Task) => {
     setSelectedTask(task);
     setShowEditTaskDialog(true);
@@ -133,6 +187,7 @@ const ProductBacklog = ({ projectId, onRefresh }: ProductBacklogProps) => {
       
       // Remove the task from the backlog
       setTasks(prev => prev.filter(task => task.id !== taskId));
+      queryClient.invalidateQueries({ queryKey: sprintCapacityKey(projectId) });
       
       setShowMoveTaskDialog(false);
       setSelectedTask(null);
@@ -145,9 +200,36 @@ const ProductBacklog = ({ projectId, onRefresh }: ProductBacklogProps) => {
       if (onRefresh) onRefresh();
     } catch (error) {
       console.error('Error moving task:', error);
+      const wipLimitReached = error?.hint === 'wip_limit';
+      toast({
+        title: wipLimitReached ? 'WIP limit reached' : 'Error',
+        description: wipLimitReached ? error.message : 'Failed to move task to sprint',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over) return;
+
+    const taskId = active.id as string;
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    try {
+      const newRank = rankForMove(tasks, taskId, over.id as string);
+      if (!newRank) return;
+
+      // Optimistically reorder, then persist the single moved task
+      setTasks(prev => sortByRank(prev.map(t => t.id === taskId ? { ...t, rank: newRank } : t)));
+      await updateTaskRank(taskId, newRank);
+    } catch (error) {
+      console.error('Error reordering task:', error);
+      setTasks(prev => sortByRank(prev.map(t => t.id === taskId ? task : t)));
       toast({
         title: 'Error',
-        description: 'Failed to move task to sprint',
+        description: 'Failed to save the new task order',
         variant: 'destructive',
       });
     }
@@ -166,6 +248,8 @@ const ProductBacklog = ({ projectId, onRefresh }: ProductBacklogProps) => {
     }
   };
 
+  const visibleTasks = filterTasksByLabels(tasks, labelFilter);
+
   return (
     <Card>
       <CardHeader className="flex flex-row items-center justify-between">
@@ -176,10 +260,21 @@ const ProductBacklog = ({ projectId, onRefresh }: ProductBacklogProps) => {
           </CardTitle>
           <CardDescription>Tasks that need to be scheduled into sprints</CardDescription>
         </div>
-        <Button onClick={() => setShowCreateTaskDialog(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          Add Task
-        </Button>
+        <div className="flex items-center gap-2">
+          <LabelFilter labels={collectLabels(tasks)} value={labelFilter} onChange={setLabelFilter} />
+          {canEdit && (
+            <>
+              <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import CSV
+              </Button>
+              <Button onClick={() => setShowCreateTaskDialog(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Task
+              </Button>
+            </>
+          )}
+        </div>
       </CardHeader>
       <CardContent>
         {isLoading ? (
@@ -188,46 +283,61 @@ const ProductBacklog = ({ projectId, onRefresh }: ProductBacklogProps) => {
             <p className="text-sm text-muted-foreground">Loading backlog...</p>
           </div>
         ) : tasks.length > 0 ? (
-          <div className="space-y-2">
-            {tasks.map((task) => (
-              <div 
-                key={task.id} 
-                className="p-3 border rounded-md hover:bg-accent/50 transition-colors"
-              >
-                <div className="flex justify-between items-start mb-1">
-                  <h4 className="font-medium">{task.title}</h4>
-                  <div className={`text-xs font-medium px-2 py-1 rounded-full bg-muted ${getPriorityColor(task.priority)}`}>
-                    {task.priority}
-                  </div>
-                </div>
-                {task.description && (
-                  <p className="text-sm text-muted-foreground mb-2 line-clamp-2">{task.description}</p>
+          <DndContext collisionDetection={closestCenter} onDragEnd={handleDragEnd} sensors={sensors}>
+            <SortableContext items={visibleTasks.map(task => task.id)} strategy={verticalListSortingStrategy}>
+              <div className="space-y-2">
+                {visibleTasks.length === 0 && (
+                  <p className="text-center py-4 text-sm text-muted-foreground">No tasks match the selected labels</p>
                 )}
-                <div className="flex justify-between items-center text-xs text-muted-foreground">
-                  <span>{task.points} {task.points === 1 ? 'point' : 'points'}</span>
-                  <div className="flex space-x-1">
-                    <Button onClick={() => handleEditTask(task)} size="sm" variant="ghost" className="h-8 w-8 p-0">
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    {sprints.length > 0 && (
-                      <Button onClick={() => handleMoveTask(task)} size="sm" variant="ghost" className="h-8 w-8 p-0 text-blue-500">
-                        <ArrowRight className="h-4 w-4" />
-                      </Button>
+                {visibleTasks.map((task) => (
+                  <SortableBacklogItem key={task.id} id={task.id} disabled={!canEdit}>
+                    <div className="flex justify-between items-start mb-1">
+                      <h4 className="font-medium">{task.title}</h4>
+                      <div className={`text-xs font-medium px-2 py-1 rounded-full bg-muted ${getPriorityColor(task.priority)}`}>
+                        {task.priority}
+                      </div>
+                    </div>
+                    {task.description && (
+                      <p className="text-sm text-muted-foreground mb-2 line-clamp-2">{task.description}</p>
                     )}
-                  </div>
-                </div>
+                    {!!task.labels?.length && (
+                      <div className="flex flex-wrap gap-1 mb-2">
+                        {task.labels.map(label => (
+                          <LabelBadge key={label.id} label={label} />
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center text-xs text-muted-foreground">
+                      <span>{task.points} {task.points === 1 ? 'point' : 'points'}</span>
+                      {canEdit && (
+                        <div className="flex space-x-1">
+                          <Button onClick={() => handleEditTask(task)} size="sm" variant="ghost" className="h-8 w-8 p-0">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          {sprints.length > 0 && (
+                            <Button onClick={() => handleMoveTask(task)} size="sm" variant="ghost" className="h-8 w-8 p-0 text-blue-500">
+                              <ArrowRight className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </SortableBacklogItem>
+                ))}
               </div>
-            ))}
-          </div>
+            </SortableContext>
+          </DndContext>
         ) : (
           <div className="text-center py-8">
             <ListChecks className="h-12 w-12 text-muted-foreground mb-4 mx-auto" />
             <h3 className="text-lg font-medium mb-2">No tasks in backlog</h3>
             <p className="text-muted-foreground mb-4">Add tasks to your product backlog to start planning your sprints</p>
-            <Button onClick={() => setShowCreateTaskDialog(true)}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add First Task
-            </Button>
+            {canEdit && (
+              <Button onClick={() => setShowCreateTaskDialog(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add First Task
+              </Button>
+            )}
           </div>
         )}
       </CardContent>
@@ -243,6 +353,14 @@ const ProductBacklog = ({ projectId, onRefresh }: ProductBacklogProps) => {
             userId={user.id}
           />
           
+          <ImportTasksDialog
+            open={showImportDialog}
+            onOpenChange={setShowImportDialog}
+            projectId={projectId}
+            userId={user.id}
+            onTasksImported={handleTasksImported}
+          />
+          
           {selectedTask && (
             <>
               <EditTaskDialog
@@ -1,18 +1,25 @@
 
 import { useState, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { Plus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { sprintCapacityKey } from "@/hooks/use-sprint-capacity";
 import { Task } from "@/types/task";
 import { Sprint } from "@/types/sprint";
-import { fetchProductBacklog, deleteTask, updateTask } from "@/lib/supabase/tasks";
+import { fetchProductBacklog, deleteTask, updateTask, updateTaskRank } from "@/lib/supabase/tasks";
 import { fetchProjectSprints } from "@/lib/supabase/sprints";
+import { rankForMove, sortByRank } from "@/lib/rank";
+import { groupSubtasks } from "@/lib/subtasks";
 import TaskCard from "@/components/TaskCard";
+import SortableTaskCard from "@/components/SortableTaskCard";
 import CreateTaskDialog from "@/components/CreateTaskDialog";
 import EditTaskDialog from "@/components/EditTaskDialog";
 import MoveTaskDialog from "@/components/MoveTaskDialog";
+import { DndContext, DragEndEvent, closestCenter, useSensor, useSensors, PointerSensor } from "@dnd-kit/core";
+import { SortableContext, verticalListSortingStrategy } from "@dnd-kit/sortable";
 
 interface ProductBacklogListProps {
   projectId: string;
@@ -21,6 +28,7 @@ interface ProductBacklogListProps {
 const ProductBacklogList = ({ projectId }: ProductBacklogListProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [sprints, setSprints] = useState<Sprint[]>([]);
   const [loading, setLoading] = useState(true);
@@ -29,6 +37,12 @@ const ProductBacklogList = ({ projectId }: ProductBacklogListProps) => {
   const [isMoveDialogOpen, setIsMoveDialogOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
 
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: { distance: 8 },
+    })
+  );
+
   const fetchTasks = async () => {
     try {
       setLoading(true);
@@ -85,7 +99,8 @@ const ProductBacklogList = ({ projectId }: ProductBacklogListProps) => {
   const handleDeleteTask = async (taskId: string) => {
     try {
       await deleteTask(taskId);
-      setTasks(tasks.filter(task => task.id !== taskId));
+      // Subtasks are deleted along with their parent
+      setTasks(tasks.filter(task => task.id !== taskId && task.parentId !== taskId));
       toast({
         title: "Task deleted",
         description: "Task has been deleted successfully",
@@ -100,6 +115,37 @@ const ProductBacklogList = ({ projectId }: ProductBacklogListProps) => {
     }
   };
 
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over) return;
+
+    // Only top-level tasks are reordered; subtasks follow their parent
+    const taskId = active.id as string;
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    try {
+      const newRank = rankForMove(groupSubtasks(tasks).roots, taskId, over.id as string);
+      if (!newRank) return;
+
+      // Optimistically reorder, then persist the single moved task
+      setTasks(prevTasks =>
+        sortByRank(prevTasks.map(t => (t.id === taskId ? { ...t, rank: newRank } : t)))
+      );
+      await updateTaskRank(taskId, newRank);
+    } catch (error) {
+      console.error("Failed to reorder task:", error);
+      setTasks(prevTasks =>
+        sortByRank(prevTasks.map(t => (t.id === taskId ? task : t)))
+      );
+      toast({
+        title: "Error",
+        description: "Failed to save the new task order",
+        variant: "destructive",
+      });
+    }
+  };
+
   const onTaskCreated = (task: Task) => {
     setTasks([...tasks, task]);
     setIsCreateDialogOpen(false);
@@ -126,6 +172,7 @@ const ProductBacklogList = ({ projectId }: ProductBacklogListProps) => {
       
       // Remove the task from the backlog list
       setTasks(tasks.filter(task => task.id !== taskId));
+      queryClient.invalidateQueries({ queryKey: sprintCapacityKey(projectId) });
       
       toast({
         title: "Task moved",
@@ -144,6 +191,8 @@ const ProductBacklogList = ({ projectId }: ProductBacklogListProps) => {
     }
   };
 
+  const { roots, children } = groupSubtasks(tasks);
+
   return (
     <div className="flex flex-col h-full">
       <div className="flex justify-between items-center mb-4">
@@ -163,18 +212,35 @@ const ProductBacklogList = ({ projectId }: ProductBacklogListProps) => {
             No tasks in the product backlog. Create your first task!
           </div>
         ) : (
-          <div>
-            {tasks.map(task => (
-              <TaskCard
-                key={task.id}
-                task={task}
-                onEdit={() => handleEditTask(task)}
-                onDelete={handleDeleteTask}
-                onMove={() => handleMoveTask(task)}
-                showMoveButton={sprints.length > 0}
-              />
-            ))}
-          </div>
+          <DndContext collisionDetection={closestCenter} onDragEnd={handleDragEnd} sensors={sensors}>
+            <SortableContext items={roots.map(task => task.id)} strategy={verticalListSortingStrategy}>
+              {roots.map(task => (
+                <div key={task.id}>
+                  <SortableTaskCard
+                    task={task}
+                    onEdit={() => handleEditTask(task)}
+                    onDelete={handleDeleteTask}
+                    onMove={() => handleMoveTask(task)}
+                    showMoveButton={sprints.length > 0}
+                  />
+                  {children[task.id] && (
+                    <div className="ml-6 border-l pl-4">
+                      {children[task.id].map(subtask => (
+                        <TaskCard
+                          key={subtask.id}
+                          task={subtask}
+                          onEdit={() => handleEditTask(subtask)}
+                          onDelete={handleDeleteTask}
+                          onMove={() => handleMoveTask(subtask)}
+                          showMoveButton={sprints.length > 0}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </SortableContext>
+          </DndContext>
         )}
       </ScrollArea>
 
@@ -0,0 +1,252 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertCircle, CheckCircle2, Info } from "lucide-react";
+import { ImportPlan } from "@/lib/project-import";
+import { planJiraExport } from "@/lib/jira-import";
+import { TrelloListMapping, planTrelloExport } from "@/lib/trello-import";
+import { ImportResult, importProjectPlan } from "@/lib/supabase/project-import";
+import { fetchMemberEmails } from "@/lib/supabase/project-members";
+import { useMemberDirectory } from "@/hooks/use-member-directory";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { useToast } from "@/hooks/use-toast";
+
+interface ProjectImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  onImported: (result: ImportResult) => void;
+}
+
+type Source = "jira" | "trello";
+
+const SOURCE_FILES: Record<Source, { accept: string; hint: string }> = {
+  jira: { accept: ".csv,.xml", hint: "A CSV or XML export of a Jira issue search" },
+  trello: { accept: ".json", hint: "The JSON export of a Trello board" },
+};
+
+const ProjectImportDialog = ({ open, onOpenChange, projectId, onImported }: ProjectImportDialogProps) => {
+  const [source, setSource] = useState<Source>("jira");
+  const [listsAs, setListsAs] = useState<TrelloListMapping>("statuses");
+  const [fileName, setFileName] = useState("");
+  const [fileText, setFileText] = useState("");
+  const [emails, setEmails] = useState<Record<string, string>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const { members } = useMemberDirectory(projectId);
+  const { statuses } = useWorkflow();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setFileName("");
+    setFileText("");
+    setResult(null);
+
+    // Without emails assignees can still be matched by name
+    fetchMemberEmails(projectId)
+      .then(setEmails)
+      .catch(() => setEmails({}));
+  }, [open, projectId]);
+
+  // The dry run: nothing is written until the plan is confirmed
+  const { plan, error } = useMemo((): { plan?: ImportPlan; error?: string } => {
+    if (!fileText) return {};
+
+    const context = {
+      statuses,
+      members: members.map(member => ({ id: member.id, name: member.name, email: emails[member.id] })),
+    };
+
+    try {
+      return { plan: source === "jira" ? planJiraExport(fileText, context) : planTrelloExport(fileText, context, listsAs) };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : "The file could not be read" };
+    }
+  }, [fileText, source, listsAs, statuses, members, emails]);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setFileName(file.name);
+    setFileText(await file.text());
+  };
+
+  const handleSourceChange = (value: Source) => {
+    setSource(value);
+    setFileName("");
+    setFileText("");
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+
+    try {
+      setIsImporting(true);
+      const imported = await importProjectPlan(plan, projectId);
+      setResult(imported);
+      onImported(imported);
+    } catch (error) {
+      console.error("Error importing project data:", error);
+      toast({
+        title: "Error",
+        description: "The import failed and nothing was created; try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const subtaskCount = plan?.tasks.filter(task => task.parentKey).length || 0;
+  const counts = plan ? [
+    { label: "Tasks", value: plan.tasks.length - subtaskCount },
+    { label: "Subtasks", value: subtaskCount },
+    { label: "Sprints", value: plan.sprints.length },
+    { label: "Epics", value: plan.epics.length },
+    { label: "Labels", value: plan.labels.length },
+  ] : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Import from Jira or Trello</DialogTitle>
+          <DialogDescription>
+            Files are read in the browser. Review what will be created before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="flex flex-col items-center text-center py-6 space-y-2">
+            <CheckCircle2 className="h-10 w-10 text-green-500" />
+            <p className="font-medium">Imported {result.tasks} {result.tasks === 1 ? "task" : "tasks"}</p>
+            <p className="text-sm text-muted-foreground">
+              {result.sprints} sprints, {result.epics} epics and {result.labels} new labels were created
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Source</Label>
+              <RadioGroup value={source} onValueChange={(value) => handleSourceChange(value as Source)} className="flex gap-6">
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="jira" id="source-jira" />
+                  <Label htmlFor="source-jira">Jira</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="trello" id="source-trello" />
+                  <Label htmlFor="source-trello">Trello</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            {source === "trello" && (
+              <div className="space-y-2">
+                <Label>Trello lists become</Label>
+                <RadioGroup value={listsAs} onValueChange={(value) => setListsAs(value as TrelloListMapping)} className="flex gap-6">
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="statuses" id="lists-statuses" />
+                    <Label htmlFor="lists-statuses">Workflow statuses</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="sprints" id="lists-sprints" />
+                    <Label htmlFor="lists-sprints">Sprints</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="project-import-file">Export file</Label>
+              <Input
+                key={source}
+                id="project-import-file"
+                type="file"
+                accept={SOURCE_FILES[source].accept}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              <p className="text-xs text-muted-foreground">{SOURCE_FILES[source].hint}</p>
+            </div>
+
+            {error && (
+              <p className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </p>
+            )}
+
+            {plan && (
+              <div className="space-y-3">
+                <h3 className="text-sm font-medium">From {fileName} this will create</h3>
+                <div className="grid grid-cols-5 gap-2 text-sm">
+                  {counts.map(count => (
+                    <div key={count.label} className="rounded-md border p-2 text-center">
+                      <p className="font-semibold">{count.value}</p>
+                      <p className="text-xs text-muted-foreground">{count.label}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <ScrollArea className="h-[220px] rounded-md border p-3">
+                  {plan.sprints.length > 0 && (
+                    <div className="space-y-1 mb-4">
+                      <p className="text-xs font-medium text-muted-foreground">Sprints</p>
+                      {plan.sprints.map(sprint => (
+                        <div key={sprint.key} className="flex items-center justify-between text-sm">
+                          <span>{sprint.name}</span>
+                          <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                            {format(new Date(sprint.startDate), "MMM d, yyyy")} – {format(new Date(sprint.endDate), "MMM d, yyyy")}
+                            <Badge variant={sprint.status === "completed" ? "secondary" : "outline"}>
+                              {sprint.status === "completed" ? "Completed" : "Planned"}
+                            </Badge>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <p className="text-xs font-medium text-muted-foreground mb-1">How the file is mapped</p>
+                  {plan.notes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Every field has a place in the project.</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {plan.notes.map(note => (
+                        <li key={note.message} className="flex items-start gap-2 text-sm">
+                          <Info className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                          <span className="flex-1">{note.message}</span>
+                          <Badge variant="outline">{note.count}</Badge>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <Button onClick={() => onOpenChange(false)}>Close</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>Cancel</Button>
+              <Button onClick={handleImport} disabled={!plan || plan.tasks.length === 0 || isImporting}>
+                {isImporting ? "Importing..." : "Import"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProjectImportDialog;
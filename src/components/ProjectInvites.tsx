@@ -0,0 +1,379 @@
+import { useCallback, useEffect, useState } from "react";
+import { addDays, format } from "date-fns";
+import { Ban, Copy, Link, Mail, Plus, RefreshCw, Send, Ticket } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { InviteState, ProjectInvite, ProjectInviteUse } from "@/types/invite";
+import {
+  createEmailInvite,
+  createProjectInvite,
+  fetchInviteUses,
+  fetchProjectInvites,
+  revokeProjectInvite,
+  rotateProjectInvite,
+  sendInviteEmail,
+} from "@/lib/supabase/invites";
+import { fetchProfiles } from "@/lib/supabase/profiles";
+import { getInviteLink, getInviteState, INVITE_EXPIRY_OPTIONS } from "@/lib/invites";
+import { PROJECT_ROLES } from "@/lib/permissions";
+import { useToast } from "@/hooks/use-toast";
+
+interface ProjectInvitesProps {
+  projectId: string;
+}
+
+const stateLabels: Record<InviteState, string> = {
+  active: "Active",
+  expired: "Expired",
+  "used-up": "Used up",
+  revoked: "Revoked",
+};
+
+const ProjectInvites = ({ projectId }: ProjectInvitesProps) => {
+  const [invites, setInvites] = useState<ProjectInvite[]>([]);
+  const [uses, setUses] = useState<ProjectInviteUse[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [role, setRole] = useState<ProjectInvite["role"]>("member");
+  const [expiry, setExpiry] = useState("never");
+  const [maxUses, setMaxUses] = useState("");
+  const [email, setEmail] = useState("");
+  const [emailRole, setEmailRole] = useState<ProjectInvite["role"]>("member");
+  const [isSending, setIsSending] = useState(false);
+  const [revoking, setRevoking] = useState<ProjectInvite | null>(null);
+  const { toast } = useToast();
+
+  const showError = useCallback((description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadInvites = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [projectInvites, inviteUses] = await Promise.all([
+        fetchProjectInvites(projectId),
+        fetchInviteUses(projectId),
+      ]);
+      const profiles = await fetchProfiles(Array.from(new Set(inviteUses.map(use => use.userId).filter(Boolean))));
+      setInvites(projectInvites);
+      setUses(inviteUses);
+      setNames(Object.fromEntries(profiles.map(profile => [profile.id, profile.name || "Unknown User"])));
+    } catch (error) {
+      console.error("Failed to fetch invites:", error);
+      showError("Failed to load invites");
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, showError]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  const replaceInvite = (invite: ProjectInvite) => {
+    setInvites(prev => prev.map(i => i.id === invite.id ? invite : i));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const limit = maxUses.trim() ? Number(maxUses) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      showError("Maximum uses must be a whole number of at least 1");
+      return;
+    }
+
+    const days = INVITE_EXPIRY_OPTIONS.find(option => option.value === expiry)?.days;
+
+    try {
+      const invite = await createProjectInvite({
+        projectId,
+        role,
+        expiresAt: days ? addDays(new Date(), days).toISOString() : undefined,
+        maxUses: limit,
+      });
+      setInvites(prev => [invite, ...prev]);
+      setMaxUses("");
+    } catch (error) {
+      console.error("Failed to create invite:", error);
+      showError("Failed to create the invite");
+    }
+  };
+
+  const send = async (invite: ProjectInvite) => {
+    try {
+      await sendInviteEmail(invite.id);
+      toast({ title: "Invite sent", description: `An invite link was emailed to ${invite.email}` });
+    } catch (error) {
+      console.error("Failed to send invite email:", error);
+      showError("The invite email could not be sent. Copy the link and share it instead.");
+    }
+  };
+
+  const handleEmailInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    try {
+      setIsSending(true);
+      const invite = await createEmailInvite({ projectId, email: email.trim(), role: emailRole });
+      const revokedAt = new Date().toISOString();
+      // The database revokes the address's pending invite
+      setInvites(prev => [
+        invite,
+        ...prev.map(i => i.email === invite.email && !i.revokedAt && i.useCount === 0 ? { ...i, revokedAt } : i),
+      ]);
+      setEmail("");
+      await send(invite);
+    } catch (error) {
+      console.error("Failed to create email invite:", error);
+      showError(error?.message || "Failed to create the invite");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleCopy = async (invite: ProjectInvite) => {
+    const text = invite.token ? getInviteLink(invite.token) : invite.code;
+    const what = invite.token ? "Invite link" : `Invite code ${invite.code}`;
+
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Copied", description: `${what} copied to the clipboard` });
+    } catch (error) {
+      console.error("Failed to copy invite:", error);
+      showError("Failed to copy the invite");
+    }
+  };
+
+  const handleRotate = async (invite: ProjectInvite) => {
+    try {
+      replaceInvite(await rotateProjectInvite(invite.id));
+      toast({ title: "Code regenerated", description: `${invite.code} no longer works` });
+    } catch (error) {
+      console.error("Failed to rotate invite:", error);
+      showError("Failed to regenerate the invite code");
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revoking) return;
+
+    const invite = revoking;
+    setRevoking(null);
+
+    try {
+      replaceInvite(await revokeProjectInvite(invite.id));
+    } catch (error) {
+      console.error("Failed to revoke invite:", error);
+      showError("Failed to revoke the invite");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Invites</h2>
+        <p className="text-sm text-muted-foreground">
+          Share an invite code or email someone a join link. Regenerate or revoke a code if it leaks.
+        </p>
+      </div>
+
+      <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="invite-role">Role</Label>
+          <Select value={role} onValueChange={(value) => setRole(value as ProjectInvite["role"])}>
+            <SelectTrigger id="invite-role" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROJECT_ROLES.filter(r => r.value !== "owner").map(r => (
+                <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="invite-expiry">Expires after</Label>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger id="invite-expiry" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INVITE_EXPIRY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="invite-max-uses">Maximum uses</Label>
+          <Input
+            id="invite-max-uses"
+            type="number"
+            min={1}
+            className="w-32"
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            placeholder="Unlimited"
+          />
+        </div>
+        <Button type="submit" size="sm">
+          <Plus className="mr-1 h-4 w-4" /> Create Invite Code
+        </Button>
+      </form>
+
+      <form onSubmit={handleEmailInvite} className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="invite-email">Invite by email</Label>
+          <Input
+            id="invite-email"
+            type="email"
+            className="w-64"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="name@example.com"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="invite-email-role">Role</Label>
+          <Select value={emailRole} onValueChange={(value) => setEmailRole(value as ProjectInvite["role"])}>
+            <SelectTrigger id="invite-email-role" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROJECT_ROLES.filter(r => r.value !== "owner").map(r => (
+                <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button type="submit" size="sm" disabled={!email.trim() || isSending}>
+          <Send className="mr-1 h-4 w-4" /> {isSending ? "Sending..." : "Send Invite"}
+        </Button>
+      </form>
+
+      {invites.length === 0 ? (
+        <div className="text-center py-8">
+          <Ticket className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">No invites yet</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {invites.map(invite => {
+            const state = getInviteState(invite);
+            const inviteUses = uses.filter(use => use.inviteId === invite.id);
+
+            return (
+              <div key={invite.id} className={`p-3 border rounded-md space-y-2 ${state !== "active" ? "opacity-60" : ""}`}>
+                <div className="flex flex-wrap items-center gap-3">
+                  {invite.email ? (
+                    <span className="flex items-center gap-1 font-medium">
+                      <Mail className="h-4 w-4 text-muted-foreground" />
+                      {invite.email}
+                    </span>
+                  ) : (
+                    <span className="font-mono bg-muted px-2 py-1 rounded">{invite.code}</span>
+                  )}
+                  <Badge variant="outline">
+                    {PROJECT_ROLES.find(r => r.value === invite.role)?.label || invite.role}
+                  </Badge>
+                  {state !== "active" && <Badge variant="secondary">{stateLabels[state]}</Badge>}
+                  {state === "active" && invite.email && <Badge variant="secondary">Pending</Badge>}
+                  <span className="text-xs text-muted-foreground">
+                    Used {invite.useCount}{invite.maxUses !== undefined ? `/${invite.maxUses}` : ""} {invite.useCount === 1 && invite.maxUses === undefined ? "time" : "times"}
+                    {" · "}
+                    {invite.expiresAt ? `Expires ${format(new Date(invite.expiresAt), "MMM d, yyyy HH:mm")}` : "Never expires"}
+                  </span>
+                  {state === "active" && (
+                    <div className="ml-auto flex items-center gap-1">
+                      {invite.token ? (
+                        <>
+                          <Button type="button" size="sm" variant="ghost" onClick={() => handleCopy(invite)} aria-label="Copy invite link">
+                            <Link className="h-4 w-4" />
+                          </Button>
+                          <Button type="button" size="sm" variant="ghost" onClick={() => send(invite)} aria-label="Resend invite email">
+                            <Send className="h-4 w-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <Button type="button" size="sm" variant="ghost" onClick={() => handleCopy(invite)} aria-label="Copy invite code">
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button type="button" size="sm" variant="ghost" onClick={() => handleRotate(invite)} aria-label="Regenerate invite code">
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        className="text-red-500 hover:text-red-700"
+                        onClick={() => setRevoking(invite)}
+                        aria-label="Revoke invite"
+                      >
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {inviteUses.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Joined with this invite:{" "}
+                    {inviteUses
+                      .map(use => `${(use.userId && names[use.userId]) || "Unknown User"} (${format(new Date(use.joinedAt), "MMM d")})`)
+                      .join(", ")}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <AlertDialog open={!!revoking} onOpenChange={(open) => !open && setRevoking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke the invite {revoking?.email ? `to ${revoking.email}` : revoking?.code}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Nobody will be able to join with this {revoking?.email ? "link" : "code"} any more. People who already joined keep their access.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevoke}>Revoke</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ProjectInvites;
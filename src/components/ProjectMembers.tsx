@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { useQueryClient } from "@tanstack/react-query";
+import { Crown, User as UserIcon, UserMinus } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Profile, ProjectMember, ProjectRole } from "@/types/user";
+import { Task } from "@/types/task";
+import {
+  fetchProjectMemberships,
+  removeProjectMember,
+  transferProjectOwnership,
+  updateMemberRole,
+} from "@/lib/supabase/project-members";
+import { fetchProfiles } from "@/lib/supabase/profiles";
+import { fetchProductBacklog } from "@/lib/supabase/tasks";
+import { PROJECT_ROLES } from "@/lib/permissions";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/use-permissions";
+import { memberDirectoryKey } from "@/hooks/use-member-directory";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { useToast } from "@/hooks/use-toast";
+
+interface ProjectMembersProps {
+  projectId: string;
+}
+
+interface PendingRemoval {
+  member: ProjectMember;
+  openTasks: Task[]; // Open tasks the member gets unassigned from
+}
+
+const ProjectMembers = ({ projectId }: ProjectMembersProps) => {
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, Profile>>({});
+  const [loading, setLoading] = useState(true);
+  const [removing, setRemoving] = useState<PendingRemoval | null>(null);
+  const [newOwner, setNewOwner] = useState<ProjectMember | null>(null);
+  const { user } = useAuth();
+  const { canManage, isOwner, reload: reloadPermissions } = usePermissions();
+  const { isDone } = useWorkflow();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Assignee pickers and avatars elsewhere read the cached directory
+  const refreshDirectory = () => queryClient.invalidateQueries({ queryKey: memberDirectoryKey(projectId) });
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setLoading(true);
+      const memberships = await fetchProjectMemberships(projectId);
+      const memberProfiles = await fetchProfiles(memberships.map(member => member.userId));
+      setMembers(memberships);
+      setProfiles(Object.fromEntries(memberProfiles.map(profile => [profile.id, profile])));
+    } catch (error) {
+      console.error("Failed to fetch members:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load project members",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, toast]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const getName = (userId: string) => profiles[userId]?.name || "Unknown User";
+
+  const handleRoleChange = async (member: ProjectMember, role: Exclude<ProjectRole, "owner">) => {
+    try {
+      const updated = await updateMemberRole(projectId, member.userId, role);
+      setMembers(prev => prev.map(m => m.id === updated.id ? updated : m));
+      refreshDirectory();
+      // Admins can lower their own role
+      if (member.userId === user?.id) await reloadPermissions();
+    } catch (error) {
+      console.error("Failed to change role:", error);
+      toast({
+        title: "Error",
+        description: "Failed to change the member's role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openRemoveDialog = async (member: ProjectMember) => {
+    try {
+      const tasks = await fetchProductBacklog(projectId);
+      setRemoving({
+        member,
+        openTasks: tasks.filter(task => task.assignees.includes(member.userId) && !isDone(task.status)),
+      });
+    } catch (error) {
+      console.error("Failed to fetch assigned tasks:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the member's tasks",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removing) return;
+
+    const { member } = removing;
+    setRemoving(null);
+
+    try {
+      await removeProjectMember(projectId, member.userId);
+      setMembers(prev => prev.filter(m => m.id !== member.id));
+      refreshDirectory();
+      toast({
+        title: "Member removed",
+        description: `${getName(member.userId)} no longer has access to this project`,
+      });
+    } catch (error) {
+      console.error("Failed to remove member:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove the member",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTransfer = async () => {
+    if (!newOwner) return;
+
+    const member = newOwner;
+    setNewOwner(null);
+
+    try {
+      await transferProjectOwnership(projectId, member.userId);
+      toast({
+        title: "Ownership transferred",
+        description: `${getName(member.userId)} now owns this project`,
+      });
+      refreshDirectory();
+      await Promise.all([loadMembers(), reloadPermissions()]);
+    } catch (error) {
+      console.error("Failed to transfer ownership:", error);
+      toast({
+        title: "Error",
+        description: "Failed to transfer ownership",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Members</h2>
+        <p className="text-sm text-muted-foreground">
+          {members.length} {members.length === 1 ? "person has" : "people have"} access to this project
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {members.map(member => {
+          const profile = profiles[member.userId];
+          const isMemberOwner = member.role === "owner";
+          const isSelf = member.userId === user?.id;
+
+          return (
+            <div key={member.id} className="flex flex-wrap items-center gap-3 p-3 border rounded-md">
+              <Avatar className="w-8 h-8">
+                <AvatarImage src={profile?.avatar_url || undefined} alt={getName(member.userId)} />
+                <AvatarFallback>
+                  <UserIcon className="w-4 h-4" />
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">
+                  {getName(member.userId)}
+                  {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Joined {format(new Date(member.createdAt), "MMM d, yyyy")}
+                </p>
+              </div>
+
+              {isMemberOwner || !canManage ? (
+                <Badge variant="outline" className="flex items-center gap-1">
+                  {isMemberOwner && <Crown className="h-3 w-3" />}
+                  {PROJECT_ROLES.find(role => role.value === member.role)?.label || member.role}
+                </Badge>
+              ) : (
+                <Select
+                  value={member.role}
+                  onValueChange={(role) => handleRoleChange(member, role as Exclude<ProjectRole, "owner">)}
+                >
+                  <SelectTrigger className="w-32" aria-label={`Role of ${getName(member.userId)}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROJECT_ROLES.filter(role => role.value !== "owner").map(role => (
+                      <SelectItem key={role.value} value={role.value}>
+                        {role.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {isOwner && !isMemberOwner && (
+                <Button type="button" size="sm" variant="outline" onClick={() => setNewOwner(member)}>
+                  <Crown className="mr-1 h-4 w-4" /> Make owner
+                </Button>
+              )}
+              {canManage && !isMemberOwner && !isSelf && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="text-red-500 hover:text-red-700"
+                  onClick={() => openRemoveDialog(member)}
+                  aria-label={`Remove ${getName(member.userId)}`}
+                >
+                  <UserMinus className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <AlertDialog open={!!removing} onOpenChange={(open) => !open && setRemoving(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {removing && getName(removing.member.userId)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {removing?.openTasks.length
+                ? `They will lose access to the project and be unassigned from ${removing.openTasks.length} open ${removing.openTasks.length === 1 ? "task" : "tasks"}:`
+                : "They will lose access to the project. They are not assigned to any open tasks."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {!!removing?.openTasks.length && (
+            <ul className="max-h-48 overflow-y-auto text-sm list-disc pl-5 space-y-1">
+              {removing.openTasks.map(task => (
+                <li key={task.id}>{task.title}</li>
+              ))}
+            </ul>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRemove}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!newOwner} onOpenChange={(open) => !open && setNewOwner(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Transfer ownership to {newOwner && getName(newOwner.userId)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They will own the project and can delete it. You will stay on as an admin.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleTransfer}>Transfer</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ProjectMembers;
@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { startOfDay, subDays } from "date-fns";
+import { Epic } from "@/types/epic";
+import { Sprint } from "@/types/sprint";
+import { Task, TaskHistoryEntry } from "@/types/task";
+import { fetchProjectEpics } from "@/lib/supabase/epics";
+import { fetchProductBacklog } from "@/lib/supabase/tasks";
+import { fetchProjectSprints } from "@/lib/supabase/sprints";
+import { fetchProjectTaskHistory } from "@/lib/supabase/task-history";
+import { useToast } from "@/hooks/use-toast";
+import VelocityReport from "./VelocityReport";
+import MonteCarloReport from "./MonteCarloReport";
+import CumulativeFlowChart from "./CumulativeFlowChart";
+import CycleTimeReport from "./CycleTimeReport";
+
+interface ProjectReportsProps {
+  projectId: string;
+}
+
+const ProjectReports = ({ projectId }: ProjectReportsProps) => {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [sprints, setSprints] = useState<Sprint[]>([]);
+  const [epics, setEpics] = useState<Epic[]>([]);
+  const [history, setHistory] = useState<TaskHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadReports = async () => {
+      try {
+        setLoading(true);
+        const [projectTasks, projectSprints, projectEpics, projectHistory] = await Promise.all([
+          fetchProductBacklog(projectId),
+          fetchProjectSprints(projectId),
+          fetchProjectEpics(projectId),
+          fetchProjectTaskHistory(projectId),
+        ]);
+        setTasks(projectTasks);
+        setSprints(projectSprints);
+        setEpics(projectEpics);
+        setHistory(projectHistory);
+      } catch (error) {
+        console.error("Failed to fetch report data:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load reports",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (projectId) loadReports();
+  }, [projectId, toast]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-8">
+        <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <VelocityReport tasks={tasks} sprints={sprints} epics={epics} />
+      <MonteCarloReport tasks={tasks} history={history} />
+      <CumulativeFlowChart
+        history={history}
+        defaultRange={{ from: subDays(startOfDay(new Date()), 29), to: new Date() }}
+        description="Tasks of the project in each status, day by day"
+      />
+      <CycleTimeReport tasks={tasks} projectId={projectId} />
+    </div>
+  );
+};
+
+export default ProjectReports;
@@ -63,8 +63,6 @@ const ProjectSelector = () => {
     }
     
     try {
-      // Generate a unique project code
-      const projectCode = Math.random().toString(36).substring(2, 8).toUpperCase();
       const ts = new Date().toISOString();
       
       const newProject = await createProject({
@@ -72,7 +70,6 @@ const ProjectSelector = () => {
         description: projectDescription.trim(),
         created_at: ts,
         user_id: user.id,
-        code: projectCode,
         members: [user.id],
       });
       
@@ -102,12 +99,12 @@ const ProjectSelector = () => {
     if (!user) return;
     
     if (!joinCode.trim()) {
-      setJoinError("Project code cannot be empty");
+      setJoinError("Invite code cannot be empty");
       return;
     }
     
     try {
-      const project = await joinProject(joinCode.trim(), user.id);
+      const project = await joinProject(joinCode.trim());
       
       toast({
         title: 'Success',
@@ -119,7 +116,8 @@ const ProjectSelector = () => {
       navigate(`/project/${project.id}`);
     } catch (error) {
       console.error('Error joining project:', error);
-      setJoinError("Invalid project code or project not found");
+      // The database explains why an invite cannot be used
+      setJoinError(error?.message || "Invalid invite code");
     }
   };
 
@@ -229,14 +227,14 @@ const ProjectSelector = () => {
             <CardHeader>
               <CardTitle>Join an Existing Project</CardTitle>
               <CardDescription>
-                Enter the project code provided by the project owner
+                Enter the invite code shared by a project owner or admin
               </CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={handleJoinProject} className="space-y-4">
                 <div className="space-y-2">
                   <label htmlFor="code" className="text-sm font-medium">
-                    Project Code
+                    Invite Code
                   </label>
                   <Input
                     id="code"
@@ -244,7 +242,7 @@ const ProjectSelector = () => {
                     onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
                     placeholder="ABC123"
                     className="uppercase"
-                    maxLength={6}
+                    maxLength={10}
                     required
                   />
                 </div>
@@ -0,0 +1,296 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertCircle, CheckCircle2, HardDrive, Info } from "lucide-react";
+import { ProjectArchive } from "@/types/project-archive";
+import { LegacyData, convertLegacyData, prepareRestore, readProjectArchive } from "@/lib/project-archive";
+import { RestoreResult, restoreProjectArchive } from "@/lib/supabase/project-archive";
+import { sendInviteEmail } from "@/lib/supabase/invites";
+import { DatabaseService } from "@/services/DatabaseService";
+import { useToast } from "@/hooks/use-toast";
+
+interface RestoreProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  projectNames: string[];
+  onRestored: (projectId: string) => void;
+}
+
+// Sprints and tasks an earlier version of the app kept in this browser
+interface StoredData {
+  userId: string;
+  data: LegacyData;
+}
+
+const RestoreProjectDialog = ({ open, onOpenChange, userId, projectNames, onRestored }: RestoreProjectDialogProps) => {
+  const [source, setSource] = useState<ProjectArchive | null>(null);
+  const [sourceName, setSourceName] = useState("");
+  const [stored, setStored] = useState<StoredData[]>([]);
+  const [legacyUserId, setLegacyUserId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  const [unsentEmails, setUnsentEmails] = useState<string[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setSource(null);
+    setSourceName("");
+    setLegacyUserId(null);
+    setError("");
+    setResult(null);
+    setUnsentEmails([]);
+
+    const loadStored = async () => {
+      setStored(await Promise.all(DatabaseService.getStoredUserIds().map(async storedUserId => {
+        const service = new DatabaseService(storedUserId);
+        const [sprints, tasks, backlog] = await Promise.all([
+          service.getSprints(),
+          service.getTasks(),
+          service.getProductBacklog(),
+        ]);
+        return { userId: storedUserId, data: { sprints, tasks, backlog } };
+      })));
+    };
+
+    loadStored().catch(() => setStored([]));
+  }, [open]);
+
+  // The preview shows the archive as it will be restored
+  const plan = useMemo(() => source && prepareRestore(source, projectNames), [source, projectNames]);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+
+    setSourceName(file.name);
+    setLegacyUserId(null);
+    try {
+      setSource(readProjectArchive(await file.text()));
+      setError("");
+    } catch (e) {
+      setSource(null);
+      setError(e instanceof Error ? e.message : "The file could not be read");
+    }
+  };
+
+  const handleStored = ({ userId: storedUserId, data }: StoredData) => {
+    setSourceName("this browser");
+    setLegacyUserId(storedUserId);
+    setSource(convertLegacyData(data, "My project", userId));
+    setError("");
+  };
+
+  const handleRestore = async () => {
+    if (!plan) return;
+
+    try {
+      setIsRestoring(true);
+      const restored = await restoreProjectArchive(plan.archive);
+
+      // The project exists whether or not the emails go out; invites that
+      // were not sent can be copied from the project settings
+      const sent = await Promise.allSettled(restored.invites.map(invite => sendInviteEmail(invite.id)));
+      setUnsentEmails(restored.invites.filter((_, index) => sent[index].status === "rejected").map(invite => invite.email));
+      setResult(restored);
+    } catch (error) {
+      console.error("Error restoring project:", error);
+      toast({
+        title: "Error",
+        description: "Failed to restore the project; nothing was created",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleClearStored = async () => {
+    if (!legacyUserId) return;
+
+    await new DatabaseService(legacyUserId).clearUserData();
+    setStored(stored.filter(entry => entry.userId !== legacyUserId));
+    setLegacyUserId(null);
+    toast({
+      title: "Success",
+      description: "The data kept in this browser was removed",
+      duration: 3000,
+    });
+  };
+
+  const counts = plan ? [
+    { label: "Sprints", value: plan.archive.sprints.length },
+    { label: "Tasks", value: plan.archive.tasks.length },
+    { label: "Epics", value: plan.archive.epics.length },
+    { label: "Comments", value: plan.archive.task_comments.length },
+    { label: "Members", value: plan.archive.members.length },
+  ] : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Import project</DialogTitle>
+          <DialogDescription>
+            Restore a project from an exported archive. It is created as a new project that you own.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-4">
+            <div className="flex flex-col items-center text-center py-4 space-y-2">
+              <CheckCircle2 className="h-10 w-10 text-green-500" />
+              <p className="font-medium">Restored {plan?.archive.project.name}</p>
+            </div>
+
+            {result.invites.length > 0 && (
+              <div className="space-y-1 rounded-md border p-3">
+                <p className="text-sm font-medium">Members invited back</p>
+                <p className="text-xs text-muted-foreground">
+                  They get their old role once they accept. Invites that could not be emailed can be copied from the project settings.
+                </p>
+                <ul className="text-sm">
+                  {result.invites.map(invite => (
+                    <li key={invite.id} className="flex items-center justify-between">
+                      <span>{invite.email}</span>
+                      <Badge variant={unsentEmails.includes(invite.email) ? "destructive" : "outline"}>
+                        {unsentEmails.includes(invite.email) ? "Not sent" : "Sent"}
+                      </Badge>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {result.uninvitedMembers.length > 0 && (
+              <div className="space-y-1 rounded-md border p-3">
+                <p className="text-sm font-medium">Members without an email address</p>
+                <p className="text-xs text-muted-foreground">
+                  The archive does not say how to reach them. Invite them from the project settings.
+                </p>
+                <ul className="text-sm text-muted-foreground">
+                  {result.uninvitedMembers.map(memberId => (
+                    <li key={memberId}>{memberId}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {legacyUserId && (
+              <p className="text-sm text-muted-foreground">
+                The data kept in this browser is no longer needed and can be removed.
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="project-archive-file">Archive file</Label>
+              <Input
+                id="project-archive-file"
+                type="file"
+                accept=".json"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              <p className="text-xs text-muted-foreground">A project exported from its settings page</p>
+            </div>
+
+            {stored.length > 0 && (
+              <div className="space-y-2">
+                <Label>Or move the data kept in this browser</Label>
+                {stored.map(entry => (
+                  <Button
+                    key={entry.userId}
+                    variant={legacyUserId === entry.userId ? "secondary" : "outline"}
+                    className="w-full justify-start"
+                    onClick={() => handleStored(entry)}
+                  >
+                    <HardDrive className="mr-2 h-4 w-4" />
+                    {entry.data.sprints.length} sprints and {entry.data.tasks.length + entry.data.backlog.length} tasks
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {error && (
+              <p className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </p>
+            )}
+
+            {plan && (
+              <div className="space-y-3">
+                <h3 className="text-sm font-medium">
+                  From {sourceName} this will create "{plan.archive.project.name}"
+                  {!legacyUserId && (
+                    <span className="font-normal text-muted-foreground">
+                      {" "}as exported on {format(new Date(plan.archive.exported_at), "MMM d, yyyy")}
+                    </span>
+                  )}
+                </h3>
+                <div className="grid grid-cols-5 gap-2 text-sm">
+                  {counts.map(count => (
+                    <div key={count.label} className="rounded-md border p-2 text-center">
+                      <p className="font-semibold">{count.value}</p>
+                      <p className="text-xs text-muted-foreground">{count.label}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <ScrollArea className="h-[160px] rounded-md border p-3">
+                  <p className="text-xs font-medium text-muted-foreground mb-1">Conflicts</p>
+                  {plan.conflicts.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Everything in the archive is restored as it was.</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {plan.conflicts.map(conflict => (
+                        <li key={conflict.message} className="flex items-start gap-2 text-sm">
+                          <Info className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                          <span className="flex-1">{conflict.message}</span>
+                          <Badge variant="outline">{conflict.count}</Badge>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {legacyUserId
+                      ? "Tasks kept in this browser were assigned to sample users, so they are restored unassigned."
+                      : "Members are invited back by email. Until then their tasks are unassigned, and their comments and activity are credited to you."}
+                  </p>
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <>
+              {legacyUserId && (
+                <Button variant="outline" onClick={handleClearStored}>Remove local data</Button>
+              )}
+              <Button onClick={() => onRestored(result.projectId)}>Open project</Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isRestoring}>Cancel</Button>
+              <Button onClick={handleRestore} disabled={!plan || isRestoring}>
+                {isRestoring ? "Restoring..." : "Restore"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RestoreProjectDialog;
@@ -0,0 +1,39 @@
+import { useSortable } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { Task } from "@/types/task";
+import TaskCard from "@/components/TaskCard";
+import { usePermissions } from "@/hooks/use-permissions";
+
+interface SortableTaskCardProps {
+  task: Task;
+  onEdit: (task: Task) => void;
+  onDelete: (taskId: string) => void;
+  onMove?: (task: Task) => void;
+  showMoveButton?: boolean;
+}
+
+// Sortable Task Wrapper
+const SortableTaskCard = ({ task, onEdit, onDelete, onMove, showMoveButton }: SortableTaskCardProps) => {
+  const { canEdit } = usePermissions();
+  const { attributes, listeners, setNodeRef, transform, transition } = useSortable({ id: task.id, disabled: !canEdit });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  return (
+    <div ref={setNodeRef} style={style} {...attributes} {...listeners}>
+      <TaskCard
+        task={task}
+        onEdit={onEdit}
+        onDelete={onDelete}
+        onMove={onMove}
+        showMoveButton={showMoveButton}
+        isDraggable={true}
+      />
+    </div>
+  );
+};
+
+export default SortableTaskCard;
@@ -0,0 +1,223 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { MemberAvailability, Sprint } from "@/types/sprint";
+import { saveMemberAvailability } from "@/lib/supabase/capacity";
+import { updateSprintRates } from "@/lib/supabase/sprints";
+import {
+  DEFAULT_FOCUS_FACTOR,
+  DEFAULT_HOURS_PER_DAY,
+  DEFAULT_POINTS_PER_DAY,
+  formatCapacity,
+} from "@/lib/capacity";
+import { useMemberDirectory } from "@/hooks/use-member-directory";
+import { sprintCapacityKey, useSprintCapacity } from "@/hooks/use-sprint-capacity";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import CapacityGauge from "./CapacityGauge";
+import MemberAvatar from "./MemberAvatar";
+
+interface SprintCapacityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sprint: Sprint;
+  onSprintUpdated: (sprint: Sprint) => void;
+}
+
+const SprintCapacityDialog = ({ open, onOpenChange, sprint, onSprintUpdated }: SprintCapacityDialogProps) => {
+  const [hoursPerDay, setHoursPerDay] = useState(DEFAULT_HOURS_PER_DAY);
+  const [pointsPerDay, setPointsPerDay] = useState(DEFAULT_POINTS_PER_DAY);
+  const [drafts, setDrafts] = useState<MemberAvailability[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const initialized = useRef(false);
+  const { members, loading: membersLoading } = useMemberDirectory(sprint.projectId);
+  const { getCapacity, availability, loading } = useSprintCapacity(sprint.projectId);
+  const { canEdit } = usePermissions();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Start from the saved availability every time the dialog opens, once both
+  // it and the member list have loaded, but keep edits when the cached data
+  // refreshes in the background
+  useEffect(() => {
+    if (!open) {
+      initialized.current = false;
+      return;
+    }
+    if (loading || membersLoading || initialized.current) return;
+
+    initialized.current = true;
+    setHoursPerDay(sprint.hoursPerDay ?? DEFAULT_HOURS_PER_DAY);
+    setPointsPerDay(sprint.pointsPerDay ?? DEFAULT_POINTS_PER_DAY);
+    setDrafts(members.map(member => (
+      availability.find(entry => entry.sprintId === sprint.id && entry.userId === member.id) || {
+        sprintId: sprint.id,
+        userId: member.id,
+        daysOff: 0,
+        focusFactor: DEFAULT_FOCUS_FACTOR,
+      }
+    )));
+  }, [open, loading, membersLoading, sprint, members, availability]);
+
+  const updateDraft = (userId: string, changes: Partial<MemberAvailability>) => {
+    setDrafts(prev => prev.map(draft => draft.userId === userId ? { ...draft, ...changes } : draft));
+  };
+
+  const preview = getCapacity({ ...sprint, hoursPerDay, pointsPerDay }, { availability: drafts });
+
+  const handleSave = async () => {
+    if (!canEdit) return;
+
+    try {
+      setIsSaving(true);
+
+      // Only entries that differ from what is saved, or from the defaults, are written
+      const changed = drafts.filter(draft => {
+        const saved = availability.find(entry => entry.sprintId === sprint.id && entry.userId === draft.userId);
+        return saved
+          ? saved.daysOff !== draft.daysOff || saved.focusFactor !== draft.focusFactor
+          : draft.daysOff !== 0 || draft.focusFactor !== DEFAULT_FOCUS_FACTOR;
+      });
+      await Promise.all(changed.map(saveMemberAvailability));
+
+      if (hoursPerDay !== (sprint.hoursPerDay ?? DEFAULT_HOURS_PER_DAY)
+        || pointsPerDay !== (sprint.pointsPerDay ?? DEFAULT_POINTS_PER_DAY)) {
+        onSprintUpdated(await updateSprintRates(sprint.id, { hoursPerDay, pointsPerDay }));
+      }
+
+      await queryClient.invalidateQueries({ queryKey: sprintCapacityKey(sprint.projectId) });
+      toast({
+        title: "Capacity saved",
+        description: `${formatCapacity(preview.points)} points of capacity for ${sprint.name}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to save capacity:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the sprint's capacity",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Capacity of {sprint.name}</DialogTitle>
+          <DialogDescription>
+            Enter each member's days off and the share of their day spent on sprint work.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || membersLoading ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="hours-per-day">Hours per day</Label>
+                <Input
+                  id="hours-per-day"
+                  type="number"
+                  min={1}
+                  max={24}
+                  step={0.5}
+                  value={hoursPerDay}
+                  onChange={(e) => setHoursPerDay(Math.min(24, Math.max(1, Number(e.target.value) || 1)))}
+                  disabled={!canEdit}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="points-per-day">Points per focused day</Label>
+                <Input
+                  id="points-per-day"
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={pointsPerDay}
+                  onChange={(e) => setPointsPerDay(Math.max(0, Number(e.target.value) || 0))}
+                  disabled={!canEdit}
+                />
+              </div>
+            </div>
+
+            <ScrollArea className="max-h-64 border rounded-md">
+              <div className="grid grid-cols-[1fr_6rem_6rem_5rem] items-center gap-2 px-3 py-2 border-b text-xs text-muted-foreground">
+                <span>Member</span>
+                <span>Days off</span>
+                <span>Focus %</span>
+                <span className="text-right">Capacity</span>
+              </div>
+              {drafts.map(draft => {
+                const member = members.find(m => m.id === draft.userId);
+                const memberCapacity = preview.members.find(m => m.userId === draft.userId);
+                if (!member) return null;
+
+                return (
+                  <div key={draft.userId} className="grid grid-cols-[1fr_6rem_6rem_5rem] items-center gap-2 px-3 py-2 border-b last:border-b-0 text-sm">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <MemberAvatar member={member} />
+                      <span className="truncate">{member.name}</span>
+                    </span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={preview.workingDays}
+                      step={0.5}
+                      value={draft.daysOff}
+                      onChange={(e) => updateDraft(draft.userId, { daysOff: Math.max(0, Number(e.target.value) || 0) })}
+                      disabled={!canEdit}
+                      aria-label={`Days off of ${member.name}`}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={Math.round(draft.focusFactor * 100)}
+                      onChange={(e) => updateDraft(draft.userId, {
+                        focusFactor: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100,
+                      })}
+                      disabled={!canEdit}
+                      aria-label={`Focus factor of ${member.name}`}
+                    />
+                    <span className="text-right text-xs text-muted-foreground">
+                      {formatCapacity(memberCapacity?.points || 0)} pts
+                      <br />
+                      {formatCapacity(memberCapacity?.hours || 0)} h
+                    </span>
+                  </div>
+                );
+              })}
+            </ScrollArea>
+
+            <CapacityGauge capacity={preview} projectId={sprint.projectId} />
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-4">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            {canEdit ? "Cancel" : "Close"}
+          </Button>
+          {canEdit && (
+            <Button onClick={handleSave} disabled={loading || membersLoading || isSaving}>
+              {isSaving ? "Saving..." : "Save Capacity"}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SprintCapacityDialog;
@@ -0,0 +1,117 @@
+import { useEffect, useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Sprint } from "@/types/sprint";
+import { TaskHistoryEntry } from "@/types/task";
+import { fetchSprintTaskHistory } from "@/lib/supabase/task-history";
+import { buildSprintChartData } from "@/lib/burndown";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkflow } from "@/hooks/use-workflow";
+import CumulativeFlowChart from "./CumulativeFlowChart";
+
+interface SprintChartsProps {
+  sprint: Sprint;
+}
+
+const burndownConfig = {
+  ideal: { label: "Ideal", color: "hsl(var(--muted-foreground))" },
+  remaining: { label: "Remaining", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const burnupConfig = {
+  scope: { label: "Scope", color: "hsl(var(--destructive))" },
+  done: { label: "Done", color: "hsl(142 71% 45%)" },
+} satisfies ChartConfig;
+
+const SprintCharts = ({ sprint }: SprintChartsProps) => {
+  const [history, setHistory] = useState<TaskHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const { doneStatuses } = useWorkflow();
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setLoading(true);
+        setHistory(await fetchSprintTaskHistory(sprint.id));
+      } catch (error) {
+        console.error("Failed to fetch sprint history:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load sprint charts",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [sprint.id, toast]);
+
+  const data = useMemo(() => buildSprintChartData(sprint, history, doneStatuses), [sprint, history, doneStatuses]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 mb-6">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">Burndown</CardTitle>
+          <CardDescription>Points remaining against the ideal pace</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={burndownConfig} className="h-[250px] w-full aspect-auto">
+            <LineChart data={data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="ideal" stroke="var(--color-ideal)" strokeDasharray="4 4" dot={false} />
+              <Line dataKey="remaining" stroke="var(--color-remaining)" strokeWidth={2} dot={false} connectNulls={false} />
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">Burnup</CardTitle>
+          <CardDescription>Completed points against the sprint scope</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={burnupConfig} className="h-[250px] w-full aspect-auto">
+            <LineChart data={data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="scope" type="stepAfter" stroke="var(--color-scope)" strokeWidth={2} dot={false} />
+              <Line dataKey="done" stroke="var(--color-done)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="md:col-span-2">
+        <CumulativeFlowChart
+          history={history}
+          defaultRange={{ from: new Date(sprint.startDate), to: new Date(sprint.endDate) }}
+          sprintId={sprint.id}
+          description="Tasks of the sprint in each status, day by day"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SprintCharts;
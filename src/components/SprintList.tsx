@@ -7,6 +7,8 @@ import { Calendar, ChevronRight } from 'lucide-react';
 import { format } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
 import { Sprint } from '@/types/sprint';
+import { useSprintCapacity } from '@/hooks/use-sprint-capacity';
+import CapacityGauge from './CapacityGauge';
 
 interface SprintListProps {
   sprints: Sprint[];
@@ -16,6 +18,7 @@ interface SprintListProps {
 const SprintList = ({ sprints, projectId }: SprintListProps) => {
   const navigate = useNavigate();
   const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const { getCapacity, loading: capacityLoading } = useSprintCapacity(projectId);
 
   const toggleExpand = (sprintId: string) => {
     setExpanded(prev => ({
@@ -29,16 +32,13 @@ const SprintList = ({ sprints, projectId }: SprintListProps) => {
   };
 
   const getStatusBadge = (sprint: Sprint) => {
-    const startDate = new Date(sprint.startDate);
-    const endDate = new Date(sprint.endDate);
-    const today = new Date();
-
-    if (today < startDate) {
-      return <Badge variant="outline">Scheduled</Badge>;
-    } else if (today > endDate) {
-      return <Badge variant="secondary">Completed</Badge>;
-    } else {
-      return <Badge variant="default">Active</Badge>;
+    switch (sprint.status) {
+      case 'active':
+        return <Badge variant="default">Active</Badge>;
+      case 'completed':
+        return <Badge variant="secondary">Completed</Badge>;
+      default:
+        return <Badge variant="outline">Planned</Badge>;
     }
   };
 
@@ -68,6 +68,10 @@ const SprintList = ({ sprints, projectId }: SprintListProps) => {
                 {format(new Date(sprint.startDate), "MMM d")} - {format(new Date(sprint.endDate), "MMM d, yyyy")}
               </span>
             </div>
+
+            {sprint.status !== 'completed' && !capacityLoading && (
+              <CapacityGauge capacity={getCapacity(sprint)} projectId={projectId} className="mb-4" />
+            )}
             
             <Button 
               variant="default" 
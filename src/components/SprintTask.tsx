@@ -5,7 +5,7 @@ import { Task } from "@/types/task";
 import { Sprint } from "@/types/sprint";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Grip, Trash, Edit, MoveRight, User as UserIcon } from "lucide-react";
+import { Grip, Trash, Edit, MoveRight } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -14,14 +14,9 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useState } from "react";
 import EditTaskDialog from "./EditTaskDialog";
-import { User } from "@/types/user";
-import { Avatar, AvatarImage, AvatarFallback, AvatarGroup } from "@/components/ui/avatar";
-
-const MOCK_USERS: User[] = [
-  { id: "1", name: "John Doe", email: "john.doe@example.com", avatarUrl: "https://github.com/shadcn.png" },
-  { id: "2", name: "Jane Smith", email: "jane.smith@example.com", avatarUrl: "https://github.com/shadcn.png" },
-  { id: "3", name: "Bob Johnson", email: "bob.johnson@example.com", avatarUrl: "https://github.com/shadcn.png" },
-];
+import IssueTypeIcon from "./IssueTypeIcon";
+import { useWorkflow } from "@/hooks/use-workflow";
+import AssigneeAvatars from "./AssigneeAvatars";
 
 interface SprintTaskProps {
   task: Task;
@@ -34,6 +29,7 @@ interface SprintTaskProps {
 
 const SprintTask = ({ task, sprints, onDelete, onUpdate, onMove, onMoveToBacklog }: SprintTaskProps) => {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const { getStatus } = useWorkflow();
   const {
     attributes,
     listeners,
@@ -41,7 +37,7 @@ const SprintTask = ({ task, sprints, onDelete, onUpdate, onMove, onMoveToBacklog
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: task.id });
+  } = useSortable({ id: task.id, data: { task } });
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -63,30 +59,11 @@ const SprintTask = ({ task, sprints, onDelete, onUpdate, onMove, onMoveToBacklog
   };
 
   const getStatusColor = (status: string) => {
-    switch (status) {
-      case "todo":
-        return "bg-blue-100 text-blue-800";
-      case "in-progress":
-        return "bg-purple-100 text-purple-800";
-      case "done":
-        return "bg-green-100 text-green-800";
-      default:
-        return "bg-gray-100 text-gray-800";
-    }
+    const { color } = getStatus(status);
+    return { color, backgroundColor: `${color}1a` };
   };
 
-  const getStatusLabel = (status: string) => {
-    switch (status) {
-      case "todo":
-        return "To Do";
-      case "in-progress":
-        return "In Progress";
-      case "done":
-        return "Done";
-      default:
-        return status;
-    }
-  };
+  const getStatusLabel = (status: string) => getStatus(status).name;
 
   return (
     <>
@@ -108,7 +85,10 @@ const SprintTask = ({ task, sprints, onDelete, onUpdate, onMove, onMoveToBacklog
           <div className="flex-1 space-y-2">
             <div className="flex items-start justify-between">
               <div>
-                <h3 className="font-medium text-foreground">{task.title}</h3>
+                <h3 className="font-medium text-foreground flex items-center gap-2">
+                  <IssueTypeIcon type={task.type} size={14} />
+                  {task.title}
+                </h3>
                 <p className="text-sm text-muted-foreground">{task.description}</p>
               </div>
               <div className="flex items-center gap-2">
@@ -164,31 +144,15 @@ const SprintTask = ({ task, sprints, onDelete, onUpdate, onMove, onMoveToBacklog
                 {task.priority}
               </span>
               <span
-                className={`px-2 py-1 rounded-md text-xs font-medium ${getStatusColor(
-                  task.status
-                )}`}
+                className="px-2 py-1 rounded-md text-xs font-medium"
+                style={getStatusColor(task.status)}
               >
                 {getStatusLabel(task.status)}
               </span>
               <span className="text-xs text-muted-foreground">
                 {task.points} points
               </span>
-              {task.assignees?.length > 0 && (
-                <AvatarGroup>
-                  {task.assignees.map((userId) => {
-                    const user = MOCK_USERS.find((u) => u.id === userId);
-                    if (!user) return null;
-                    return (
-                      <Avatar key={user.id} className="w-6 h-6">
-                        <AvatarImage src={user.avatarUrl} alt={user.name} />
-                        <AvatarFallback>
-                          <UserIcon className="w-4 h-4" />
-                        </AvatarFallback>
-                      </Avatar>
-                    );
-                  })}
-                </AvatarGroup>
-              )}
+              <AssigneeAvatars projectId={task.projectId} userIds={task.assignees || []} />
             </div>
           </div>
         </div>
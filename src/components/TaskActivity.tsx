@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { History, UserIcon } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { TaskEvent } from "@/types/event";
+import { Profile } from "@/types/user";
+import { fetchTaskEvents } from "@/lib/supabase/task-events";
+import { fetchProfiles } from "@/lib/supabase/profiles";
+import { fetchProjectSprints } from "@/lib/supabase/sprints";
+import { describeTaskEvent, getTaskEventUserIds, TaskEventNames } from "@/lib/task-events";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkflow } from "@/hooks/use-workflow";
+
+interface TaskActivityProps {
+  taskId: string;
+  projectId?: string;
+}
+
+const TaskActivity = ({ taskId, projectId }: TaskActivityProps) => {
+  const [events, setEvents] = useState<TaskEvent[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, Profile>>({});
+  const [names, setNames] = useState<Omit<TaskEventNames, "statuses">>({ users: {}, sprints: {} });
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const { statuses } = useWorkflow();
+
+  useEffect(() => {
+    const loadActivity = async () => {
+      try {
+        setLoading(true);
+        const [taskEvents, projectSprints] = await Promise.all([
+          fetchTaskEvents(taskId),
+          projectId ? fetchProjectSprints(projectId) : Promise.resolve([]),
+        ]);
+
+        const userIds = Array.from(new Set(taskEvents.flatMap(getTaskEventUserIds)));
+        const userProfiles = await fetchProfiles(userIds);
+
+        setEvents(taskEvents);
+        setProfiles(Object.fromEntries(userProfiles.map(profile => [profile.id, profile])));
+        setNames({
+          users: Object.fromEntries(userProfiles.map(profile => [profile.id, profile.name || "Unknown User"])),
+          sprints: Object.fromEntries(projectSprints.map(sprint => [sprint.id, sprint.name])),
+        });
+      } catch (error) {
+        console.error("Failed to fetch task activity:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load task activity",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadActivity();
+  }, [taskId, projectId, toast]);
+
+  const statusNames = Object.fromEntries(statuses.map(status => [status.key, status.name]));
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <History className="h-8 w-8 mx-auto mb-2" />
+        <p className="text-sm">No activity recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-[360px] pr-4">
+      <ol className="space-y-4">
+        {events.map(event => {
+          const actor = event.actorId ? profiles[event.actorId] : undefined;
+          return (
+            <li key={event.id} className="flex gap-3">
+              <Avatar className="w-6 h-6">
+                <AvatarImage src={actor?.avatar_url || undefined} alt={actor?.name || ""} />
+                <AvatarFallback>
+                  <UserIcon className="w-4 h-4" />
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1 text-sm">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium">{actor?.name || "Someone"}</span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                  </span>
+                </div>
+                <ul className="text-muted-foreground">
+                  {describeTaskEvent(event, { ...names, statuses: statusNames }).map(line => (
+                    <li key={line}>{line}</li>
+                  ))}
+                </ul>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </ScrollArea>
+  );
+};
+
+export default TaskActivity;
@@ -2,8 +2,14 @@
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Edit, Trash2, ArrowRight } from "lucide-react";
+import { Edit, Eye, Trash2, ArrowRight, MessageSquare, ListTree, ListChecks, Ban } from "lucide-react";
 import { Task } from "@/types/task";
+import { getChecklistProgress } from "@/lib/subtasks";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { usePermissions } from "@/hooks/use-permissions";
+import IssueTypeIcon from "./IssueTypeIcon";
+import LabelBadge from "./LabelBadge";
+import AssigneeAvatars from "./AssigneeAvatars";
 
 interface TaskCardProps {
   task: Task;
@@ -20,14 +26,14 @@ const priorityColors = {
   high: "bg-red-100 text-red-800",
 };
 
-const statusColors = {
-  todo: "bg-gray-100 text-gray-800",
-  "in-progress": "bg-blue-100 text-blue-800",
-  "in-review": "bg-purple-100 text-purple-800",
-  done: "bg-green-100 text-green-800",
-};
-
 const TaskCard = ({ task, onEdit, onDelete, onMove, showMoveButton = false, isDraggable = false }: TaskCardProps) => {
+  const { getStatus, isDone } = useWorkflow();
+  const { canEdit, canDelete } = usePermissions();
+  const checklistProgress = getChecklistProgress(task.checklist);
+  const subtaskCount = task.subtaskStatuses?.length || 0;
+  const subtaskDoneCount = task.subtaskStatuses?.filter(isDone).length || 0;
+  const openBlockerCount = isDone(task.status) ? 0 : task.blockerStatuses?.filter(status => !isDone(status)).length || 0;
+
   const handleEditClick = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent drag when clicking edit button
     e.preventDefault(); // Prevent drag when clicking edit button
@@ -49,17 +55,23 @@ const TaskCard = ({ task, onEdit, onDelete, onMove, showMoveButton = false, isDr
   };
 
   return (
-    <Card className={`mb-4 ${isDraggable ? 'cursor-grab active:cursor-grabbing' : ''} hover:shadow-md transition-shadow`}>
+    <Card className={`mb-4 ${isDraggable && canEdit ? 'cursor-grab active:cursor-grabbing' : ''} hover:shadow-md transition-shadow`}>
       <CardHeader className="pb-2">
         <div className="flex justify-between items-start">
-          <CardTitle className="text-lg">{task.title}</CardTitle>
+          <CardTitle className="text-lg flex items-center gap-2">
+            {openBlockerCount > 0 && (
+              <span title={`Blocked by ${openBlockerCount} open ${openBlockerCount === 1 ? "task" : "tasks"}`}>
+                <Ban size={16} className="text-red-600" />
+              </span>
+            )}
+            <IssueTypeIcon type={task.type} />
+            {task.title}
+          </CardTitle>
           <div className="flex gap-1">
             <Badge variant="outline" className={priorityColors[task.priority as keyof typeof priorityColors] || "bg-gray-100"}>
               {task.priority}
             </Badge>
-            <Badge variant="outline" className={statusColors[task.status as keyof typeof statusColors] || "bg-gray-100"}>
-              {task.status.replace("-", " ")}
-            </Badge>
+            <LabelBadge label={getStatus(task.status)} className="font-semibold" />
           </div>
         </div>
         <CardDescription className="text-sm text-gray-500">
@@ -68,18 +80,51 @@ const TaskCard = ({ task, onEdit, onDelete, onMove, showMoveButton = false, isDr
       </CardHeader>
       <CardContent className="pb-2">
         <p className="text-sm text-gray-700">{task.description}</p>
+        {!!task.labels?.length && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {task.labels.map(label => (
+              <LabelBadge key={label.id} label={label} />
+            ))}
+          </div>
+        )}
       </CardContent>
       <CardFooter className="flex justify-end pt-2 gap-2">
+        <div className="mr-auto flex items-center gap-3 text-xs text-muted-foreground">
+          {subtaskCount > 0 && (
+            <span
+              className={`flex items-center gap-1 ${subtaskDoneCount === subtaskCount ? "text-green-700" : ""}`}
+              title="Subtasks done"
+            >
+              <ListTree size={14} />
+              {subtaskDoneCount}/{subtaskCount}
+            </span>
+          )}
+          {checklistProgress.total > 0 && (
+            <span className="flex items-center gap-1" title="Checklist items done">
+              <ListChecks size={14} />
+              {checklistProgress.done}/{checklistProgress.total}
+            </span>
+          )}
+          {!!task.commentCount && (
+            <span className="flex items-center gap-1" title="Comments">
+              <MessageSquare size={14} />
+              {task.commentCount}
+            </span>
+          )}
+          <AssigneeAvatars projectId={task.projectId} userIds={task.assignees} />
+        </div>
+        {/* Viewers open the same dialog to read the task */}
         <Button
           size="sm"
           variant="ghost"
           onClick={handleEditClick}
           className="z-10"
           type="button"
+          title={canEdit ? "Edit task" : "View task"}
         >
-          <Edit size={16} />
+          {canEdit ? <Edit size={16} /> : <Eye size={16} />}
         </Button>
-        {showMoveButton && onMove && (
+        {canEdit && showMoveButton && onMove && (
           <Button
             size="sm"
             variant="ghost"
@@ -90,15 +135,17 @@ const TaskCard = ({ task, onEdit, onDelete, onMove, showMoveButton = false, isDr
             <ArrowRight size={16} />
           </Button>
         )}
-        <Button
-          size="sm"
-          variant="ghost"
-          onClick={handleDeleteClick}
-          className="text-red-500 hover:text-red-700 z-10"
-          type="button"
-        >
-          <Trash2 size={16} />
-        </Button>
+        {canDelete && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={handleDeleteClick}
+            className="text-red-500 hover:text-red-700 z-10"
+            type="button"
+          >
+            <Trash2 size={16} />
+          </Button>
+        )}
       </CardFooter>
     </Card>
   );
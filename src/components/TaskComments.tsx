@@ -0,0 +1,318 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { MessageSquare, Reply, Trash2, Edit, UserIcon } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { TaskComment } from "@/types/comment";
+import { Profile } from "@/types/user";
+import { useAuth } from "@/contexts/AuthContext";
+import { useMemberDirectory } from "@/hooks/use-member-directory";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import { createComment, deleteComment, fetchTaskComments, updateComment } from "@/lib/supabase/comments";
+import { fetchProfiles } from "@/lib/supabase/profiles";
+import { extractMentionIds, getMentionQuery, Mentionable } from "@/lib/mentions";
+import Markdown from "./Markdown";
+
+interface TaskCommentsProps {
+  taskId: string;
+  projectId?: string;
+}
+
+interface CommentEditorProps {
+  members: Mentionable[];
+  initialValue?: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+// Textarea that suggests project members after typing "@"
+const CommentEditor = ({ members, initialValue = "", submitLabel, onSubmit, onCancel }: CommentEditorProps) => {
+  const [body, setBody] = useState(initialValue);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = mentionQuery === null
+    ? []
+    : members
+        .filter(member => member.name.toLowerCase().startsWith(mentionQuery.toLowerCase()))
+        .slice(0, 5);
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setBody(e.target.value);
+    setMentionQuery(getMentionQuery(e.target.value, e.target.selectionStart));
+  };
+
+  const insertMention = (member: Mentionable) => {
+    const textarea = textareaRef.current;
+    const cursor = textarea ? textarea.selectionStart : body.length;
+    const start = body.lastIndexOf("@", cursor - 1);
+    const next = `${body.slice(0, start)}@${member.name} ${body.slice(cursor)}`;
+    setBody(next);
+    setMentionQuery(null);
+    textarea?.focus();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    try {
+      setIsSubmitting(true);
+      await onSubmit(body.trim());
+      setBody("");
+    } catch {
+      // Keep the draft so it can be submitted again
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={body}
+          onChange={handleChange}
+          placeholder="Write a comment. Markdown and @mentions are supported."
+          rows={3}
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute z-10 mt-1 w-full rounded-md border bg-popover shadow-md">
+            {suggestions.map(member => (
+              <button
+                key={member.id}
+                type="button"
+                className="block w-full px-3 py-1.5 text-left text-sm hover:bg-accent"
+                onClick={() => insertMention(member)}
+              >
+                {member.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" size="sm" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={isSubmitting || !body.trim()}>
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+const TaskComments = ({ taskId, projectId }: TaskCommentsProps) => {
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, Profile>>({});
+  const [loading, setLoading] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { canEdit } = usePermissions();
+  const { members: directory } = useMemberDirectory(projectId);
+  const { toast } = useToast();
+  const members = useMemo<Mentionable[]>(
+    () => directory.map(member => ({ id: member.id, name: member.name })),
+    [directory]
+  );
+
+  useEffect(() => {
+    const loadComments = async () => {
+      try {
+        setLoading(true);
+        const taskComments = await fetchTaskComments(taskId);
+
+        // Authors who have since left the project still need a name
+        const userIds = Array.from(new Set(taskComments.map(comment => comment.authorId)));
+        const userProfiles = await fetchProfiles(userIds);
+
+        setComments(taskComments);
+        setProfiles(Object.fromEntries(userProfiles.map(profile => [profile.id, profile])));
+      } catch (error) {
+        console.error("Failed to fetch comments:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load comments",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadComments();
+  }, [taskId, toast]);
+
+  const handleCreate = async (body: string, parentId?: string) => {
+    if (!user) return;
+
+    try {
+      const comment = await createComment({
+        taskId,
+        projectId,
+        parentId,
+        authorId: user.id,
+        body,
+        mentions: extractMentionIds(body, members),
+      });
+      setComments(prev => [...prev, comment]);
+      setReplyingTo(null);
+    } catch (error) {
+      console.error("Failed to create comment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to post comment",
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  const handleUpdate = async (id: string, body: string) => {
+    try {
+      const comment = await updateComment(id, body, extractMentionIds(body, members));
+      setComments(prev => prev.map(c => (c.id === id ? comment : c)));
+      setEditingId(null);
+    } catch (error) {
+      console.error("Failed to update comment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update comment",
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteComment(id);
+      // Replies are deleted along with the comment they belong to
+      setComments(prev => prev.filter(c => c.id !== id && c.parentId !== id));
+    } catch (error) {
+      console.error("Failed to delete comment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete comment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderComment = (comment: TaskComment) => {
+    const author = profiles[comment.authorId];
+    const isOwn = comment.authorId === user?.id;
+
+    return (
+      <div key={comment.id} className="flex gap-3">
+        <Avatar className="w-6 h-6">
+          <AvatarImage src={author?.avatar_url || undefined} alt={author?.name || ""} />
+          <AvatarFallback>
+            <UserIcon className="w-4 h-4" />
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0 text-sm">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">{author?.name || "Former member"}</span>
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+              {comment.updatedAt !== comment.createdAt && " (edited)"}
+            </span>
+          </div>
+          {editingId === comment.id ? (
+            <CommentEditor
+              members={members}
+              initialValue={comment.body}
+              submitLabel="Save"
+              onSubmit={body => handleUpdate(comment.id, body)}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <Markdown source={comment.body} mentions={members} />
+          )}
+          <div className="flex gap-1 mt-1">
+            {canEdit && !comment.parentId && (
+              <Button type="button" size="sm" variant="ghost" className="h-7 px-2" onClick={() => setReplyingTo(comment.id)}>
+                <Reply className="w-3 h-3 mr-1" /> Reply
+              </Button>
+            )}
+            {isOwn && editingId !== comment.id && (
+              <>
+                <Button type="button" size="sm" variant="ghost" className="h-7 px-2" onClick={() => setEditingId(comment.id)}>
+                  <Edit className="w-3 h-3" />
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2 text-red-500 hover:text-red-700"
+                  onClick={() => handleDelete(comment.id)}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  const threads = comments.filter(comment => !comment.parentId);
+
+  return (
+    <div className="space-y-4">
+      <ScrollArea className="h-[280px] pr-4">
+        {threads.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <MessageSquare className="h-8 w-8 mx-auto mb-2" />
+            <p className="text-sm">No comments yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {threads.map(thread => (
+              <div key={thread.id} className="space-y-3">
+                {renderComment(thread)}
+                <div className="ml-9 space-y-3 border-l pl-3">
+                  {comments.filter(reply => reply.parentId === thread.id).map(renderComment)}
+                  {replyingTo === thread.id && (
+                    <CommentEditor
+                      members={members}
+                      submitLabel="Reply"
+                      onSubmit={body => handleCreate(body, thread.id)}
+                      onCancel={() => setReplyingTo(null)}
+                    />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      {canEdit && (
+        <CommentEditor members={members} submitLabel="Comment" onSubmit={body => handleCreate(body)} />
+      )}
+    </div>
+  );
+};
+
+export default TaskComments;
@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { Link2, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Task } from "@/types/task";
+import { TaskLink } from "@/types/link";
+import { fetchProductBacklog } from "@/lib/supabase/tasks";
+import { createTaskLink, deleteTaskLink, fetchProjectTaskLinks } from "@/lib/supabase/task-links";
+import { getLinkRelation, TASK_RELATION_LABELS, TaskRelation, toTaskLink, wouldCreateCycle } from "@/lib/dependencies";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { usePermissions } from "@/hooks/use-permissions";
+
+interface TaskDependenciesProps {
+  task: Task;
+}
+
+const TaskDependencies = ({ task }: TaskDependenciesProps) => {
+  const [links, setLinks] = useState<TaskLink[]>([]);
+  const [projectTasks, setProjectTasks] = useState<Task[]>([]);
+  const [relation, setRelation] = useState<TaskRelation>("blocked-by");
+  const [otherId, setOtherId] = useState("");
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const { getStatus, isDone } = useWorkflow();
+  const { canEdit } = usePermissions();
+
+  useEffect(() => {
+    if (!task.projectId) {
+      setLoading(false);
+      return;
+    }
+
+    const loadLinks = async () => {
+      try {
+        setLoading(true);
+        // All project links are needed to reject cycles before saving
+        const [projectLinks, tasks] = await Promise.all([
+          fetchProjectTaskLinks(task.projectId!),
+          fetchProductBacklog(task.projectId!),
+        ]);
+        setLinks(projectLinks);
+        setProjectTasks(tasks);
+      } catch (error) {
+        console.error("Failed to fetch task links:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load linked tasks",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLinks();
+  }, [task.projectId, toast]);
+
+  const taskLinks = links.filter(link => link.sourceId === task.id || link.targetId === task.id);
+  const linkedIds = new Set(taskLinks.map(link => getLinkRelation(link, task.id).otherId));
+  const candidates = projectTasks.filter(t => t.id !== task.id && !linkedIds.has(t.id));
+
+  const handleAddLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!otherId) return;
+
+    const link = toTaskLink(relation, task.id, otherId);
+    if (link.type === "blocks" && wouldCreateCycle(links, link.sourceId, link.targetId)) {
+      toast({
+        title: "Error",
+        description: "This dependency would create a cycle",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const created = await createTaskLink({ ...link, projectId: task.projectId });
+      setLinks(prev => [...prev, created]);
+      setOtherId("");
+    } catch (error) {
+      console.error("Failed to link tasks:", error);
+      toast({
+        title: "Error",
+        description: error?.code === "23514"
+          ? "This dependency would create a cycle"
+          : "Failed to link tasks",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemoveLink = async (id: string) => {
+    try {
+      await deleteTaskLink(id);
+      setLinks(prev => prev.filter(link => link.id !== id));
+    } catch (error) {
+      console.error("Failed to unlink tasks:", error);
+      toast({
+        title: "Error",
+        description: "Failed to unlink tasks",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!task.projectId) {
+    return <p className="text-sm text-muted-foreground">Only tasks in a project can be linked</p>;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {taskLinks.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground">
+          <Link2 className="h-8 w-8 mx-auto mb-2" />
+          <p className="text-sm">No linked tasks</p>
+        </div>
+      ) : (
+        (Object.keys(TASK_RELATION_LABELS) as TaskRelation[]).map(group => {
+          const groupLinks = taskLinks.filter(link => getLinkRelation(link, task.id).relation === group);
+          if (groupLinks.length === 0) return null;
+
+          return (
+            <div key={group} className="space-y-1">
+              <Label>{TASK_RELATION_LABELS[group]}</Label>
+              {groupLinks.map(link => {
+                const other = projectTasks.find(t => t.id === getLinkRelation(link, task.id).otherId);
+                return (
+                  <div key={link.id} className="flex items-center gap-2 text-sm">
+                    <span className={other && isDone(other.status) ? "line-through text-muted-foreground" : ""}>
+                      {other?.title || "Unknown task"}
+                    </span>
+                    {other && (
+                      <Badge variant="outline" className="text-xs">
+                        {getStatus(other.status).name}
+                      </Badge>
+                    )}
+                    {canEdit && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        className="ml-auto h-7 px-2 text-red-500 hover:text-red-700"
+                        onClick={() => handleRemoveLink(link.id)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleAddLink} className="flex gap-2">
+          <Select value={relation} onValueChange={(value) => setRelation(value as TaskRelation)}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TASK_RELATION_LABELS) as TaskRelation[]).map(option => (
+                <SelectItem key={option} value={option}>
+                  {TASK_RELATION_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={otherId} onValueChange={setOtherId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Select a task" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map(candidate => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" size="icon" variant="outline" disabled={!otherId}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TaskDependencies;
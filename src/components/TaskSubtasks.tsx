@@ -0,0 +1,249 @@
+import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { ChecklistItem, Task } from "@/types/task";
+import { createTask, fetchSubtasks, updateTask, updateTaskChecklist } from "@/lib/supabase/tasks";
+import { getChecklistProgress } from "@/lib/subtasks";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { usePermissions } from "@/hooks/use-permissions";
+
+interface TaskSubtasksProps {
+  task: Task;
+  userId: string;
+  checklist: ChecklistItem[];
+  onChecklistChange: (checklist: ChecklistItem[]) => void;
+}
+
+const TaskSubtasks = ({ task, userId, checklist, onChecklistChange }: TaskSubtasksProps) => {
+  const [subtasks, setSubtasks] = useState<Task[]>([]);
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState("");
+  const [newItemText, setNewItemText] = useState("");
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const { statuses, doneStatuses, getStatus, isDone } = useWorkflow();
+  const { canEdit } = usePermissions();
+
+  // Subtasks cannot have subtasks of their own
+  const canHaveSubtasks = !task.parentId;
+
+  useEffect(() => {
+    if (!canHaveSubtasks) {
+      setLoading(false);
+      return;
+    }
+
+    const loadSubtasks = async () => {
+      try {
+        setLoading(true);
+        setSubtasks(await fetchSubtasks(task.id));
+      } catch (error) {
+        console.error("Failed to fetch subtasks:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load subtasks",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSubtasks();
+  }, [task.id, canHaveSubtasks, toast]);
+
+  const handleAddSubtask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSubtaskTitle.trim()) return;
+
+    try {
+      // Subtasks are planned together with their parent
+      const subtask = await createTask({
+        title: newSubtaskTitle.trim(),
+        description: "",
+        priority: task.priority,
+        points: 0,
+        status: statuses[0].key,
+        assignees: [],
+        projectId: task.projectId,
+        sprintId: task.sprintId,
+        parentId: task.id,
+        user_id: userId,
+      });
+      setSubtasks(prev => [...prev, subtask]);
+      setNewSubtaskTitle("");
+    } catch (error) {
+      console.error("Failed to create subtask:", error);
+      const wipLimitReached = error?.hint === "wip_limit";
+      toast({
+        title: wipLimitReached ? "WIP limit reached" : "Error",
+        description: wipLimitReached ? error.message : "Failed to create subtask",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleSubtask = async (subtask: Task, done: boolean) => {
+    // Ticking a subtask moves it to the first done status, unticking back to the start
+    const updatedSubtask: Task = { ...subtask, status: done ? doneStatuses[0] : statuses[0].key };
+
+    try {
+      setSubtasks(prev => prev.map(t => (t.id === subtask.id ? updatedSubtask : t)));
+      await updateTask({ ...updatedSubtask, user_id: userId });
+    } catch (error) {
+      console.error("Failed to update subtask:", error);
+      setSubtasks(prev => prev.map(t => (t.id === subtask.id ? subtask : t)));
+      const wipLimitReached = error?.hint === "wip_limit";
+      toast({
+        title: wipLimitReached ? "WIP limit reached" : "Error",
+        description: wipLimitReached ? error.message : "Failed to update subtask",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const saveChecklist = async (items: ChecklistItem[]) => {
+    const previous = checklist;
+
+    try {
+      onChecklistChange(items);
+      await updateTaskChecklist(task.id, items);
+    } catch (error) {
+      console.error("Failed to save checklist:", error);
+      onChecklistChange(previous);
+      toast({
+        title: "Error",
+        description: "Failed to save checklist",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAddItem = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItemText.trim()) return;
+
+    saveChecklist([...checklist, { id: crypto.randomUUID(), text: newItemText.trim(), done: false }]);
+    setNewItemText("");
+  };
+
+  const doneSubtasks = subtasks.filter(subtask => isDone(subtask.status)).length;
+  const checklistProgress = getChecklistProgress(checklist);
+
+  return (
+    <div className="space-y-6">
+      {canHaveSubtasks && (
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <Label>Subtasks</Label>
+            {subtasks.length > 0 && (
+              <span className="text-xs text-muted-foreground">{doneSubtasks} of {subtasks.length} done</span>
+            )}
+          </div>
+          {subtasks.length > 0 && <Progress value={(doneSubtasks / subtasks.length) * 100} />}
+
+          {loading ? (
+            <div className="flex justify-center py-2">
+              <div className="animate-spin h-5 w-5 border-2 border-primary border-t-transparent rounded-full"></div>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              {subtasks.map(subtask => (
+                <div key={subtask.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    id={`subtask-${subtask.id}`}
+                    checked={isDone(subtask.status)}
+                    disabled={!canEdit}
+                    onCheckedChange={checked => handleToggleSubtask(subtask, checked === true)}
+                  />
+                  <label
+                    htmlFor={`subtask-${subtask.id}`}
+                    className={isDone(subtask.status) ? "line-through text-muted-foreground" : ""}
+                  >
+                    {subtask.title}
+                  </label>
+                  <span className="ml-auto text-xs text-muted-foreground">{getStatus(subtask.status).name}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canEdit && (
+            <form onSubmit={handleAddSubtask} className="flex gap-2">
+              <Input
+                value={newSubtaskTitle}
+                onChange={(e) => setNewSubtaskTitle(e.target.value)}
+                placeholder="Add a subtask"
+              />
+              <Button type="submit" size="icon" variant="outline" disabled={!newSubtaskTitle.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </form>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <Label>Checklist</Label>
+          {checklistProgress.total > 0 && (
+            <span className="text-xs text-muted-foreground">
+              {checklistProgress.done} of {checklistProgress.total} done
+            </span>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          {checklist.map(item => (
+            <div key={item.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                id={`checklist-${item.id}`}
+                checked={item.done}
+                disabled={!canEdit}
+                onCheckedChange={checked =>
+                  saveChecklist(checklist.map(i => (i.id === item.id ? { ...i, done: checked === true } : i)))
+                }
+              />
+              <label
+                htmlFor={`checklist-${item.id}`}
+                className={item.done ? "line-through text-muted-foreground" : ""}
+              >
+                {item.text}
+              </label>
+              {canEdit && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="ml-auto h-7 px-2 text-red-500 hover:text-red-700"
+                  onClick={() => saveChecklist(checklist.filter(i => i.id !== item.id))}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {canEdit && (
+          <form onSubmit={handleAddItem} className="flex gap-2">
+            <Input
+              value={newItemText}
+              onChange={(e) => setNewItemText(e.target.value)}
+              placeholder="Add an item"
+            />
+            <Button type="submit" size="icon" variant="outline" disabled={!newItemText.trim()}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TaskSubtasks;
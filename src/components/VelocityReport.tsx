@@ -0,0 +1,125 @@
+import { useMemo, useState } from "react";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Epic } from "@/types/epic";
+import { Sprint } from "@/types/sprint";
+import { Task } from "@/types/task";
+import { buildVelocityData, forecastSprints, getVelocityStats, VELOCITY_WINDOW } from "@/lib/velocity";
+import { formatCapacity } from "@/lib/capacity";
+import { useWorkflow } from "@/hooks/use-workflow";
+
+// Value of the forecast option that covers the whole backlog
+const ALL_WORK = "all";
+
+interface VelocityReportProps {
+  tasks: Task[];
+  sprints: Sprint[];
+  epics: Epic[];
+}
+
+const velocityConfig = {
+  committed: { label: "Committed", color: "hsl(var(--muted-foreground))" },
+  completed: { label: "Completed", color: "hsl(var(--primary))" },
+  average: { label: `Average of last ${VELOCITY_WINDOW}`, color: "hsl(142 71% 45%)" },
+} satisfies ChartConfig;
+
+const VelocityReport = ({ tasks, sprints, epics }: VelocityReportProps) => {
+  const [scope, setScope] = useState(ALL_WORK);
+  const { doneStatuses } = useWorkflow();
+
+  const data = useMemo(() => buildVelocityData(sprints, tasks, doneStatuses), [sprints, tasks, doneStatuses]);
+  const stats = getVelocityStats(data);
+
+  const remainingPoints = tasks
+    .filter(task => !doneStatuses.includes(task.status) && (scope === ALL_WORK || task.epicId === scope))
+    .reduce((sum, task) => sum + (task.points || 0), 0);
+  const forecast = forecastSprints(remainingPoints, stats);
+
+  const formatRange = () => {
+    if (!forecast) return "No finished sprints to forecast with yet";
+    if (forecast.likely === 0) return "Nothing left to do";
+    if (forecast.pessimistic === null) return `${forecast.optimistic}+ sprints`;
+    if (forecast.optimistic === forecast.pessimistic) {
+      return `${forecast.likely} ${forecast.likely === 1 ? "sprint" : "sprints"}`;
+    }
+    return `${forecast.optimistic}–${forecast.pessimistic} sprints`;
+  };
+
+  return (
+    <div className="grid gap-4 md:grid-cols-3">
+      <Card className="md:col-span-2">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">Velocity</CardTitle>
+          <CardDescription>Committed and completed points of every finished sprint</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">
+              Complete a sprint to start measuring velocity.
+            </p>
+          ) : (
+            <ChartContainer config={velocityConfig} className="h-[250px] w-full aspect-auto">
+              <ComposedChart data={data}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="committed" fill="var(--color-committed)" radius={4} />
+                <Bar dataKey="completed" fill="var(--color-completed)" radius={4} />
+                <Line dataKey="average" stroke="var(--color-average)" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">Forecast</CardTitle>
+          <CardDescription>
+            Based on the last {stats.sampleSize || VELOCITY_WINDOW} finished {stats.sampleSize === 1 ? "sprint" : "sprints"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div>
+              <p className="text-muted-foreground">Average</p>
+              <p className="text-xl font-semibold">{formatCapacity(stats.average)} pts</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Deviation</p>
+              <p className="text-xl font-semibold">±{formatCapacity(stats.standardDeviation)} pts</p>
+            </div>
+          </div>
+
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger aria-label="Work to forecast">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_WORK}>Remaining backlog</SelectItem>
+              {epics.map(epic => (
+                <SelectItem key={epic.id} value={epic.id}>{epic.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div>
+            <p className="text-sm text-muted-foreground">{formatCapacity(remainingPoints)} points left</p>
+            <p className="text-2xl font-bold">{formatRange()}</p>
+            {forecast && forecast.likely > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Most likely {forecast.likely} at the average pace
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VelocityReport;
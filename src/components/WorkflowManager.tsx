@@ -0,0 +1,375 @@
+import { useEffect, useState } from "react";
+import { Grip, Plus, Trash2 } from "lucide-react";
+import { DndContext, DragEndEvent, closestCenter, useSensor, useSensors, PointerSensor } from "@dnd-kit/core";
+import { SortableContext, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { WipLimitMode, WorkflowStatus } from "@/types/workflow";
+import {
+  createWorkflowStatus,
+  fetchWorkflowStatuses,
+  removeWorkflowStatus,
+  updateWorkflowStatus,
+} from "@/lib/supabase/workflow";
+import { fetchProject, updateWipLimitMode } from "@/lib/supabase/projects";
+import { rankBetween, rankForMove, sortByRank } from "@/lib/rank";
+import { STATUS_COLORS, toStatusKey } from "@/lib/workflow";
+import { useToast } from "@/hooks/use-toast";
+import LabelBadge from "./LabelBadge";
+import ColorSwatches from "./ColorSwatches";
+
+interface WorkflowManagerProps {
+  projectId: string;
+}
+
+// Status row that can be dragged by its handle to reorder the workflow
+const SortableStatusRow = ({ id, children }: { id: string; children: React.ReactNode }) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <div ref={setNodeRef} style={style} className="flex flex-wrap items-center gap-3 p-2 border rounded-md bg-background">
+      <button {...attributes} {...listeners} className="touch-none" aria-label="Drag to reorder">
+        <Grip className="w-4 h-4 text-muted-foreground" />
+      </button>
+      {children}
+    </div>
+  );
+};
+
+const WorkflowManager = ({ projectId }: WorkflowManagerProps) => {
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({}); // Unsaved renames by status ID
+  const [limits, setLimits] = useState<Record<string, string>>({}); // Unsaved WIP limits by status ID
+  const [wipLimitMode, setWipLimitMode] = useState<WipLimitMode>("soft");
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState(STATUS_COLORS[0]);
+  const [removing, setRemoving] = useState<WorkflowStatus | null>(null);
+  const [replacementKey, setReplacementKey] = useState("");
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const sensors = useSensors(useSensor(PointerSensor));
+
+  useEffect(() => {
+    const loadStatuses = async () => {
+      try {
+        setLoading(true);
+        const [projectStatuses, project] = await Promise.all([
+          fetchWorkflowStatuses(projectId),
+          fetchProject(projectId),
+        ]);
+        setStatuses(projectStatuses);
+        setWipLimitMode(project?.wip_limit_mode || "soft");
+      } catch (error) {
+        console.error("Failed to fetch workflow:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load the workflow",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadStatuses();
+  }, [projectId, toast]);
+
+  const doneCount = statuses.filter(status => status.isDone).length;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    // New statuses go right before the first done status, where work usually still happens
+    const firstDone = statuses.findIndex(status => status.isDone);
+    const index = firstDone === -1 ? statuses.length : firstDone;
+
+    try {
+      const status = await createWorkflowStatus({
+        projectId,
+        key: toStatusKey(newName, statuses),
+        name: newName.trim(),
+        color: newColor,
+        isDone: false,
+        rank: rankBetween(statuses[index - 1]?.rank, statuses[index]?.rank),
+      });
+      setStatuses(prev => sortByRank([...prev, status]));
+      setNewName("");
+    } catch (error) {
+      console.error("Failed to create status:", error);
+      toast({
+        title: "Error",
+        description: "Failed to add status",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleUpdate = async (status: WorkflowStatus) => {
+    const previous = statuses.find(s => s.id === status.id);
+    const isUnchanged = previous
+      && previous.name === status.name
+      && previous.color === status.color
+      && previous.isDone === status.isDone
+      && previous.rank === status.rank
+      && previous.wipLimit === status.wipLimit;
+
+    try {
+      if (!previous || !status.name || isUnchanged) return;
+      setStatuses(prev => sortByRank(prev.map(s => (s.id === status.id ? status : s))));
+      await updateWorkflowStatus(status);
+    } catch (error) {
+      console.error("Failed to update status:", error);
+      setStatuses(prev => sortByRank(prev.map(s => (s.id === status.id ? previous : s))));
+      toast({
+        title: "Error",
+        description: "Failed to update status",
+        variant: "destructive",
+      });
+    } finally {
+      const clearDraft = (prev: Record<string, string>) => {
+        const next = { ...prev };
+        delete next[status.id];
+        return next;
+      };
+      setNames(clearDraft);
+      setLimits(clearDraft);
+    }
+  };
+
+  const handleLimitBlur = (status: WorkflowStatus) => {
+    const value = limits[status.id].trim();
+    const limit = Number(value);
+
+    if (value && (!Number.isInteger(limit) || limit < 1)) {
+      toast({
+        title: "Error",
+        description: "A WIP limit has to be a whole number of at least 1",
+        variant: "destructive",
+      });
+      setLimits(prev => ({ ...prev, [status.id]: status.wipLimit?.toString() || "" }));
+      return;
+    }
+
+    handleUpdate({ ...status, wipLimit: value ? limit : undefined });
+  };
+
+  const handleModeChange = async (mode: WipLimitMode) => {
+    const previous = wipLimitMode;
+
+    try {
+      setWipLimitMode(mode);
+      await updateWipLimitMode(projectId, mode);
+    } catch (error) {
+      console.error("Failed to update WIP limit mode:", error);
+      setWipLimitMode(previous);
+      toast({
+        title: "Error",
+        description: "Failed to update WIP limit enforcement",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleDone = (status: WorkflowStatus, isDone: boolean) => {
+    if (!isDone && doneCount === 1) {
+      toast({
+        title: "Error",
+        description: "At least one status has to count as done",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    handleUpdate({ ...status, isDone });
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over) return;
+
+    const status = statuses.find(s => s.id === active.id);
+    const newRank = rankForMove(statuses, active.id as string, over.id as string);
+    if (!status || !newRank) return;
+
+    handleUpdate({ ...status, rank: newRank });
+  };
+
+  const openRemoveDialog = (status: WorkflowStatus) => {
+    if (status.isDone && doneCount === 1) {
+      toast({
+        title: "Error",
+        description: "The only done status cannot be removed",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRemoving(status);
+    setReplacementKey(statuses.find(s => s.id !== status.id)?.key || "");
+  };
+
+  const handleRemove = async () => {
+    if (!removing || !replacementKey) return;
+    const status = removing;
+    setRemoving(null);
+
+    try {
+      await removeWorkflowStatus(status.id, replacementKey);
+      setStatuses(prev => prev.filter(s => s.id !== status.id));
+    } catch (error) {
+      console.error("Failed to remove status:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove status",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Statuses are shown as board columns in this order. Tasks in a status that counts as done
+        are treated as finished in progress, charts and sprint reports.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Label htmlFor="wip-limit-mode">When a move goes over a WIP limit</Label>
+        <Select value={wipLimitMode} onValueChange={(value) => handleModeChange(value as WipLimitMode)}>
+          <SelectTrigger id="wip-limit-mode" className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="soft">Warn, but allow the move</SelectItem>
+            <SelectItem value="hard">Block the move</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <DndContext collisionDetection={closestCenter} onDragEnd={handleDragEnd} sensors={sensors}>
+        <SortableContext items={statuses.map(status => status.id)} strategy={verticalListSortingStrategy}>
+          <div className="space-y-2">
+            {statuses.map(status => (
+              <SortableStatusRow key={status.id} id={status.id}>
+                <LabelBadge label={{ ...status, name: names[status.id] ?? status.name }} className="w-28 justify-center" />
+                <Input
+                  className="w-48"
+                  value={names[status.id] ?? status.name}
+                  onChange={(e) => setNames(prev => ({ ...prev, [status.id]: e.target.value }))}
+                  onBlur={() => names[status.id] !== undefined && handleUpdate({ ...status, name: names[status.id].trim() })}
+                  onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                  aria-label={`Name of ${status.name}`}
+                />
+                <ColorSwatches colors={STATUS_COLORS} value={status.color} onChange={(color) => handleUpdate({ ...status, color })} />
+                <Input
+                  type="number"
+                  min={1}
+                  className="w-24"
+                  value={limits[status.id] ?? status.wipLimit?.toString() ?? ""}
+                  onChange={(e) => setLimits(prev => ({ ...prev, [status.id]: e.target.value }))}
+                  onBlur={() => limits[status.id] !== undefined && handleLimitBlur(status)}
+                  onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                  placeholder="No limit"
+                  aria-label={`WIP limit of ${status.name}`}
+                />
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`done-${status.id}`}
+                    checked={status.isDone}
+                    onCheckedChange={(checked) => handleToggleDone(status, checked)}
+                  />
+                  <Label htmlFor={`done-${status.id}`} className="text-sm font-normal">Counts as done</Label>
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="ml-auto text-red-500 hover:text-red-700"
+                  onClick={() => openRemoveDialog(status)}
+                  disabled={statuses.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </SortableStatusRow>
+            ))}
+          </div>
+        </SortableContext>
+      </DndContext>
+
+      <form onSubmit={handleCreate} className="space-y-2">
+        <Label htmlFor="new-status">New status</Label>
+        <div className="flex flex-wrap items-center gap-3">
+          <Input
+            id="new-status"
+            className="w-48"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Status name"
+          />
+          <ColorSwatches colors={STATUS_COLORS} value={newColor} onChange={setNewColor} />
+          <Button type="submit" size="sm" disabled={!newName.trim()}>
+            <Plus className="mr-1 h-4 w-4" /> Add Status
+          </Button>
+        </div>
+      </form>
+
+      <AlertDialog open={!!removing} onOpenChange={(open) => !open && setRemoving(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove "{removing?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tasks in this status are moved to the status you choose below.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Select value={replacementKey} onValueChange={setReplacementKey}>
+            <SelectTrigger>
+              <SelectValue placeholder="Move tasks to" />
+            </SelectTrigger>
+            <SelectContent>
+              {statuses.filter(status => status.id !== removing?.id).map(status => (
+                <SelectItem key={status.key} value={status.key}>
+                  {status.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRemove} disabled={!replacementKey}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default WorkflowManager;
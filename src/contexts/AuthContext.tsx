@@ -6,8 +6,8 @@ import { Session } from '@supabase/supabase-js';
 import { useNavigate } from 'react-router-dom';
 
 interface AuthContextType extends AuthState {
-  login: (email: string, password: string) => Promise<void>;
-  signup: (email: string, password: string, name: string) => Promise<void>;
+  login: (email: string, password: string, redirectTo?: string) => Promise<void>;
+  signup: (email: string, password: string, name: string, redirectTo?: string) => Promise<void>;
   logout: () => Promise<void>;
 }
 
@@ -88,7 +88,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const login = async (email: string, password: string) => {
+  // redirectTo is where to go once signed in, such as the invite link that sent the user here
+  const login = async (email: string, password: string, redirectTo?: string) => {
     try {
       const { error } = await supabase.auth.signInWithPassword({ email, password });
       
@@ -101,7 +102,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       });
       
       // Redirect to projects page instead of dashboard
-      navigate('/');
+      navigate(redirectTo || '/');
     } catch (error) {
       console.error('Login failed', error);
       toast({
@@ -114,7 +115,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const signup = async (email: string, password: string, name: string) => {
+  const signup = async (email: string, password: string, name: string, redirectTo?: string) => {
     try {
       const { error, data } = await supabase.auth.signUp({ 
         email, 
@@ -122,7 +123,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         options: {
           data: {
             name,
-          }
+          },
+          // The confirmation email leads back to where the user was going
+          emailRedirectTo: redirectTo ? `${window.location.origin}${redirectTo}` : undefined,
         }
       });
       
@@ -137,7 +140,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       // If user is successfully created (and email confirmation is not required)
       if (data.user) {
         // Go directly to dashboard
-        navigate('/dashboard');
+        navigate(redirectTo || '/dashboard');
       } else {
         toast({
           title: 'Verification required',
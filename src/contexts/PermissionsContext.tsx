@@ -0,0 +1,54 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ProjectRole } from '@/types/user';
+import { fetchProjectRole } from '@/lib/supabase/project-members';
+import { getPermissions } from '@/lib/permissions';
+import { PermissionsContext } from '@/hooks/use-permissions';
+import { useAuth } from '@/contexts/AuthContext';
+import { useParams } from 'react-router-dom';
+
+// Without a projectId, the :projectId route parameter is used
+export const ProjectPermissionsProvider: React.FC<{ projectId?: string; children: React.ReactNode }> = ({ projectId: projectIdProp, children }) => {
+  const params = useParams<{ projectId: string }>();
+  const projectId = projectIdProp || params.projectId;
+  const { user } = useAuth();
+  const [role, setRole] = useState<ProjectRole | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    if (!user) {
+      setRole(null);
+      setLoading(false);
+      return;
+    }
+
+    // Sprints and tasks outside any project are only visible to their creator
+    if (!projectId) {
+      setRole('owner');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setRole(await fetchProjectRole(projectId, user.id));
+    } catch (error) {
+      // Fall back to read-only, the database rejects anything else anyway
+      console.error('Error loading project role:', error);
+      setRole(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, user]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const permissions = useMemo(() => getPermissions(role), [role]);
+
+  return (
+    <PermissionsContext.Provider value={{ ...permissions, loading, reload }}>
+      {children}
+    </PermissionsContext.Provider>
+  );
+};
@@ -0,0 +1,53 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { WipLimitMode, WorkflowStatus } from '@/types/workflow';
+import { fetchWorkflowStatuses } from '@/lib/supabase/workflow';
+import { fetchProject } from '@/lib/supabase/projects';
+import { DEFAULT_WORKFLOW, getDoneStatuses } from '@/lib/workflow';
+import { WorkflowContext } from '@/hooks/use-workflow';
+import { useToast } from '@/hooks/use-toast';
+
+export const WorkflowProvider: React.FC<{ projectId?: string; children: React.ReactNode }> = ({ projectId, children }) => {
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>(DEFAULT_WORKFLOW);
+  const [wipLimitMode, setWipLimitMode] = useState<WipLimitMode>('soft');
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const reload = useCallback(async () => {
+    if (!projectId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const [projectStatuses, project] = await Promise.all([
+        fetchWorkflowStatuses(projectId),
+        fetchProject(projectId),
+      ]);
+      // Projects created before workflows existed keep the default one
+      setStatuses(projectStatuses.length > 0 ? projectStatuses : DEFAULT_WORKFLOW);
+      setWipLimitMode(project?.wip_limit_mode || 'soft');
+    } catch (error) {
+      console.error('Error loading workflow:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the project workflow',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, toast]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const doneStatuses = useMemo(() => getDoneStatuses(statuses), [statuses]);
+
+  return (
+    <WorkflowContext.Provider value={{ statuses, doneStatuses, wipLimitMode, loading, reload }}>
+      {children}
+    </WorkflowContext.Provider>
+  );
+};
@@ -0,0 +1,55 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ProjectRole } from "@/types/user";
+import { fetchProjectMemberships } from "@/lib/supabase/project-members";
+import { fetchProfiles } from "@/lib/supabase/profiles";
+
+export interface DirectoryMember {
+  id: string;
+  name: string;
+  avatarUrl?: string;
+  role?: ProjectRole;
+  isFormer: boolean; // No longer in the project, but still referred to by tasks
+}
+
+// Cache key of a project's directory, to refresh it after membership changes
+export const memberDirectoryKey = (projectId?: string) => ["member-directory", projectId];
+
+const loadDirectory = async (projectId: string): Promise<DirectoryMember[]> => {
+  const memberships = await fetchProjectMemberships(projectId);
+  const profiles = await fetchProfiles(memberships.map(member => member.userId));
+  const byId = new Map(profiles.map(profile => [profile.id, profile]));
+
+  return memberships
+    .map(member => ({
+      id: member.userId,
+      name: byId.get(member.userId)?.name || "Unknown User",
+      avatarUrl: byId.get(member.userId)?.avatar_url || undefined,
+      role: member.role,
+      isFormer: false,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Returns the members of a project, loaded once per project and shared by every
+ * component asking for the same project
+ */
+export const useMemberDirectory = (projectId?: string) => {
+  const { data, isLoading } = useQuery({
+    queryKey: memberDirectoryKey(projectId),
+    queryFn: () => loadDirectory(projectId!),
+    enabled: !!projectId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const members = useMemo(() => data || [], [data]);
+  const byId = useMemo(() => new Map(members.map(member => [member.id, member])), [members]);
+
+  // Users who left the project are still shown on the tasks they worked on
+  const resolve = useCallback((userId: string): DirectoryMember => (
+    byId.get(userId) || { id: userId, name: "Former member", isFormer: true }
+  ), [byId]);
+
+  return { members, loading: isLoading, resolve };
+};
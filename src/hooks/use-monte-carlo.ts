@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { SimulationRequest, SimulationResult } from "@/lib/monte-carlo";
+
+/**
+ * Runs Monte Carlo simulations in a Web Worker. Starting a new simulation
+ * drops the one still running, so only the latest request produces a result.
+ */
+export const useMonteCarlo = () => {
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const worker = useRef<Worker | null>(null);
+
+  useEffect(() => () => worker.current?.terminate(), []);
+
+  const run = useCallback((request: SimulationRequest) => {
+    worker.current?.terminate();
+
+    const current = new Worker(new URL("../workers/monte-carlo.worker.ts", import.meta.url), { type: "module" });
+    worker.current = current;
+    setRunning(true);
+
+    const finish = () => {
+      current.terminate();
+      if (worker.current === current) worker.current = null;
+      setRunning(false);
+    };
+
+    current.onmessage = (event: MessageEvent<SimulationResult | null>) => {
+      setResult(event.data);
+      finish();
+    };
+    current.onerror = (error) => {
+      console.error("Monte Carlo simulation failed:", error);
+      setResult(null);
+      finish();
+    };
+    current.postMessage(request);
+  }, []);
+
+  return { run, result, running };
+};
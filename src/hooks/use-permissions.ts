@@ -0,0 +1,19 @@
+import { createContext, useContext } from "react";
+import { getPermissions, ProjectPermissions } from "@/lib/permissions";
+
+export interface PermissionsContextType extends ProjectPermissions {
+  loading: boolean;
+  reload: () => Promise<void>;
+}
+
+export const PermissionsContext = createContext<PermissionsContextType>({
+  ...getPermissions(null),
+  loading: false,
+  reload: async () => {},
+});
+
+/**
+ * Returns what the current user may do in the project provided by the nearest
+ * ProjectPermissionsProvider. Outside of one nothing is allowed.
+ */
+export const usePermissions = () => useContext(PermissionsContext);
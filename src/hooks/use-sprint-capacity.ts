@@ -0,0 +1,55 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { MemberAvailability, Sprint } from "@/types/sprint";
+import { Task } from "@/types/task";
+import { fetchProjectAvailability } from "@/lib/supabase/capacity";
+import { fetchProductBacklog } from "@/lib/supabase/tasks";
+import { buildSprintCapacity } from "@/lib/capacity";
+import { useMemberDirectory } from "@/hooks/use-member-directory";
+
+// Cache key of a project's planning data, to refresh it after tasks move or availability changes
+export const sprintCapacityKey = (projectId?: string) => ["sprint-capacity", projectId];
+
+interface PlannedChanges {
+  tasks?: Task[]; // Tasks as they would be after the change, replacing their saved versions
+  availability?: MemberAvailability[]; // Unsaved availability entries
+}
+
+const loadPlanningData = async (projectId: string) => {
+  const [tasks, availability] = await Promise.all([
+    fetchProductBacklog(projectId),
+    fetchProjectAvailability(projectId),
+  ]);
+  return { tasks, availability };
+};
+
+/**
+ * Returns the capacity of a project's sprints, worked out from the project's
+ * members, their availability and the tasks planned into each sprint
+ */
+export const useSprintCapacity = (projectId?: string) => {
+  const { members, loading: membersLoading } = useMemberDirectory(projectId);
+  const { data, isLoading } = useQuery({
+    queryKey: sprintCapacityKey(projectId),
+    queryFn: () => loadPlanningData(projectId!),
+    enabled: !!projectId,
+  });
+
+  const memberIds = useMemo(() => members.map(member => member.id), [members]);
+  const availability = useMemo(() => data?.availability || [], [data]);
+
+  // Planned changes are passed in to preview the capacity before saving them
+  const getCapacity = useCallback((sprint: Sprint, planned: PlannedChanges = {}) => {
+    const plannedTasks = planned.tasks || [];
+    const plannedAvailability = planned.availability || [];
+    const tasks = (data?.tasks || [])
+      .filter(task => !plannedTasks.some(plannedTask => plannedTask.id === task.id))
+      .concat(plannedTasks);
+    const entries = availability
+      .filter(entry => !plannedAvailability.some(p => p.sprintId === entry.sprintId && p.userId === entry.userId))
+      .concat(plannedAvailability);
+    return buildSprintCapacity(sprint, memberIds, entries, tasks);
+  }, [data, memberIds, availability]);
+
+  return { getCapacity, availability, loading: isLoading || membersLoading };
+};
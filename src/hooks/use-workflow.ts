@@ -0,0 +1,34 @@
+import { createContext, useContext } from "react";
+import { TaskStatus } from "@/types/task";
+import { WipLimitMode, WorkflowStatus } from "@/types/workflow";
+import { DEFAULT_WORKFLOW, getDoneStatuses, resolveStatus } from "@/lib/workflow";
+
+export interface WorkflowContextType {
+  statuses: WorkflowStatus[]; // In workflow order
+  doneStatuses: TaskStatus[];
+  wipLimitMode: WipLimitMode;
+  loading: boolean;
+  reload: () => Promise<void>;
+}
+
+export const WorkflowContext = createContext<WorkflowContextType>({
+  statuses: DEFAULT_WORKFLOW,
+  doneStatuses: getDoneStatuses(DEFAULT_WORKFLOW),
+  wipLimitMode: "soft",
+  loading: false,
+  reload: async () => {},
+});
+
+/**
+ * Returns the workflow of the project provided by the nearest WorkflowProvider,
+ * or the default workflow outside of one
+ */
+export const useWorkflow = () => {
+  const workflow = useContext(WorkflowContext);
+
+  return {
+    ...workflow,
+    getStatus: (status: TaskStatus) => resolveStatus(status, workflow.statuses),
+    isDone: (status: TaskStatus) => workflow.doneStatuses.includes(status),
+  };
+};
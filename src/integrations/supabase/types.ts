@@ -9,6 +9,148 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      epics: {
+        Row: {
+          color: string
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          project_id: string
+          user_id: string | null
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          project_id: string
+          user_id?: string | null
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          project_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "epics_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "epics_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      labels: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          name: string
+          project_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          name: string
+          project_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "labels_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          actor_id: string | null
+          comment_id: string | null
+          created_at: string
+          id: string
+          project_id: string | null
+          read_at: string | null
+          task_id: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          project_id?: string | null
+          read_at?: string | null
+          task_id?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          project_id?: string | null
+          read_at?: string | null
+          task_id?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "task_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -33,20 +175,135 @@ export type Database = {
         }
         Relationships: []
       }
+      project_invite_uses: {
+        Row: {
+          id: number
+          invite_id: string
+          joined_at: string
+          project_id: string
+          role: string
+          user_id: string | null
+        }
+        Insert: {
+          id?: never
+          invite_id: string
+          joined_at?: string
+          project_id: string
+          role: string
+          user_id?: string | null
+        }
+        Update: {
+          id?: never
+          invite_id?: string
+          joined_at?: string
+          project_id?: string
+          role?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_invite_uses_invite_id_fkey"
+            columns: ["invite_id"]
+            isOneToOne: false
+            referencedRelation: "project_invites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_invite_uses_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_invite_uses_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_invites: {
+        Row: {
+          code: string | null
+          created_at: string
+          created_by: string | null
+          email: string | null
+          expires_at: string | null
+          id: string
+          max_uses: number | null
+          project_id: string
+          revoked_at: string | null
+          role: string
+          token: string | null
+          use_count: number
+        }
+        Insert: {
+          code?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          expires_at?: string | null
+          id?: string
+          max_uses?: number | null
+          project_id: string
+          revoked_at?: string | null
+          role?: string
+          token?: string | null
+          use_count?: number
+        }
+        Update: {
+          code?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          expires_at?: string | null
+          id?: string
+          max_uses?: number | null
+          project_id?: string
+          revoked_at?: string | null
+          role?: string
+          token?: string | null
+          use_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_invites_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_invites_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_members: {
         Row: {
+          created_at: string
           id: number
           project_id: string
+          role: string
           user_id: string
         }
         Insert: {
+          created_at?: string
           id?: never
           project_id: string
+          role?: string
           user_id: string
         }
         Update: {
+          created_at?: string
           id?: never
           project_id?: string
+          role?: string
           user_id?: string
         }
         Relationships: [
@@ -61,62 +318,118 @@ export type Database = {
       }
       projects: {
         Row: {
-          code: string
           created_at: string
           description: string | null
           id: string
           members: string[] | null
           name: string
           user_id: string
+          wip_limit_mode: string
         }
         Insert: {
-          code: string
           created_at?: string
           description?: string | null
           id?: string
           members?: string[] | null
           name: string
           user_id: string
+          wip_limit_mode?: string
         }
         Update: {
-          code?: string
           created_at?: string
           description?: string | null
           id?: string
           members?: string[] | null
           name?: string
           user_id?: string
+          wip_limit_mode?: string
         }
         Relationships: []
       }
+      sprint_capacity: {
+        Row: {
+          days_off: number
+          focus_factor: number
+          id: string
+          sprint_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          days_off?: number
+          focus_factor?: number
+          id?: string
+          sprint_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          days_off?: number
+          focus_factor?: number
+          id?: string
+          sprint_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sprint_capacity_sprint_id_fkey"
+            columns: ["sprint_id"]
+            isOneToOne: false
+            referencedRelation: "sprints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sprints: {
         Row: {
+          committed_points: number | null
+          completed_at: string | null
+          completed_points: number | null
           created_at: string
           end_date: string | null
+          hours_per_day: number
           id: string
           name: string
+          points_per_day: number
           project_id: string | null
           start_date: string | null
+          started_at: string | null
+          status: string
           tasks: string[] | null
           user_id: string
         }
         Insert: {
+          committed_points?: number | null
+          completed_at?: string | null
+          completed_points?: number | null
           created_at?: string
           end_date?: string | null
+          hours_per_day?: number
           id?: string
           name: string
+          points_per_day?: number
           project_id?: string | null
           start_date?: string | null
+          started_at?: string | null
+          status?: string
           tasks?: string[] | null
           user_id: string
         }
         Update: {
+          committed_points?: number | null
+          completed_at?: string | null
+          completed_points?: number | null
           created_at?: string
           end_date?: string | null
+          hours_per_day?: number
           id?: string
           name?: string
+          points_per_day?: number
           project_id?: string | null
           start_date?: string | null
+          started_at?: string | null
+          status?: string
           tasks?: string[] | null
           user_id?: string
         }
@@ -130,47 +443,298 @@ export type Database = {
           },
         ]
       }
+      task_comments: {
+        Row: {
+          author_id: string
+          body: string
+          created_at: string
+          id: string
+          mentions: string[]
+          parent_id: string | null
+          project_id: string | null
+          task_id: string
+          updated_at: string
+        }
+        Insert: {
+          author_id?: string
+          body: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          parent_id?: string | null
+          project_id?: string | null
+          task_id: string
+          updated_at?: string
+        }
+        Update: {
+          author_id?: string
+          body?: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          parent_id?: string | null
+          project_id?: string | null
+          task_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "task_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_comments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_events: {
+        Row: {
+          actor_id: string | null
+          changes: Json
+          created_at: string
+          id: number
+          project_id: string | null
+          task_id: string
+          type: string
+        }
+        Insert: {
+          actor_id?: string | null
+          changes?: Json
+          created_at?: string
+          id?: never
+          project_id?: string | null
+          task_id: string
+          type: string
+        }
+        Update: {
+          actor_id?: string | null
+          changes?: Json
+          created_at?: string
+          id?: never
+          project_id?: string | null
+          task_id?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_events_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_history: {
+        Row: {
+          deleted: boolean
+          estimate: number | null
+          id: number
+          project_id: string | null
+          recorded_at: string
+          sprint_id: string | null
+          status: string
+          task_id: string
+        }
+        Insert: {
+          deleted?: boolean
+          estimate?: number | null
+          id?: never
+          project_id?: string | null
+          recorded_at?: string
+          sprint_id?: string | null
+          status: string
+          task_id: string
+        }
+        Update: {
+          deleted?: boolean
+          estimate?: number | null
+          id?: never
+          project_id?: string | null
+          recorded_at?: string
+          sprint_id?: string | null
+          status?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_history_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_labels: {
+        Row: {
+          label_id: string
+          task_id: string
+        }
+        Insert: {
+          label_id: string
+          task_id: string
+        }
+        Update: {
+          label_id?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_labels_label_id_fkey"
+            columns: ["label_id"]
+            isOneToOne: false
+            referencedRelation: "labels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_labels_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_links: {
+        Row: {
+          created_at: string
+          id: string
+          project_id: string | null
+          source_id: string
+          target_id: string
+          type: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          project_id?: string | null
+          source_id: string
+          target_id: string
+          type: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          project_id?: string | null
+          source_id?: string
+          target_id?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_links_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_links_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_links_target_id_fkey"
+            columns: ["target_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
           assignee_ids: string[] | null
+          checklist: Json
+          completed_at: string | null
           created_at: string
           description: string | null
+          epic_id: string | null
           estimate: number | null
           id: string
+          parent_id: string | null
           priority: string
           project_id: string | null
+          rank: string | null
           sprint_id: string | null
+          started_at: string | null
           status: string
           title: string
+          type: string
           user_id: string
         }
         Insert: {
           assignee_ids?: string[] | null
+          checklist?: Json
+          completed_at?: string | null
           created_at?: string
           description?: string | null
+          epic_id?: string | null
           estimate?: number | null
           id?: string
+          parent_id?: string | null
           priority?: string
           project_id?: string | null
+          rank?: string | null
           sprint_id?: string | null
+          started_at?: string | null
           status?: string
           title: string
+          type?: string
           user_id: string
         }
         Update: {
           assignee_ids?: string[] | null
+          checklist?: Json
+          completed_at?: string | null
           created_at?: string
           description?: string | null
+          epic_id?: string | null
           estimate?: number | null
           id?: string
+          parent_id?: string | null
           priority?: string
           project_id?: string | null
+          rank?: string | null
           sprint_id?: string | null
+          started_at?: string | null
           status?: string
           title?: string
+          type?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "tasks_epic_id_fkey"
+            columns: ["epic_id"]
+            isOneToOne: false
+            referencedRelation: "epics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_project_id_fkey"
             columns: ["project_id"]
@@ -187,12 +751,382 @@ export type Database = {
           },
         ]
       }
+      wip_breaches: {
+        Row: {
+          created_at: string
+          id: string
+          project_id: string
+          rejected: boolean
+          sprint_id: string
+          status: string
+          task_count: number
+          task_id: string | null
+          user_id: string | null
+          wip_limit: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          project_id: string
+          rejected?: boolean
+          sprint_id: string
+          status: string
+          task_count: number
+          task_id?: string | null
+          user_id?: string | null
+          wip_limit: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          project_id?: string
+          rejected?: boolean
+          sprint_id?: string
+          status?: string
+          task_count?: number
+          task_id?: string | null
+          user_id?: string | null
+          wip_limit?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wip_breaches_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wip_breaches_sprint_id_fkey"
+            columns: ["sprint_id"]
+            isOneToOne: false
+            referencedRelation: "sprints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wip_breaches_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wip_breaches_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_statuses: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          is_done: boolean
+          key: string
+          name: string
+          project_id: string
+          rank: string
+          wip_limit: number | null
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          is_done?: boolean
+          key: string
+          name: string
+          project_id: string
+          rank: string
+          wip_limit?: number | null
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          is_done?: boolean
+          key?: string
+          name?: string
+          project_id?: string
+          rank?: string
+          wip_limit?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_statuses_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      archive_id_map: {
+        Args: {
+          p_rows: Json
+          p_key?: string
+        }
+        Returns: Json
+      }
+      complete_sprint: {
+        Args: {
+          p_destination_id: string
+          p_sprint_id: string
+        }
+        Returns: {
+          committed_points: number | null
+          completed_at: string | null
+          completed_points: number | null
+          created_at: string
+          end_date: string | null
+          hours_per_day: number
+          id: string
+          name: string
+          points_per_day: number
+          project_id: string | null
+          start_date: string | null
+          started_at: string | null
+          status: string
+          tasks: string[] | null
+          user_id: string
+        }
+      }
+      create_email_invite: {
+        Args: {
+          p_email: string
+          p_project_id: string
+          p_role: string
+        }
+        Returns: {
+          code: string | null
+          created_at: string
+          created_by: string | null
+          email: string | null
+          expires_at: string | null
+          id: string
+          max_uses: number | null
+          project_id: string
+          revoked_at: string | null
+          role: string
+          token: string | null
+          use_count: number
+        }
+      }
+      create_project_invite: {
+        Args: {
+          p_expires_at: string
+          p_max_uses: number
+          p_project_id: string
+          p_role: string
+        }
+        Returns: {
+          code: string | null
+          created_at: string
+          created_by: string | null
+          email: string | null
+          expires_at: string | null
+          id: string
+          max_uses: number | null
+          project_id: string
+          revoked_at: string | null
+          role: string
+          token: string | null
+          use_count: number
+        }
+      }
+      export_project_archive: {
+        Args: {
+          p_project_id: string
+        }
+        Returns: Json
+      }
+      generate_invite_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_invite_details: {
+        Args: {
+          p_token: string
+        }
+        Returns: {
+          email: string | null
+          expires_at: string | null
+          project_name: string
+          role: string
+          usable: boolean
+        }[]
+      }
+      get_project_member_emails: {
+        Args: {
+          p_project_id: string
+        }
+        Returns: {
+          email: string
+          user_id: string
+        }[]
+      }
+      has_project_role: {
+        Args: {
+          p_project_id: string
+          p_role: string
+        }
+        Returns: boolean
+      }
+      import_project_plan: {
+        Args: {
+          p_plan: Json
+          p_project_id: string
+        }
+        Returns: Json
+      }
+      join_project: {
+        Args: {
+          p_code: string
+        }
+        Returns: {
+          created_at: string
+          description: string | null
+          id: string
+          members: string[] | null
+          name: string
+          user_id: string
+          wip_limit_mode: string
+        }
+      }
+      join_project_by_token: {
+        Args: {
+          p_token: string
+        }
+        Returns: {
+          created_at: string
+          description: string | null
+          id: string
+          members: string[] | null
+          name: string
+          user_id: string
+          wip_limit_mode: string
+        }
+      }
+      project_role_rank: {
+        Args: {
+          p_role: string
+        }
+        Returns: number
+      }
+      redeem_project_invite: {
+        Args: {
+          p_invite_id: string
+        }
+        Returns: {
+          created_at: string
+          description: string | null
+          id: string
+          members: string[] | null
+          name: string
+          user_id: string
+          wip_limit_mode: string
+        }
+      }
+      remove_project_member: {
+        Args: {
+          p_project_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      remove_workflow_status: {
+        Args: {
+          p_replacement_key: string
+          p_status_id: string
+        }
+        Returns: undefined
+      }
+      restore_project_archive: {
+        Args: {
+          p_archive: Json
+        }
+        Returns: Json
+      }
+      revoke_project_invite: {
+        Args: {
+          p_invite_id: string
+        }
+        Returns: {
+          code: string | null
+          created_at: string
+          created_by: string | null
+          email: string | null
+          expires_at: string | null
+          id: string
+          max_uses: number | null
+          project_id: string
+          revoked_at: string | null
+          role: string
+          token: string | null
+          use_count: number
+        }
+      }
+      rotate_project_invite: {
+        Args: {
+          p_invite_id: string
+        }
+        Returns: {
+          code: string | null
+          created_at: string
+          created_by: string | null
+          email: string | null
+          expires_at: string | null
+          id: string
+          max_uses: number | null
+          project_id: string
+          revoked_at: string | null
+          role: string
+          token: string | null
+          use_count: number
+        }
+      }
+      seed_workflow_statuses: {
+        Args: {
+          p_project_id: string
+        }
+        Returns: undefined
+      }
+      sprint_task_history: {
+        Args: {
+          p_sprint_id: string
+        }
+        Returns: {
+          deleted: boolean
+          estimate: number | null
+          id: number
+          project_id: string | null
+          recorded_at: string
+          sprint_id: string | null
+          status: string
+          task_id: string
+        }[]
+      }
+      task_status_phase: {
+        Args: {
+          p_project_id: string
+          p_status: string
+        }
+        Returns: string
+      }
+      transfer_project_ownership: {
+        Args: {
+          p_new_owner_id: string
+          p_project_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,170 @@
+import { Task } from "@/types/task";
+import { WorkflowStatus } from "@/types/workflow";
+
+// Largest file imported in one go, to keep the batch insert to a single request
+export const MAX_IMPORT_ROWS = 1000;
+
+export type ImportField = "title" | "description" | "priority" | "estimate" | "status" | "assignees";
+
+export const IMPORT_FIELDS: { value: ImportField; label: string; required?: boolean }[] = [
+  { value: "title", label: "Title", required: true },
+  { value: "description", label: "Description" },
+  { value: "priority", label: "Priority" },
+  { value: "estimate", label: "Estimate" },
+  { value: "status", label: "Status" },
+  { value: "assignees", label: "Assignees" },
+];
+
+// Column index for each field; fields without a column are left out
+export type ImportMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportMember {
+  id: string;
+  name: string;
+  email?: string;
+}
+
+export interface ImportRow {
+  line: number; // Line of the row in the file, counting the header as line 1
+  task: Pick<Task, "title" | "description" | "priority" | "points" | "status" | "assignees">;
+  errors: string[];
+  warnings: string[]; // Changes made to the row's values; the row is still imported
+}
+
+// Header names that are recognised for each field, besides the field's own name
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  title: ["summary", "name", "task", "story"],
+  description: ["details", "body", "notes"],
+  priority: ["prio"],
+  estimate: ["points", "story points", "storypoints", "size"],
+  status: ["state", "column"],
+  assignees: ["assignee", "assigned to", "owner", "owners"],
+};
+
+// Priority names used by other trackers, Jira's included
+const PRIORITY_ALIASES: Record<string, string> = {
+  high: "high",
+  highest: "high",
+  critical: "high",
+  blocker: "high",
+  urgent: "high",
+  medium: "medium",
+  normal: "medium",
+  major: "medium",
+  low: "low",
+  lowest: "low",
+  minor: "low",
+  trivial: "low",
+};
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[_-]+/g, " ");
+
+/**
+ * Maps a priority name from a file onto one of ours
+ * @param value - The priority name
+ * @returns high, medium or low, or undefined for unknown names
+ */
+export function toPriority(value: string): string | undefined {
+  return PRIORITY_ALIASES[normalize(value)];
+}
+
+/**
+ * Finds the member a name or email address from a file refers to
+ * @param value - The name or email address
+ * @param members - The project's members
+ * @returns The member, if any matches
+ */
+export function matchMember(value: string, members: ImportMember[]) {
+  const lower = value.trim().toLowerCase();
+  return members.find(m => m.email?.toLowerCase() === lower || m.name.toLowerCase() === lower);
+}
+
+/**
+ * Guesses which column holds each field from the header row
+ * @param headers - The header row
+ * @returns The guessed mapping
+ */
+export function guessMapping(headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  const names = headers.map(normalize);
+
+  IMPORT_FIELDS.forEach(({ value }) => {
+    const index = names.findIndex(name => name === value || FIELD_ALIASES[value].includes(name));
+    if (index !== -1 && !Object.values(mapping).includes(index)) mapping[value] = index;
+  });
+
+  return mapping;
+}
+
+/**
+ * Finds the workflow status a status name from a file refers to
+ * @param value - The status name or key
+ * @param statuses - The project's workflow
+ * @returns The status, if any matches
+ */
+export function matchStatus(value: string, statuses: WorkflowStatus[]) {
+  const name = normalize(value);
+  return statuses.find(s => s.key === name.replace(/ /g, "-") || normalize(s.name) === name);
+}
+
+/**
+ * Turns the rows of a CSV file into tasks and checks each of them. Empty
+ * cells fall back to the defaults of a new task.
+ * @param rows - The rows below the header
+ * @param mapping - Column of each field
+ * @param statuses - The project's workflow
+ * @param members - The project's members, matched by name or email
+ * @returns One entry per row, with the reasons it cannot be imported
+ */
+export function buildImportRows(
+  rows: string[][],
+  mapping: ImportMapping,
+  statuses: WorkflowStatus[],
+  members: ImportMember[]
+): ImportRow[] {
+  const cell = (row: string[], field: ImportField) => (
+    mapping[field] === undefined ? "" : (row[mapping[field]] || "").trim()
+  );
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const title = cell(row, "title");
+    if (!title) errors.push("Title is empty");
+
+    const priorityValue = cell(row, "priority");
+    const priority = priorityValue ? toPriority(priorityValue) : "medium";
+    if (!priority) errors.push(`Unknown priority "${priorityValue}"`);
+
+    const estimateValue = cell(row, "estimate");
+    const points = estimateValue ? Number(estimateValue.replace(",", ".")) : 0;
+    if (!Number.isFinite(points) || points < 0) errors.push(`Estimate "${estimateValue}" is not a number`);
+    else if (!Number.isInteger(points)) warnings.push(`Estimate ${estimateValue} is rounded to ${Math.round(points)}`);
+
+    const statusValue = cell(row, "status");
+    const status = statusValue ? matchStatus(statusValue, statuses) : statuses[0];
+    if (!status) errors.push(`Unknown status "${statusValue}"`);
+
+    const assignees: string[] = [];
+    cell(row, "assignees").split(/[,;]/).map(value => value.trim()).filter(Boolean).forEach(value => {
+      const member = matchMember(value, members);
+      if (member) assignees.push(member.id);
+      else errors.push(`No member matches "${value}"`);
+    });
+
+    return {
+      line: index + 2,
+      task: {
+        title,
+        description: cell(row, "description"),
+        priority: priority || "medium",
+        points: Number.isFinite(points) ? Math.round(points) : 0,
+        status: status?.key || "",
+        assignees: Array.from(new Set(assignees)),
+      },
+      errors,
+      warnings,
+    };
+  });
+}
@@ -0,0 +1,68 @@
+import { eachDayOfInterval, endOfDay, format, startOfDay } from "date-fns";
+import { Sprint } from "@/types/sprint";
+import { TaskHistoryEntry, TaskStatus } from "@/types/task";
+
+export interface SprintChartPoint {
+  date: string;
+  ideal: number; // Ideal remaining points, burning linearly to zero
+  remaining: number | null; // Actual remaining points, null for future days
+  scope: number | null; // Total points in the sprint at the end of the day
+  done: number | null; // Points done at the end of the day
+}
+
+/**
+ * Replays task history day by day to build burndown and burnup series.
+ * Scope is re-measured every day, so tasks added mid-sprint raise the scope
+ * line instead of silently rewriting the remaining work.
+ * @param sprint - The sprint to chart
+ * @param history - History of the sprint's tasks in chronological order
+ * @param doneStatuses - The workflow statuses that count as done
+ * @param now - The current time; days after it have no actual values
+ * @returns One point per sprint day
+ */
+export function buildSprintChartData(sprint: Sprint, history: TaskHistoryEntry[], doneStatuses: TaskStatus[], now = new Date()) {
+  const start = startOfDay(new Date(sprint.startDate));
+  const end = startOfDay(new Date(sprint.endDate));
+  if (end < start) return [];
+
+  // Nothing happens in a completed sprint after it was closed
+  const cutoff = sprint.completedAt && new Date(sprint.completedAt) < now ? new Date(sprint.completedAt) : now;
+
+  const days = eachDayOfInterval({ start, end });
+  const latest = new Map<string, TaskHistoryEntry>();
+  const points: Omit<SprintChartPoint, "ideal">[] = [];
+  let next = 0;
+
+  for (const day of days) {
+    if (day > cutoff) {
+      points.push({ date: format(day, "MMM d"), remaining: null, scope: null, done: null });
+      continue;
+    }
+
+    // Apply every change recorded up to the end of this day
+    const dayEnd = endOfDay(day);
+    while (next < history.length && new Date(history[next].recordedAt) <= dayEnd) {
+      latest.set(history[next].taskId, history[next]);
+      next++;
+    }
+
+    let scope = 0;
+    let done = 0;
+    latest.forEach(entry => {
+      if (entry.deleted || entry.sprintId !== sprint.id) return;
+      scope += entry.points;
+      if (doneStatuses.includes(entry.status)) done += entry.points;
+    });
+
+    points.push({ date: format(day, "MMM d"), remaining: scope - done, scope, done });
+  }
+
+  // The ideal line burns the scope of the first day down to zero
+  const baseline = points[0]?.scope ?? 0;
+  const steps = Math.max(days.length - 1, 1);
+
+  return points.map((point, index) => ({
+    ...point,
+    ideal: Math.round(baseline * (1 - index / steps) * 10) / 10,
+  })) as SprintChartPoint[];
+}
@@ -0,0 +1,136 @@
+import { eachDayOfInterval, isWeekend, startOfDay } from "date-fns";
+import { MemberAvailability, Sprint } from "@/types/sprint";
+import { Task } from "@/types/task";
+
+export const DEFAULT_HOURS_PER_DAY = 8;
+export const DEFAULT_POINTS_PER_DAY = 1;
+export const DEFAULT_FOCUS_FACTOR = 0.8;
+
+// Share of capacity from which a commitment is shown as nearly full
+const NEAR_CAPACITY = 0.85;
+
+export type CapacityState = "under" | "near" | "over";
+
+export interface MemberCapacity {
+  userId: string;
+  availableDays: number;
+  hours: number;
+  points: number;
+  committedPoints: number; // Points of the member's tasks, split between co-assignees
+  state: CapacityState;
+}
+
+export interface SprintCapacity {
+  workingDays: number;
+  hours: number;
+  points: number;
+  committedPoints: number;
+  unassignedPoints: number;
+  state: CapacityState;
+  members: MemberCapacity[]; // Sorted by how full each member is, fullest first
+}
+
+/**
+ * Counts the weekdays between a sprint's start and end, both included
+ * @param sprint - The sprint
+ * @returns Number of working days
+ */
+export function countWorkingDays(sprint: Pick<Sprint, "startDate" | "endDate">) {
+  const start = startOfDay(new Date(sprint.startDate));
+  const end = startOfDay(new Date(sprint.endDate));
+  if (end < start) return 0;
+
+  return eachDayOfInterval({ start, end }).filter(day => !isWeekend(day)).length;
+}
+
+/**
+ * Compares committed points with the capacity they have to fit in
+ * @param committed - Committed points
+ * @param capacity - Capacity in points
+ * @returns Whether the commitment fits, nearly fills or exceeds the capacity
+ */
+export function getCapacityState(committed: number, capacity: number): CapacityState {
+  if (committed > capacity) return "over";
+  if (committed > 0 && committed >= capacity * NEAR_CAPACITY) return "near";
+  return "under";
+}
+
+/**
+ * Works out a sprint's capacity and how much of it its tasks take up.
+ * Members without an availability entry are fully available at the default
+ * focus factor; assignees who are not members have no capacity at all.
+ * @param sprint - The sprint
+ * @param memberIds - IDs of the members who work on the sprint
+ * @param availability - Availability entries of the sprint's members
+ * @param tasks - Tasks to count; tasks of other sprints are ignored
+ * @returns The sprint's capacity and load, in total and per member
+ */
+export function buildSprintCapacity(
+  sprint: Sprint,
+  memberIds: string[],
+  availability: MemberAvailability[],
+  tasks: Task[]
+): SprintCapacity {
+  const workingDays = countWorkingDays(sprint);
+  const hoursPerDay = sprint.hoursPerDay ?? DEFAULT_HOURS_PER_DAY;
+  const pointsPerDay = sprint.pointsPerDay ?? DEFAULT_POINTS_PER_DAY;
+  const sprintTasks = tasks.filter(task => task.sprintId === sprint.id);
+
+  const load = new Map<string, number>();
+  let unassignedPoints = 0;
+  sprintTasks.forEach(task => {
+    if (task.assignees.length === 0) {
+      unassignedPoints += task.points;
+      return;
+    }
+    task.assignees.forEach(userId => {
+      load.set(userId, (load.get(userId) || 0) + task.points / task.assignees.length);
+    });
+  });
+
+  const userIds = Array.from(new Set([...memberIds, ...load.keys()]));
+  const members = userIds.map(userId => {
+    const entry = availability.find(a => a.sprintId === sprint.id && a.userId === userId);
+    const isMember = memberIds.includes(userId);
+    const availableDays = isMember ? Math.max(0, workingDays - (entry?.daysOff || 0)) : 0;
+    const focusedDays = availableDays * (entry?.focusFactor ?? DEFAULT_FOCUS_FACTOR);
+    const points = focusedDays * pointsPerDay;
+    const committedPoints = load.get(userId) || 0;
+
+    return {
+      userId,
+      availableDays,
+      hours: focusedDays * hoursPerDay,
+      points,
+      committedPoints,
+      state: getCapacityState(committedPoints, points),
+    };
+  });
+
+  const fullness = (member: MemberCapacity) => (
+    member.points > 0 ? member.committedPoints / member.points : member.committedPoints > 0 ? Infinity : 0
+  );
+  members.sort((a, b) => fullness(b) - fullness(a));
+
+  const points = members.reduce((sum, member) => sum + member.points, 0);
+  const committedPoints = sprintTasks.reduce((sum, task) => sum + task.points, 0);
+
+  return {
+    workingDays,
+    hours: members.reduce((sum, member) => sum + member.hours, 0),
+    points,
+    committedPoints,
+    unassignedPoints,
+    state: getCapacityState(committedPoints, points),
+    members,
+  };
+}
+
+/**
+ * Formats a capacity figure with at most one decimal
+ * @param value - The figure
+ * @returns The formatted figure
+ */
+export function formatCapacity(value: number) {
+  return String(Math.round(value * 10) / 10);
+}
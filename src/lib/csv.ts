@@ -0,0 +1,64 @@
+// Delimiters a file may use; spreadsheet exports in some locales use semicolons
+const DELIMITERS = [",", ";", "\t"];
+
+/**
+ * Picks the delimiter that splits the first line into the most columns
+ * @param text - The CSV text
+ * @returns The delimiter
+ */
+function detectDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  return DELIMITERS.reduce((best, delimiter) => (
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  ), DELIMITERS[0]);
+}
+
+/**
+ * Parses CSV text into rows of cells. Quoted cells may contain delimiters,
+ * line breaks and doubled quotes. Blank lines are dropped.
+ * @param text - The CSV text
+ * @param delimiter - The cell delimiter; detected from the first line if not given
+ * @returns The rows, including the header row
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) endRow();
+  return rows;
+}
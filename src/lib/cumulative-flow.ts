@@ -0,0 +1,59 @@
+import { eachDayOfInterval, endOfDay, format, startOfDay } from "date-fns";
+import { TaskHistoryEntry, TaskStatus } from "@/types/task";
+
+// Longest range a diagram is drawn for, to keep the replay cheap
+export const MAX_FLOW_DAYS = 366;
+
+export interface FlowRange {
+  from: Date;
+  to: Date;
+}
+
+// Number of tasks in each status at the end of a day, keyed by status
+export type CumulativeFlowPoint = { date: string } & Record<TaskStatus, number | string>;
+
+/**
+ * Replays task history day by day to count the tasks in each status, which
+ * stacked in workflow order give a cumulative flow diagram
+ * @param history - Task history in chronological order
+ * @param statuses - Keys of the statuses to count, in workflow order
+ * @param range - First and last day of the diagram
+ * @param sprintId - Only count tasks that are in this sprint on the day
+ * @param now - The current time; days after it are left out
+ * @returns One point per day
+ */
+export function buildCumulativeFlow(
+  history: TaskHistoryEntry[],
+  statuses: TaskStatus[],
+  range: FlowRange,
+  sprintId?: string,
+  now = new Date()
+): CumulativeFlowPoint[] {
+  const start = startOfDay(range.from);
+  const end = startOfDay(range.to < now ? range.to : now);
+  if (end < start) return [];
+
+  const days = eachDayOfInterval({ start, end }).slice(-MAX_FLOW_DAYS);
+  const latest = new Map<string, TaskHistoryEntry>();
+  let next = 0;
+
+  return days.map(day => {
+    const dayEnd = endOfDay(day);
+    while (next < history.length && new Date(history[next].recordedAt) <= dayEnd) {
+      latest.set(history[next].taskId, history[next]);
+      next++;
+    }
+
+    const point: CumulativeFlowPoint = { date: format(day, "MMM d") } as CumulativeFlowPoint;
+    statuses.forEach(status => {
+      point[status] = 0;
+    });
+    latest.forEach(entry => {
+      if (entry.deleted || (sprintId && entry.sprintId !== sprintId)) return;
+      // Statuses removed from the workflow have no band to count towards
+      if (typeof point[entry.status] === "number") point[entry.status] = (point[entry.status] as number) + 1;
+    });
+
+    return point;
+  });
+}
@@ -0,0 +1,115 @@
+import { Task } from "@/types/task";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Percentiles drawn on the scatterplot and listed in the summaries
+export const CYCLE_TIME_PERCENTILES = [50, 85, 95];
+
+export interface CycleTimePoint {
+  taskId: string;
+  title: string;
+  completedAt: number; // Timestamp, for plotting on a time axis
+  cycleDays: number; // From the start of work to done
+  leadDays: number; // From creation to done
+  priority: string;
+  assignees: string[];
+}
+
+export interface CycleTimeSummary {
+  count: number;
+  averageCycleDays: number;
+  averageLeadDays: number;
+  percentiles: Record<number, number>; // Cycle time at each of CYCLE_TIME_PERCENTILES
+}
+
+export interface CycleTimeGroup extends CycleTimeSummary {
+  key: string; // Priority or user ID; empty for unassigned tasks
+}
+
+const toDays = (ms: number) => Math.max(0, ms) / DAY_MS;
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+/**
+ * Takes a percentile of a set of values using the nearest-rank method
+ * @param values - The values
+ * @param percentile - The percentile, 0 to 100
+ * @returns The value at the percentile, 0 for no values
+ */
+export function percentileOf(values: number[], percentile: number) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.ceil((percentile / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, index))];
+}
+
+/**
+ * Measures cycle and lead time of every finished task. Subtasks are left out,
+ * their time is part of their parent's.
+ * @param tasks - The project's tasks
+ * @returns One point per finished task, in the order they were finished
+ */
+export function getCycleTimes(tasks: Task[]): CycleTimePoint[] {
+  return tasks
+    .filter(task => !task.parentId && task.completedAt && task.createdAt)
+    .map(task => {
+      const completedAt = new Date(task.completedAt).getTime();
+      const createdAt = new Date(task.createdAt).getTime();
+      // Tasks finished straight from the first status have no time in progress
+      const startedAt = task.startedAt ? new Date(task.startedAt).getTime() : completedAt;
+
+      return {
+        taskId: task.id,
+        title: task.title,
+        completedAt,
+        cycleDays: toDays(completedAt - startedAt),
+        leadDays: toDays(completedAt - createdAt),
+        priority: task.priority,
+        assignees: task.assignees,
+      };
+    })
+    .sort((a, b) => a.completedAt - b.completedAt);
+}
+
+/**
+ * Sums up cycle and lead times
+ * @param points - Cycle time points
+ * @returns Averages and cycle time percentiles
+ */
+export function summarizeCycleTimes(points: CycleTimePoint[]): CycleTimeSummary {
+  const cycleDays = points.map(point => point.cycleDays);
+  return {
+    count: points.length,
+    averageCycleDays: mean(cycleDays),
+    averageLeadDays: mean(points.map(point => point.leadDays)),
+    percentiles: Object.fromEntries(CYCLE_TIME_PERCENTILES.map(p => [p, percentileOf(cycleDays, p)])),
+  };
+}
+
+/**
+ * Sums up cycle and lead times per priority or per assignee. Tasks with
+ * several assignees count towards each of them.
+ * @param points - Cycle time points
+ * @param by - What to group by
+ * @returns One summary per group, largest group first
+ */
+export function groupCycleTimes(points: CycleTimePoint[], by: "priority" | "assignee"): CycleTimeGroup[] {
+  const groups = new Map<string, CycleTimePoint[]>();
+  points.forEach(point => {
+    const keys = by === "priority" ? [point.priority] : point.assignees.length ? point.assignees : [""];
+    keys.forEach(key => groups.set(key, [...(groups.get(key) || []), point]));
+  });
+
+  return Array.from(groups, ([key, groupPoints]) => ({ key, ...summarizeCycleTimes(groupPoints) }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Formats a number of days with at most one decimal
+ * @param days - The number of days
+ * @returns The formatted duration
+ */
+export function formatDays(days: number) {
+  const rounded = Math.round(days * 10) / 10;
+  return `${rounded} ${rounded === 1 ? "day" : "days"}`;
+}
@@ -0,0 +1,93 @@
+import { TaskLink, TaskLinkType } from "@/types/link";
+import { Sprint } from "@/types/sprint";
+import { Task, TaskStatus } from "@/types/task";
+
+// How a linked task relates to the task being looked at
+export type TaskRelation = "blocks" | "blocked-by" | "relates-to";
+
+export const TASK_RELATION_LABELS: Record<TaskRelation, string> = {
+  blocks: "Blocks",
+  "blocked-by": "Is blocked by",
+  "relates-to": "Relates to",
+};
+
+type LinkedTask = Pick<Task, "id" | "title" | "status" | "sprintId">;
+
+/**
+ * Describes a link from the point of view of one of its tasks
+ * @param link - The task link
+ * @param taskId - The task being looked at
+ * @returns The relation and the ID of the task on the other end
+ */
+export function getLinkRelation(link: TaskLink, taskId: string): { relation: TaskRelation; otherId: string } {
+  if (link.type === "relates-to") {
+    return { relation: "relates-to", otherId: link.sourceId === taskId ? link.targetId : link.sourceId };
+  }
+  return link.sourceId === taskId
+    ? { relation: "blocks", otherId: link.targetId }
+    : { relation: "blocked-by", otherId: link.sourceId };
+}
+
+/**
+ * Turns a relation chosen for a task into the link to store
+ * @param relation - How the other task relates to the task
+ * @param taskId - The task being edited
+ * @param otherId - The task being linked
+ */
+export function toTaskLink(relation: TaskRelation, taskId: string, otherId: string) {
+  const type: TaskLinkType = relation === "relates-to" ? "relates-to" : "blocks";
+  return relation === "blocked-by"
+    ? { type, sourceId: otherId, targetId: taskId }
+    : { type, sourceId: taskId, targetId: otherId };
+}
+
+/**
+ * Checks whether adding "source blocks target" would make a task block itself
+ * @param links - The existing links of the project
+ * @param sourceId - The blocking task
+ * @param targetId - The blocked task
+ */
+export function wouldCreateCycle(links: TaskLink[], sourceId: string, targetId: string) {
+  const visited = new Set<string>();
+  const queue = [targetId];
+
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    if (current === sourceId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    links
+      .filter(link => link.type === "blocks" && link.sourceId === current)
+      .forEach(link => queue.push(link.targetId));
+  }
+
+  return false;
+}
+
+/**
+ * Returns the blockers that are not done yet
+ * @param blockers - The tasks blocking a task
+ * @param doneStatuses - The workflow statuses that count as done
+ */
+export function getOpenBlockers<T extends LinkedTask>(blockers: T[], doneStatuses: TaskStatus[]) {
+  return blockers.filter(blocker => !doneStatuses.includes(blocker.status));
+}
+
+/**
+ * Finds the open blockers that are not scheduled before a sprint: those
+ * planned in a sprint that starts later, and those not in any sprint
+ * @param blockers - The tasks blocking the task being scheduled
+ * @param sprint - The sprint the task is being scheduled into
+ * @param sprints - The project's sprints
+ * @param doneStatuses - The workflow statuses that count as done
+ */
+export function getLateBlockers<T extends LinkedTask>(blockers: T[], sprint: Sprint, sprints: Sprint[], doneStatuses: TaskStatus[]) {
+  const start = new Date(sprint.startDate).getTime();
+
+  return getOpenBlockers(blockers, doneStatuses).filter(blocker => {
+    if (!blocker.sprintId) return true;
+    const blockerSprint = sprints.find(s => s.id === blocker.sprintId);
+    return !!blockerSprint && new Date(blockerSprint.startDate).getTime() > start;
+  });
+}
@@ -0,0 +1,39 @@
+import { Epic } from "@/types/epic";
+import { Sprint } from "@/types/sprint";
+import { Task, TaskStatus } from "@/types/task";
+
+export interface EpicSummary {
+  epic: Epic;
+  taskCount: number;
+  doneCount: number;
+  totalPoints: number;
+  donePoints: number;
+  sprints: Sprint[]; // Sprints holding at least one of the epic's tasks, in start order
+  unscheduledCount: number; // Tasks of the epic not in any sprint
+}
+
+/**
+ * Sums up the progress of an epic and where its tasks are scheduled
+ * @param epic - The epic
+ * @param tasks - The project's tasks
+ * @param sprints - The project's sprints
+ * @param doneStatuses - The workflow statuses that count as done
+ * @returns The epic's summary
+ */
+export function summarizeEpic(epic: Epic, tasks: Task[], sprints: Sprint[], doneStatuses: TaskStatus[]): EpicSummary {
+  const epicTasks = tasks.filter(task => task.epicId === epic.id);
+  const doneTasks = epicTasks.filter(task => doneStatuses.includes(task.status));
+  const sprintIds = new Set(epicTasks.map(task => task.sprintId).filter(Boolean));
+
+  return {
+    epic,
+    taskCount: epicTasks.length,
+    doneCount: doneTasks.length,
+    totalPoints: epicTasks.reduce((sum, task) => sum + (task.points || 0), 0),
+    donePoints: doneTasks.reduce((sum, task) => sum + (task.points || 0), 0),
+    sprints: sprints
+      .filter(sprint => sprintIds.has(sprint.id))
+      .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime()),
+    unscheduledCount: epicTasks.filter(task => !task.sprintId).length,
+  };
+}
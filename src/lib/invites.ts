@@ -0,0 +1,32 @@
+import { InviteState, ProjectInvite } from "@/types/invite";
+
+export const INVITE_EXPIRY_OPTIONS: { value: string; label: string; days?: number }[] = [
+  { value: "never", label: "Never" },
+  { value: "1", label: "1 day", days: 1 },
+  { value: "7", label: "7 days", days: 7 },
+  { value: "30", label: "30 days", days: 30 },
+];
+
+/**
+ * Works out whether an invite can still be used. Mirrors the checks of
+ * join_project in the database, which has the final say.
+ * @param invite - The invite
+ * @param now - The current time
+ * @returns The invite's state
+ */
+export function getInviteState(invite: ProjectInvite, now: Date = new Date()): InviteState {
+  if (invite.revokedAt) return "revoked";
+  if (invite.expiresAt && new Date(invite.expiresAt) <= now) return "expired";
+  if (invite.maxUses !== undefined && invite.useCount >= invite.maxUses) return "used-up";
+  return "active";
+}
+
+/**
+ * Builds the link that accepts an email invite
+ * @param token - The invite's token
+ * @param origin - Where the app is served from
+ * @returns The join link
+ */
+export function getInviteLink(token: string, origin: string = window.location.origin) {
+  return `${origin}/join/${token}`;
+}
@@ -0,0 +1,10 @@
+import { IssueType } from "@/types/task";
+
+export const ISSUE_TYPES: { value: IssueType; label: string }[] = [
+  { value: "story", label: "Story" },
+  { value: "bug", label: "Bug" },
+  { value: "task", label: "Task" },
+  { value: "spike", label: "Spike" },
+];
+
+export const EPIC_COLORS = ["#7c3aed", "#2563eb", "#059669", "#d97706", "#dc2626", "#db2777"];
@@ -0,0 +1,320 @@
+import { isValid, parse } from "date-fns";
+import { IssueType } from "@/types/task";
+import { parseCsv } from "./csv";
+import { matchMember, toPriority } from "./backlog-import";
+import { EPIC_COLORS } from "./issue-types";
+import { LABEL_COLORS } from "./labels";
+import { getDoneStatuses } from "./workflow";
+import { ImportContext, ImportPlan, PlannedTask, StatusPhase, createNotes, mapStatus, planSprints } from "./project-import";
+
+// An issue read from either kind of Jira export
+interface JiraIssue {
+  id: string;
+  key: string;
+  summary: string;
+  description: string;
+  type: string;
+  status: string;
+  statusCategory: string;
+  priority: string;
+  assignee: string;
+  created: string;
+  resolved: string;
+  sprints: string[]; // Every sprint the issue was in, the last one last
+  labels: string[];
+  points: string;
+  parent: string; // Issue ID or key
+  epicLink: string; // Epic's issue key, in company-managed projects
+  epicName: string;
+  unmapped: string[]; // Fields with a value that have no place in a project
+}
+
+const JIRA_TYPES: Record<string, IssueType> = {
+  story: "story",
+  bug: "bug",
+  task: "task",
+  spike: "spike",
+  "sub-task": "task",
+  subtask: "task",
+};
+
+// Formats Jira writes dates in, besides the RFC 2822 dates of XML exports
+const JIRA_DATE_FORMATS = ["dd/MMM/yy h:mm a", "dd/MMM/yyyy h:mm a", "yyyy-MM-dd HH:mm", "dd/MM/yyyy HH:mm"];
+
+// Columns read into an issue, by their lowercased CSV header
+const CSV_COLUMNS = {
+  id: ["issue id"],
+  key: ["issue key"],
+  summary: ["summary"],
+  description: ["description"],
+  type: ["issue type"],
+  status: ["status"],
+  statusCategory: ["status category"],
+  priority: ["priority"],
+  assignee: ["assignee"],
+  created: ["created"],
+  resolved: ["resolved"],
+  sprints: ["sprint", "custom field (sprint)"],
+  labels: ["labels"],
+  parent: ["parent id", "parent", "parent key"],
+  epicLink: ["custom field (epic link)"],
+  epicName: ["custom field (epic name)"],
+};
+
+// Columns that only repeat what is imported anyway, so are not worth a note
+const SILENT_COLUMNS = [
+  "parent summary", "project key", "project name", "project type", "project lead", "project description",
+  "project url", "resolution", "updated", "last viewed", "status category changed",
+];
+
+/**
+ * Reads a date from a Jira export
+ * @param value - The date as written by Jira
+ * @returns The date as an ISO string, undefined if empty or unreadable
+ */
+function parseJiraDate(value: string) {
+  if (!value) return undefined;
+
+  for (const format of JIRA_DATE_FORMATS) {
+    const date = parse(value, format, new Date());
+    if (isValid(date)) return date.toISOString();
+  }
+
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Reads where a status sits in Jira's workflow from its category
+ * @param category - The category name or key
+ */
+function toPhase(category: string): StatusPhase | undefined {
+  switch (category.trim().toLowerCase()) {
+    case "done":
+      return "done";
+    case "in progress":
+    case "indeterminate":
+      return "started";
+    case "to do":
+    case "new":
+      return "todo";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Reads the issues of a Jira CSV export. Jira repeats a column for every value
+ * of multi-value fields such as sprints and labels.
+ * @param text - The CSV text
+ * @returns The issues
+ */
+function parseJiraCsv(text: string): JiraIssue[] {
+  const [header, ...rows] = parseCsv(text);
+  const names = (header || []).map(name => name.trim().toLowerCase());
+  const indexes = (wanted: string[]) => names.flatMap((name, index) => (wanted.includes(name) ? [index] : []));
+
+  if (indexes(CSV_COLUMNS.key).length === 0 || indexes(CSV_COLUMNS.summary).length === 0) {
+    throw new Error("The file is not a Jira CSV export; it has no Issue key or Summary column");
+  }
+
+  const pointColumns = names.flatMap((name, index) => (name.includes("story point") ? [index] : []));
+  const used = new Set([...Object.values(CSV_COLUMNS).flatMap(indexes), ...pointColumns, ...indexes(SILENT_COLUMNS)]);
+
+  return rows.map(row => {
+    const values = (wanted: string[]) => indexes(wanted).map(index => (row[index] || "").trim()).filter(Boolean);
+    const value = (wanted: string[]) => values(wanted)[0] || "";
+
+    return {
+      id: value(CSV_COLUMNS.id),
+      key: value(CSV_COLUMNS.key),
+      summary: value(CSV_COLUMNS.summary),
+      description: value(CSV_COLUMNS.description),
+      type: value(CSV_COLUMNS.type),
+      status: value(CSV_COLUMNS.status),
+      statusCategory: value(CSV_COLUMNS.statusCategory),
+      priority: value(CSV_COLUMNS.priority),
+      assignee: value(CSV_COLUMNS.assignee),
+      created: value(CSV_COLUMNS.created),
+      resolved: value(CSV_COLUMNS.resolved),
+      sprints: values(CSV_COLUMNS.sprints),
+      labels: values(CSV_COLUMNS.labels),
+      points: pointColumns.map(index => (row[index] || "").trim()).find(Boolean) || "",
+      parent: value(CSV_COLUMNS.parent),
+      epicLink: value(CSV_COLUMNS.epicLink),
+      epicName: value(CSV_COLUMNS.epicName),
+      unmapped: Array.from(new Set(
+        header.flatMap((name, index) => (!used.has(index) && (row[index] || "").trim() ? [name.trim()] : []))
+      )),
+    };
+  });
+}
+
+/**
+ * Reads the issues of a Jira XML export, the RSS feed Jira offers from an
+ * issue search
+ * @param text - The XML text
+ * @returns The issues
+ */
+function parseJiraXml(text: string): JiraIssue[] {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The file is not valid XML");
+  }
+
+  const items = Array.from(doc.getElementsByTagName("item"));
+  if (items.length === 0) {
+    throw new Error("The file is not a Jira XML export; it has no issues");
+  }
+
+  // Descriptions are HTML; only their text is kept
+  const toText = (html: string) => new DOMParser().parseFromString(html, "text/html").body.textContent?.trim() || "";
+
+  return items.map(item => {
+    const children = Array.from(item.children);
+    const child = (tag: string) => children.find(element => element.tagName === tag);
+    const value = (tag: string) => child(tag)?.textContent?.trim() || "";
+
+    const customFields = new Map(
+      Array.from(item.getElementsByTagName("customfield")).map(field => [
+        field.getElementsByTagName("customfieldname")[0]?.textContent?.trim().toLowerCase() || "",
+        Array.from(field.getElementsByTagName("customfieldvalue")).map(v => v.textContent?.trim() || "").filter(Boolean),
+      ])
+    );
+    const custom = (name: string) => customFields.get(name) || [];
+    const pointField = Array.from(customFields.keys()).find(name => name.includes("story point"));
+    const knownFields = ["sprint", "epic link", "epic name", pointField];
+
+    const assignee = value("assignee");
+
+    return {
+      id: child("key")?.getAttribute("id") || "",
+      key: value("key"),
+      summary: value("summary"),
+      description: toText(value("description")),
+      type: value("type"),
+      status: value("status"),
+      statusCategory: child("statusCategory")?.getAttribute("key") || "",
+      priority: value("priority"),
+      assignee: assignee === "Unassigned" ? "" : assignee,
+      created: value("created"),
+      resolved: value("resolved"),
+      sprints: custom("sprint"),
+      labels: Array.from(child("labels")?.getElementsByTagName("label") || []).map(label => label.textContent?.trim() || ""),
+      points: pointField ? custom(pointField)[0] || "" : "",
+      parent: value("parent"),
+      epicLink: custom("epic link")[0] || "",
+      epicName: custom("epic name")[0] || "",
+      unmapped: [
+        ...["comments", "attachments", "issuelinks", "fixVersion", "component", "due", "timeestimate", "timespent"]
+          .filter(tag => value(tag)),
+        ...Array.from(customFields).filter(([name, values]) => !knownFields.includes(name) && values.length).map(([name]) => name),
+      ],
+    };
+  });
+}
+
+/**
+ * Plans the import of Jira issues into a project. Epics become epics, sub-tasks
+ * become subtasks and every other issue a task; the sprints the issues were in
+ * are created as well.
+ * @param issues - The issues
+ * @param context - The project's workflow and members
+ * @returns What will be created, with notes on how unmapped fields are handled
+ */
+function planJiraImport(issues: JiraIssue[], { statuses, members }: ImportContext): ImportPlan {
+  const notes = createNotes();
+  const keys = new Set(issues.map(issue => issue.key));
+  const keyById = new Map(issues.map(issue => [issue.id, issue.key]));
+  const resolveKey = (ref: string) => (keys.has(ref) ? ref : keyById.get(ref));
+
+  const epicIssues = issues.filter(issue => issue.type.toLowerCase() === "epic");
+  const epicKeys = new Set(epicIssues.map(issue => issue.key));
+  const sprintNames: string[] = [];
+  const labelNames: string[] = [];
+
+  const tasks = issues.filter(issue => !epicKeys.has(issue.key)).map((issue): PlannedTask => {
+    // Team-managed projects link epics through the parent field
+    const parentKey = resolveKey(issue.parent);
+    const epicKey = [resolveKey(issue.epicLink), parentKey].find(key => key && epicKeys.has(key));
+    if (issue.parent && !parentKey) notes.add("Sub-tasks whose parent is not in the file are imported as tasks");
+
+    const phase = toPhase(issue.statusCategory) || (issue.resolved ? "done" : undefined);
+    const { status, byName } = mapStatus(issue.status, phase, statuses);
+    if (!byName) notes.add(`Status "${issue.status}" is imported as "${status.name}"`);
+
+    const priority = toPriority(issue.priority);
+    if (issue.priority && !priority) notes.add(`Priority "${issue.priority}" is imported as medium`);
+
+    const type = JIRA_TYPES[issue.type.toLowerCase()];
+    if (!type) notes.add(`Issue type "${issue.type}" is imported as a task`);
+
+    const points = Number(issue.points.replace(",", "."));
+    if (issue.points && !Number.isFinite(points)) notes.add(`Story points "${issue.points}" are not a number and are left out`);
+    else if (!Number.isInteger(points)) notes.add("Story points are rounded to whole points");
+
+    const assignee = issue.assignee ? matchMember(issue.assignee, members) : undefined;
+    if (issue.assignee && !assignee) notes.add(`Assignee "${issue.assignee}" is not a project member; issues are imported unassigned`);
+
+    const sprint = issue.sprints[issue.sprints.length - 1];
+    if (sprint && !sprintNames.includes(sprint)) sprintNames.push(sprint);
+    if (issue.sprints.length > 1) notes.add("Issues carried over between sprints are imported into their last sprint");
+
+    issue.labels.forEach(label => {
+      if (!labelNames.some(name => name.toLowerCase() === label.toLowerCase())) labelNames.push(label);
+    });
+    issue.unmapped.forEach(field => notes.add(`Field "${field}" is not imported`));
+
+    const createdAt = parseJiraDate(issue.created);
+    const completedAt = status.isDone ? parseJiraDate(issue.resolved) : undefined;
+    if (completedAt) notes.add("Exports do not say when work on an issue started; cycle time of finished issues counts from their creation");
+
+    return {
+      key: issue.key,
+      title: issue.summary,
+      description: issue.description,
+      priority: priority || "medium",
+      type: type || "task",
+      points: Number.isFinite(points) ? Math.round(points) : 0,
+      status: status.key,
+      assignees: assignee ? [assignee.id] : [],
+      labels: issue.labels,
+      checklist: [],
+      sprintKey: sprint,
+      epicKey,
+      parentKey: parentKey && !epicKeys.has(parentKey) ? parentKey : undefined,
+      createdAt,
+      startedAt: completedAt ? createdAt : undefined,
+      completedAt,
+    };
+  });
+
+  if (sprintNames.length > 0) {
+    notes.add("Sprint dates and states are not in the export; finished sprints end with their last resolved issue, the others are planned from today", sprintNames.length);
+  }
+
+  return {
+    source: "Jira",
+    sprints: planSprints(sprintNames.map(name => ({ key: name, name })), tasks, getDoneStatuses(statuses)),
+    epics: epicIssues.map((issue, index) => ({
+      key: issue.key,
+      name: issue.epicName || issue.summary,
+      description: issue.description,
+      color: EPIC_COLORS[index % EPIC_COLORS.length],
+    })),
+    labels: labelNames.map((name, index) => ({ name, color: LABEL_COLORS[index % LABEL_COLORS.length] })),
+    tasks: [...tasks.filter(task => !task.parentKey), ...tasks.filter(task => task.parentKey)],
+    notes: notes.list(),
+  };
+}
+
+/**
+ * Plans the import of a Jira CSV or XML export
+ * @param text - The file's contents
+ * @param context - The project's workflow and members
+ * @returns What will be created, with notes on how unmapped fields are handled
+ */
+export function planJiraExport(text: string, context: ImportContext): ImportPlan {
+  const issues = text.trimStart().startsWith("<") ? parseJiraXml(text) : parseJiraCsv(text);
+  return planJiraImport(issues.filter(issue => issue.key), context);
+}
@@ -0,0 +1,23 @@
+import { Label } from "@/types/label";
+import { Task } from "@/types/task";
+
+export const LABEL_COLORS = ["#64748b", "#dc2626", "#ea580c", "#ca8a04", "#16a34a", "#0891b2", "#2563eb", "#7c3aed", "#db2777"];
+
+/**
+ * Returns every label carried by at least one of the tasks, sorted by name
+ */
+export function collectLabels(tasks: Task[]) {
+  const labels = new Map<string, Label>();
+  tasks.forEach(task => task.labels?.forEach(label => labels.set(label.id, label)));
+  return Array.from(labels.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Keeps the tasks carrying any of the given labels; no labels keeps every task
+ * @param tasks - The tasks to filter
+ * @param labelIds - The IDs of the labels to filter by
+ */
+export function filterTasksByLabels(tasks: Task[], labelIds: string[]) {
+  if (labelIds.length === 0) return tasks;
+  return tasks.filter(task => task.labels?.some(label => labelIds.includes(label.id)));
+}
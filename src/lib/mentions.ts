@@ -0,0 +1,66 @@
+// Someone who can be @mentioned, usually a project member
+export interface Mentionable {
+  id: string;
+  name: string;
+}
+
+export interface MentionMatch {
+  start: number; // Index of the "@"
+  end: number; // Index just past the name
+  member: Mentionable;
+}
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}_]/u.test(char);
+
+/**
+ * Finds every "@name" in a text that refers to a known member.
+ * Names may contain spaces, so the longest matching name wins.
+ * @param text - The text to scan
+ * @param members - The people who can be mentioned
+ * @returns The matches in order of appearance
+ */
+export function findMentions(text: string, members: Mentionable[]) {
+  const matches: MentionMatch[] = [];
+  const lowerText = text.toLowerCase();
+  const candidates = members
+    .filter(member => member.name)
+    .sort((a, b) => b.name.length - a.name.length);
+
+  let index = lowerText.indexOf("@");
+  while (index !== -1) {
+    if (!isWordChar(text[index - 1])) {
+      const member = candidates.find(candidate => {
+        const name = candidate.name.toLowerCase();
+        return lowerText.startsWith(name, index + 1) && !isWordChar(text[index + 1 + name.length]);
+      });
+      if (member) {
+        const end = index + 1 + member.name.length;
+        matches.push({ start: index, end, member });
+        index = lowerText.indexOf("@", end);
+        continue;
+      }
+    }
+    index = lowerText.indexOf("@", index + 1);
+  }
+
+  return matches;
+}
+
+/**
+ * Returns the IDs of the members mentioned in a text, without duplicates
+ */
+export function extractMentionIds(text: string, members: Mentionable[]) {
+  return Array.from(new Set(findMentions(text, members).map(match => match.member.id)));
+}
+
+/**
+ * Returns the partial name being typed after an "@" right before the cursor
+ * @param text - The text being edited
+ * @param cursor - The cursor position
+ * @returns The query, or null if the cursor is not inside a mention
+ */
+export function getMentionQuery(text: string, cursor: number) {
+  const before = text.slice(0, cursor);
+  const match = /(^|[^\p{L}\p{N}_])@([\p{L}\p{N}_ .'-]{0,30})$/u.exec(before);
+  return match ? match[2] : null;
+}
@@ -0,0 +1,76 @@
+// Monte Carlo forecasts built by replaying randomly drawn days of past throughput
+
+export const SIMULATION_RUNS = 10000;
+
+// Confidence levels reported for every forecast, in percent
+export const CONFIDENCE_LEVELS = [50, 85, 95];
+
+// Runs give up after this many days, so a throughput of mostly zeros still ends
+export const MAX_SIMULATED_DAYS = 3650;
+
+export type SimulationRequest =
+  | { kind: "when"; samples: number[]; items: number; runs: number } // Days needed to finish a number of items
+  | { kind: "how-many"; samples: number[]; days: number; runs: number }; // Items finished within a number of days
+
+export interface SimulationOutcome {
+  value: number; // Days needed, or items finished
+  runs: number; // Number of runs with this outcome
+}
+
+export interface SimulationResult {
+  kind: SimulationRequest["kind"];
+  outcomes: SimulationOutcome[]; // Sorted by value
+  forecasts: Record<number, number>; // Outcome at each confidence level
+  runs: number;
+}
+
+/**
+ * Simulates a forecast by drawing random days from the throughput samples
+ * @param request - What to forecast and the daily throughput to draw from
+ * @param random - Source of random numbers between 0 and 1
+ * @returns The outcome distribution and the outcome at every confidence level,
+ * or null when the samples hold no finished work to draw from
+ */
+export function simulate(request: SimulationRequest, random = Math.random): SimulationResult | null {
+  const { samples, runs } = request;
+  if (samples.length === 0 || !samples.some(count => count > 0)) return null;
+
+  const draw = () => samples[Math.floor(random() * samples.length)];
+  const results = new Array<number>(runs);
+
+  for (let run = 0; run < runs; run++) {
+    if (request.kind === "when") {
+      let done = 0;
+      let days = 0;
+      while (done < request.items && days < MAX_SIMULATED_DAYS) {
+        done += draw();
+        days++;
+      }
+      results[run] = days;
+    } else {
+      let done = 0;
+      for (let day = 0; day < request.days; day++) done += draw();
+      results[run] = done;
+    }
+  }
+
+  results.sort((a, b) => a - b);
+
+  // More days is worse for "when", fewer items is worse for "how many"
+  const forecasts: Record<number, number> = {};
+  CONFIDENCE_LEVELS.forEach(level => {
+    const index = request.kind === "when"
+      ? Math.ceil((level / 100) * runs) - 1
+      : Math.floor(((100 - level) / 100) * runs);
+    forecasts[level] = results[Math.min(runs - 1, Math.max(0, index))];
+  });
+
+  const outcomes: SimulationOutcome[] = [];
+  results.forEach(value => {
+    const last = outcomes[outcomes.length - 1];
+    if (last && last.value === value) last.runs++;
+    else outcomes.push({ value, runs: 1 });
+  });
+
+  return { kind: request.kind, outcomes, forecasts, runs };
+}
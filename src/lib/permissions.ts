@@ -0,0 +1,44 @@
+import { ProjectRole } from "@/types/user";
+
+export const PROJECT_ROLES: { value: ProjectRole; label: string; description: string }[] = [
+  { value: "owner", label: "Owner", description: "Full access, including deleting the project" },
+  { value: "admin", label: "Admin", description: "Manages members, workflow and labels" },
+  { value: "member", label: "Member", description: "Creates and edits tasks and sprints" },
+  { value: "viewer", label: "Viewer", description: "Read-only access" },
+];
+
+export interface ProjectPermissions {
+  role: ProjectRole | null;
+  canEdit: boolean; // Create, edit and move tasks, sprints and epics
+  canDelete: boolean; // Delete tasks and sprints
+  canManage: boolean; // Change members, workflow, labels and project settings
+  isOwner: boolean;
+}
+
+/**
+ * Checks whether a role grants at least the access of another one. Mirrors
+ * has_project_role in the database, which has the final say.
+ * @param role - The user's role, null if they are not a member
+ * @param minimum - The least role required
+ * @returns Whether the role is enough
+ */
+export function hasRole(role: ProjectRole | null, minimum: ProjectRole) {
+  if (!role) return false;
+  const rank = (r: ProjectRole) => PROJECT_ROLES.length - PROJECT_ROLES.findIndex(p => p.value === r);
+  return rank(role) >= rank(minimum);
+}
+
+/**
+ * Works out what a role may do in a project
+ * @param role - The user's role, null if they are not a member
+ * @returns The permissions
+ */
+export function getPermissions(role: ProjectRole | null): ProjectPermissions {
+  return {
+    role,
+    canEdit: hasRole(role, "member"),
+    canDelete: hasRole(role, "admin"),
+    canManage: hasRole(role, "admin"),
+    isOwner: role === "owner",
+  };
+}
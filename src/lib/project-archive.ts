@@ -0,0 +1,238 @@
+import { format } from "date-fns";
+import { ProjectArchive } from "@/types/project-archive";
+import { Sprint } from "@/types/sprint";
+import { Task } from "@/types/task";
+import { ImportNote, createNotes } from "./project-import";
+import { rankBetween } from "./rank";
+import { DEFAULT_WORKFLOW } from "./workflow";
+
+export const PROJECT_ARCHIVE_FORMAT = "project-archive";
+
+// Bump when the archived tables change, and teach readProjectArchive to bring
+// older archives up to date
+export const PROJECT_ARCHIVE_VERSION = 1;
+
+// The lists of rows an archive holds besides the project
+const ARCHIVE_SECTIONS = [
+  "members", "workflow_statuses", "sprints", "epics", "labels", "tasks", "task_labels",
+  "task_links", "task_comments", "task_history", "task_events", "sprint_capacity",
+] as const;
+
+export interface RestorePlan {
+  archive: ProjectArchive; // With references repaired, ready to restore
+  conflicts: ImportNote[]; // What in the archive could not be restored as it was
+}
+
+// The data the app kept in local storage before projects were stored online
+export interface LegacyData {
+  sprints: Sprint[];
+  tasks: Task[];
+  backlog: Task[];
+}
+
+/**
+ * Names the file a project is exported to
+ * @param name - The project's name
+ * @returns The file name
+ */
+export function archiveFileName(name: string) {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "project";
+  return `${slug}-${format(new Date(), "yyyy-MM-dd")}.json`;
+}
+
+/**
+ * Reads a project archive and checks that this version of the app can restore it
+ * @param text - The archive's JSON
+ * @returns The archive
+ */
+export function readProjectArchive(text: string): ProjectArchive {
+  let archive;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  if (archive?.format !== PROJECT_ARCHIVE_FORMAT) {
+    throw new Error("The file is not a project archive");
+  }
+  if (!Number.isInteger(archive.version) || archive.version < 1) {
+    throw new Error("The archive has no valid schema version");
+  }
+  if (archive.version > PROJECT_ARCHIVE_VERSION) {
+    throw new Error(
+      `The archive uses schema version ${archive.version}; this version of the app reads up to version ${PROJECT_ARCHIVE_VERSION}`
+    );
+  }
+  if (!archive.project?.name) {
+    throw new Error("The archive holds no project");
+  }
+
+  const invalid = ARCHIVE_SECTIONS.find(section => archive[section] !== undefined && !Array.isArray(archive[section]));
+  if (invalid) {
+    throw new Error(`The archive's ${invalid.replace(/_/g, " ")} are not a list`);
+  }
+
+  return { ...archive, ...Object.fromEntries(ARCHIVE_SECTIONS.map(section => [section, archive[section] || []])) };
+}
+
+/**
+ * Names the restored project and drops or repairs references to rows the
+ * archive does not hold, noting each change. The database gives every row a
+ * new ID when restoring.
+ * @param archive - The archive
+ * @param projectNames - Names of the projects the user has, to avoid restoring a second one by the same name
+ * @returns The archive to restore and what had to change
+ */
+export function prepareRestore(archive: ProjectArchive, projectNames: string[]): RestorePlan {
+  const conflicts = createNotes();
+
+  const taken = new Set(projectNames.map(name => name.toLowerCase()));
+  let name = archive.project.name;
+  for (let copy = 1; taken.has(name.toLowerCase()); copy++) {
+    name = `${archive.project.name} (restored${copy > 1 ? ` ${copy}` : ""})`;
+  }
+  if (name !== archive.project.name) {
+    conflicts.add(`You already have a project named "${archive.project.name}"; the restored one is called "${name}"`);
+  }
+
+  const sprintIds = new Set(archive.sprints.map(sprint => sprint.id));
+  const epicIds = new Set(archive.epics.map(epic => epic.id));
+  const labelIds = new Set(archive.labels.map(label => label.id));
+  const taskIds = new Set(archive.tasks.map(task => task.id));
+  const commentIds = new Set(archive.task_comments.map(comment => comment.id));
+  const statuses = archive.workflow_statuses.length ? archive.workflow_statuses : DEFAULT_WORKFLOW;
+  const statusKeys = new Set(statuses.map(status => status.key));
+
+  const tasks = archive.tasks.map(task => {
+    if (task.sprint_id && !sprintIds.has(task.sprint_id)) conflicts.add("Tasks of sprints missing from the archive go to the backlog");
+    if (task.epic_id && !epicIds.has(task.epic_id)) conflicts.add("Tasks of epics missing from the archive lose their epic");
+    if (task.parent_id && !taskIds.has(task.parent_id)) conflicts.add("Subtasks whose parent is missing from the archive become tasks");
+    if (!statusKeys.has(task.status)) conflicts.add(`Tasks in status "${task.status}", which the workflow lacks, go to "${statuses[0].name}"`);
+
+    return {
+      ...task,
+      sprint_id: sprintIds.has(task.sprint_id) ? task.sprint_id : null,
+      epic_id: epicIds.has(task.epic_id) ? task.epic_id : null,
+      parent_id: taskIds.has(task.parent_id) ? task.parent_id : null,
+      status: statusKeys.has(task.status) ? task.status : statuses[0].key,
+    };
+  });
+
+  const taskLabels = archive.task_labels.filter(link => taskIds.has(link.task_id) && labelIds.has(link.label_id));
+  if (taskLabels.length < archive.task_labels.length) {
+    conflicts.add("Labels whose task or label is missing from the archive are left out", archive.task_labels.length - taskLabels.length);
+  }
+
+  const taskLinks = archive.task_links.filter(link => taskIds.has(link.source_id) && taskIds.has(link.target_id));
+  if (taskLinks.length < archive.task_links.length) {
+    conflicts.add("Dependencies on tasks missing from the archive are left out", archive.task_links.length - taskLinks.length);
+  }
+
+  const comments = archive.task_comments.filter(comment => taskIds.has(comment.task_id));
+  if (comments.length < archive.task_comments.length) {
+    conflicts.add("Comments on tasks missing from the archive are left out", archive.task_comments.length - comments.length);
+  }
+
+  return {
+    archive: {
+      ...archive,
+      project: { ...archive.project, name },
+      tasks,
+      task_labels: taskLabels,
+      task_links: taskLinks,
+      task_comments: comments.map(comment => ({
+        ...comment,
+        parent_id: commentIds.has(comment.parent_id) ? comment.parent_id : null,
+      })),
+      sprint_capacity: archive.sprint_capacity.filter(entry => sprintIds.has(entry.sprint_id)),
+    },
+    conflicts: conflicts.list(),
+  };
+}
+
+/**
+ * Turns the data the app kept in local storage into a project archive, so it
+ * is restored like any other archive
+ * @param data - The stored sprints, sprint tasks and backlog
+ * @param name - Name of the project to restore it as
+ * @param userId - The restoring user, who becomes the creator of everything
+ * @returns The archive
+ */
+export function convertLegacyData({ sprints, tasks, backlog }: LegacyData, name: string, userId: string): ProjectArchive {
+  const now = new Date();
+  const projectId = crypto.randomUUID();
+
+  // Stored sprints listed their tasks rather than tasks naming their sprint
+  const sprintOf = new Map<string, string>();
+  sprints.forEach(sprint => sprint.tasks?.forEach(taskId => sprintOf.set(taskId, sprint.id)));
+
+  const seen = new Set<string>();
+  const allTasks = [...tasks, ...backlog].filter(task => !seen.has(task.id) && seen.add(task.id));
+  let rank: string | null = null;
+
+  return {
+    format: PROJECT_ARCHIVE_FORMAT,
+    version: PROJECT_ARCHIVE_VERSION,
+    exported_at: now.toISOString(),
+    project: { id: projectId, name, description: "Moved from the data kept in this browser", wip_limit_mode: "soft", created_at: now.toISOString() },
+    members: [],
+    workflow_statuses: [],
+    sprints: sprints.map(sprint => {
+      const start = new Date(sprint.startDate);
+      const end = new Date(sprint.endDate);
+      // Stored sprints had no state of their own; it followed from their dates
+      const status = sprint.status || (end < now ? "completed" : start <= now ? "active" : "planned");
+
+      return {
+        id: sprint.id,
+        project_id: projectId,
+        user_id: userId,
+        name: sprint.name,
+        start_date: sprint.startDate,
+        end_date: sprint.endDate,
+        status,
+        started_at: status === "planned" ? null : sprint.startDate,
+        completed_at: status === "completed" ? sprint.endDate : null,
+        committed_points: null,
+        completed_points: null,
+        hours_per_day: 8,
+        points_per_day: 1,
+        tasks: null,
+        created_at: now.toISOString(),
+      };
+    }),
+    epics: [],
+    labels: [],
+    tasks: allTasks.map(task => {
+      rank = rankBetween(rank, null);
+      return {
+        id: task.id,
+        project_id: projectId,
+        user_id: userId,
+        title: task.title,
+        description: task.description || null,
+        status: task.status,
+        priority: task.priority || "medium",
+        type: task.type || "task",
+        estimate: task.points ?? 0,
+        // Stored tasks were assigned to sample users, who do not exist online
+        assignee_ids: [],
+        sprint_id: task.sprintId || sprintOf.get(task.id) || null,
+        rank,
+        parent_id: null,
+        epic_id: null,
+        checklist: [],
+        created_at: now.toISOString(),
+        started_at: null,
+        completed_at: null,
+      };
+    }),
+    task_labels: [],
+    task_links: [],
+    task_comments: [],
+    task_history: [],
+    task_events: [],
+    sprint_capacity: [],
+  };
+}
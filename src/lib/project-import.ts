@@ -0,0 +1,144 @@
+import { addDays, startOfDay, subDays } from "date-fns";
+import { SprintStatus } from "@/types/sprint";
+import { ChecklistItem, IssueType, TaskStatus } from "@/types/task";
+import { WorkflowStatus } from "@/types/workflow";
+import { ImportMember, matchStatus } from "./backlog-import";
+
+// Length given to imported sprints, as neither Jira nor Trello exports sprint dates
+export const IMPORTED_SPRINT_DAYS = 14;
+
+// Where a status sits in the source tracker's own workflow
+export type StatusPhase = "todo" | "started" | "done";
+
+export interface PlannedSprint {
+  key: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  status: SprintStatus;
+}
+
+export interface PlannedEpic {
+  key: string;
+  name: string;
+  description: string;
+  color: string;
+}
+
+export interface PlannedLabel {
+  name: string;
+  color: string;
+}
+
+export interface PlannedTask {
+  key: string; // Issue key or card ID in the source tracker
+  title: string;
+  description: string;
+  priority: string;
+  type: IssueType;
+  points: number;
+  status: TaskStatus;
+  assignees: string[];
+  labels: string[]; // Label names
+  checklist: ChecklistItem[];
+  sprintKey?: string;
+  epicKey?: string;
+  parentKey?: string; // Set for subtasks
+  createdAt?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+// How something in the file that has no place in a project is handled
+export interface ImportNote {
+  message: string;
+  count: number; // Issues, cards or sprints the note applies to
+}
+
+export interface ImportPlan {
+  source: "Jira" | "Trello";
+  sprints: PlannedSprint[];
+  epics: PlannedEpic[];
+  labels: PlannedLabel[];
+  tasks: PlannedTask[]; // Parents before their subtasks
+  notes: ImportNote[];
+}
+
+export interface ImportContext {
+  statuses: WorkflowStatus[];
+  members: ImportMember[];
+}
+
+/**
+ * Collects import notes, counting how often each one comes up
+ */
+export function createNotes() {
+  const notes = new Map<string, number>();
+
+  return {
+    add: (message: string, count = 1) => notes.set(message, (notes.get(message) || 0) + count),
+    list: (): ImportNote[] => Array.from(notes, ([message, count]) => ({ message, count })),
+  };
+}
+
+/**
+ * Maps a status of the source tracker onto the project's workflow, by name
+ * first and otherwise by where the status sits in the source workflow
+ * @param name - The status name in the source tracker
+ * @param phase - Where the status sits in the source workflow, if known
+ * @param statuses - The project's workflow
+ * @returns The matched status and whether it was matched by name
+ */
+export function mapStatus(name: string, phase: StatusPhase | undefined, statuses: WorkflowStatus[]) {
+  const matched = name ? matchStatus(name, statuses) : undefined;
+  if (matched) return { status: matched, byName: true };
+
+  const done = statuses.find(status => status.isDone);
+  const started = statuses.find((status, index) => index > 0 && !status.isDone);
+  const fallback = phase === "done" ? done : phase === "started" ? started : undefined;
+  return { status: fallback || statuses[0], byName: false };
+}
+
+/**
+ * Plans the sprints the tasks were in. Sprints whose tasks are all finished
+ * are completed and end with their last finished task; the others are
+ * planned back to back from today, in the order given.
+ * @param sprints - Key and name of each sprint, in order
+ * @param tasks - The planned tasks
+ * @param doneStatuses - The workflow statuses that count as done
+ * @returns The planned sprints
+ */
+export function planSprints(
+  sprints: { key: string; name: string }[],
+  tasks: PlannedTask[],
+  doneStatuses: TaskStatus[]
+): PlannedSprint[] {
+  let nextStart = startOfDay(new Date());
+
+  return sprints.map(({ key, name }) => {
+    const sprintTasks = tasks.filter(task => task.sprintKey === key);
+    const finished = sprintTasks.length > 0 && sprintTasks.every(task => doneStatuses.includes(task.status));
+    const lastCompleted = Math.max(0, ...sprintTasks.map(task => (task.completedAt ? new Date(task.completedAt).getTime() : 0)));
+
+    if (finished && lastCompleted > 0) {
+      const end = new Date(lastCompleted);
+      return {
+        key,
+        name,
+        startDate: subDays(end, IMPORTED_SPRINT_DAYS).toISOString(),
+        endDate: end.toISOString(),
+        status: "completed" as const,
+      };
+    }
+
+    const start = nextStart;
+    nextStart = addDays(start, IMPORTED_SPRINT_DAYS);
+    return {
+      key,
+      name,
+      startDate: start.toISOString(),
+      endDate: nextStart.toISOString(),
+      status: "planned" as const,
+    };
+  });
+}
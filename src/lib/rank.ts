@@ -0,0 +1,107 @@
+import { arrayMove } from "@dnd-kit/sortable";
+
+// Ranks are base-62 strings compared byte by byte (the `rank` column uses the
+// "C" collation), so a key can always be generated between any two others and
+// moving a task only ever rewrites that task's row.
+const DIGITS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+interface Ranked {
+  id: string;
+  rank?: string;
+}
+
+/**
+ * Returns a key strictly between `a` and `b`.
+ * An empty `a` stands for the start of the list and a null `b` for its end.
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null && a >= b) {
+    throw new Error(`Invalid rank range: ${a} >= ${b}`);
+  }
+
+  if (b) {
+    // Skip the prefix both keys share
+    let n = 0;
+    while ((a[n] || "0") === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+
+  // The first digits are adjacent, so the key has to grow by one digit
+  if (b && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+/**
+ * Generates a rank that sorts between two neighbours. Neighbours that are out
+ * of order or share a rank, as concurrent edits can leave them, get a rank
+ * just below the item above.
+ * @param before - Rank of the item above, or null for the top of the list
+ * @param after - Rank of the item below, or null for the bottom of the list
+ * @returns A new rank
+ */
+export function rankBetween(before?: string | null, after?: string | null) {
+  if (before && after && before >= after) {
+    return midpoint(before, null);
+  }
+  return midpoint(before || "", after || null);
+}
+
+/**
+ * Compares two items by rank, putting unranked items last
+ */
+export function compareRank(a: { rank?: string }, b: { rank?: string }) {
+  if (a.rank === b.rank) return 0;
+  if (!a.rank) return 1;
+  if (!b.rank) return -1;
+  return a.rank < b.rank ? -1 : 1;
+}
+
+/**
+ * Returns a copy of the items sorted by rank
+ */
+export function sortByRank<T extends { rank?: string }>(items: T[]) {
+  return [...items].sort(compareRank);
+}
+
+/**
+ * Generates the rank for an item inserted at a position of a list
+ * @param items - The ranked list, without the item being placed
+ * @param index - Position the item is inserted at
+ * @returns The rank for the inserted item
+ */
+export function rankAtIndex(items: { rank?: string }[], index: number) {
+  const before = index > 0 ? items[index - 1]?.rank : null;
+  const after = index < items.length ? items[index]?.rank : null;
+  return rankBetween(before, after);
+}
+
+/**
+ * Computes the new rank of an item dragged onto another item of the same list
+ * @param items - The list in rank order
+ * @param activeId - ID of the dragged item
+ * @param overId - ID of the item it was dropped on
+ * @returns The new rank, or null if the position did not change
+ */
+export function rankForMove(items: Ranked[], activeId: string, overId: string) {
+  const oldIndex = items.findIndex(item => item.id === activeId);
+  const newIndex = items.findIndex(item => item.id === overId);
+
+  if (oldIndex === -1 || newIndex === -1 || oldIndex === newIndex) return null;
+
+  const reordered = arrayMove(items, oldIndex, newIndex);
+  const others = reordered.filter(item => item.id !== activeId);
+  return rankAtIndex(others, newIndex);
+}
@@ -0,0 +1,43 @@
+import { ChecklistItem, Task, TaskStatus } from "@/types/task";
+
+/**
+ * Counts the ticked items of a checklist
+ */
+export function getChecklistProgress(checklist: ChecklistItem[] = []) {
+  return {
+    done: checklist.filter(item => item.done).length,
+    total: checklist.length,
+  };
+}
+
+/**
+ * Returns the subtasks that are not done yet
+ * @param subtasks - The subtasks of a task
+ * @param doneStatuses - The workflow statuses that count as done
+ */
+export function getOpenSubtasks(subtasks: Task[], doneStatuses: TaskStatus[]) {
+  return subtasks.filter(subtask => !doneStatuses.includes(subtask.status));
+}
+
+/**
+ * Splits a list into top-level tasks and the subtasks nested under them.
+ * Subtasks whose parent is not in the list are kept at the top level.
+ * @param tasks - The tasks in display order
+ * @returns The top-level tasks and the subtasks of each, keyed by parent ID
+ */
+export function groupSubtasks(tasks: Task[]) {
+  const ids = new Set(tasks.map(task => task.id));
+  const roots: Task[] = [];
+  const children: Record<string, Task[]> = {};
+
+  tasks.forEach(task => {
+    if (task.parentId && ids.has(task.parentId)) {
+      if (!children[task.parentId]) children[task.parentId] = [];
+      children[task.parentId].push(task);
+    } else {
+      roots.push(task);
+    }
+  });
+
+  return { roots, children };
+}
@@ -0,0 +1,68 @@
+import { supabase } from './client';
+import { type MemberAvailability } from '@/types/sprint';
+
+/**
+ * Maps a sprint capacity row from the database schema to our application schema
+ * @param entry - The database row
+ * @returns The member's availability
+ */
+function mapAvailability(entry): MemberAvailability {
+  return {
+    sprintId: entry.sprint_id,
+    userId: entry.user_id,
+    daysOff: Number(entry.days_off),
+    focusFactor: Number(entry.focus_factor)
+  };
+}
+
+/**
+ * Fetches the availability entered for the sprints of a project
+ * @param projectId - The project's ID
+ * @returns Availability entries of every sprint in the project
+ */
+export async function fetchProjectAvailability(projectId: string) {
+  const { data, error } = await supabase
+    .from('sprint_capacity')
+    .select('*, sprints!inner(project_id)')
+    .eq('sprints.project_id', projectId);
+
+  if (error) {
+    console.error('Error fetching sprint capacity:', error);
+    if (error.code === '42P01') {
+      // Table doesn't exist yet
+      return [];
+    }
+    throw error;
+  }
+
+  return data.map(mapAvailability);
+}
+
+/**
+ * Saves a member's availability for a sprint
+ * @param availability - The member's days off and focus factor
+ * @returns The saved availability
+ */
+export async function saveMemberAvailability(availability: MemberAvailability) {
+  const { data, error } = await supabase
+    .from('sprint_capacity')
+    .upsert(
+      {
+        sprint_id: availability.sprintId,
+        user_id: availability.userId,
+        days_off: availability.daysOff,
+        focus_factor: availability.focusFactor,
+        updated_at: new Date().toISOString()
+      },
+      { onConflict: 'sprint_id,user_id' }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving sprint capacity:', error);
+    throw error;
+  }
+
+  return mapAvailability(data);
+}
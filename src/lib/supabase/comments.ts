@@ -0,0 +1,116 @@
+import { supabase } from './client';
+import { type TaskComment } from '@/types/comment';
+
+/**
+ * Maps a comment row from the database schema to our application schema
+ * @param comment - The database row
+ * @returns The comment
+ */
+function mapComment(comment): TaskComment {
+  return {
+    id: comment.id,
+    taskId: comment.task_id,
+    projectId: comment.project_id || undefined,
+    parentId: comment.parent_id || undefined,
+    authorId: comment.author_id,
+    body: comment.body,
+    mentions: comment.mentions || [],
+    createdAt: comment.created_at,
+    updatedAt: comment.updated_at
+  };
+}
+
+/**
+ * Fetches all comments on a task
+ * @param taskId - The task's ID
+ * @returns Comments, oldest first
+ */
+export async function fetchTaskComments(taskId: string) {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+  
+  if (error) {
+    console.error('Error fetching comments:', error);
+    if (error.code === '42P01') {
+      // Table doesn't exist yet
+      return [];
+    }
+    throw error;
+  }
+  
+  return data.map(mapComment);
+}
+
+/**
+ * Adds a comment to a task; mentioned users are notified by the database
+ * @param comment - The comment data
+ * @returns The created comment
+ */
+export async function createComment(
+  comment: Pick<TaskComment, 'taskId' | 'projectId' | 'parentId' | 'authorId' | 'body' | 'mentions'>
+) {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .insert({
+      task_id: comment.taskId,
+      project_id: comment.projectId,
+      parent_id: comment.parentId,
+      author_id: comment.authorId,
+      body: comment.body,
+      mentions: comment.mentions
+    })
+    .select()
+    .single();
+  
+  if (error) {
+    console.error('Error creating comment:', error);
+    throw error;
+  }
+  
+  return mapComment(data);
+}
+
+/**
+ * Edits the body of a comment
+ * @param id - The comment ID
+ * @param body - The new body
+ * @param mentions - IDs of the users mentioned in the new body
+ * @returns The updated comment
+ */
+export async function updateComment(id: string, body: string, mentions: string[]) {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .update({ body, mentions, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+  
+  if (error) {
+    console.error('Error updating comment:', error);
+    throw error;
+  }
+  
+  return mapComment(data);
+}
+
+/**
+ * Deletes a comment along with its replies
+ * @param id - The comment ID
+ * @returns boolean indicating success
+ */
+export async function deleteComment(id: string) {
+  const { error } = await supabase
+    .from('task_comments')
+    .delete()
+    .eq('id', id);
+  
+  if (error) {
+    console.error('Error deleting comment:', error);
+    throw error;
+  }
+  
+  return true;
+}
@@ -0,0 +1,110 @@
+import { supabase } from './client';
+import { type Epic } from '@/types/epic';
+
+/**
+ * Maps an epic row from the database schema to our application schema
+ * @param epic - The database row
+ * @returns The epic
+ */
+function mapEpic(epic): Epic {
+  return {
+    id: epic.id,
+    projectId: epic.project_id,
+    name: epic.name,
+    description: epic.description || '',
+    color: epic.color,
+    userId: epic.user_id || undefined,
+    createdAt: epic.created_at
+  };
+}
+
+/**
+ * Fetches all epics of a project
+ * @param projectId - The project's ID
+ * @returns Array of epics, oldest first
+ */
+export async function fetchProjectEpics(projectId: string) {
+  const { data, error } = await supabase
+    .from('epics')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+  
+  if (error) {
+    console.error('Error fetching epics:', error);
+    if (error.code === '42P01') {
+      // Table doesn't exist yet
+      return [];
+    }
+    throw error;
+  }
+  
+  return data.map(mapEpic);
+}
+
+/**
+ * Creates a new epic
+ * @param epic - The epic data
+ * @returns The created epic
+ */
+export async function createEpic(epic: Pick<Epic, 'projectId' | 'name' | 'description' | 'color'>) {
+  const { data, error } = await supabase
+    .from('epics')
+    .insert({
+      project_id: epic.projectId,
+      name: epic.name,
+      description: epic.description,
+      color: epic.color
+    })
+    .select()
+    .single();
+  
+  if (error) {
+    console.error('Error creating epic:', error);
+    throw error;
+  }
+  
+  return mapEpic(data);
+}
+
+/**
+ * Updates an existing epic
+ * @param epic - The epic data
+ * @returns boolean indicating success
+ */
+export async function updateEpic(epic: Epic) {
+  const { error } = await supabase
+    .from('epics')
+    .update({
+      name: epic.name,
+      description: epic.description,
+      color: epic.color
+    })
+    .eq('id', epic.id);
+  
+  if (error) {
+    console.error('Error updating epic:', error);
+    throw error;
+  }
+  
+  return true;
+}
+
+/**
+ * Deletes an epic; its tasks are kept and no longer belong to an epic
+ * @param id - The epic ID
+ * @returns boolean indicating success
+ */
+export async function deleteEpic(id: string) {
+  const { error } = await supabase
+    .from('epics')
+    .delete()
+    .eq('id', id);
+  
+  if (error) {
+    console.error('Error deleting epic:', error);
+    throw error;
+  }
+  
+  return true;
+}
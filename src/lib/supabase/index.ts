@@ -7,3 +7,18 @@ export * from './tasks';
 export * from './sprints';
 export * from './sprint-tasks';
 export * from './projects';
+export * from './task-history';
+export * from './task-events';
+export * from './profiles';
+export * from './comments';
+export * from './notifications';
+export * from './task-links';
+export * from './epics';
+export * from './labels';
+export * from './workflow';
+export * from './wip-breaches';
+export * from './project-members';
+export * from './invites';
+export * from './capacity';
+export * from './project-import';
+export * from './project-archive';
@@ -0,0 +1,205 @@
+import { supabase } from './client';
+import { type InviteDetails, type ProjectInvite, type ProjectInviteUse } from '@/types/invite';
+
+/**
+ * Maps an invite row from the database schema to our application schema
+ * @param invite - The database row
+ * @returns The invite
+ */
+function mapInvite(invite): ProjectInvite {
+  return {
+    id: invite.id,
+    projectId: invite.project_id,
+    code: invite.code || undefined,
+    email: invite.email || undefined,
+    token: invite.token || undefined,
+    role: invite.role,
+    expiresAt: invite.expires_at || undefined,
+    maxUses: invite.max_uses ?? undefined,
+    useCount: invite.use_count,
+    revokedAt: invite.revoked_at || undefined,
+    createdBy: invite.created_by || undefined,
+    createdAt: invite.created_at
+  };
+}
+
+/**
+ * Maps an invite use row from the database schema to our application schema
+ * @param use - The database row
+ * @returns The invite use
+ */
+function mapInviteUse(use): ProjectInviteUse {
+  return {
+    id: use.id,
+    inviteId: use.invite_id,
+    projectId: use.project_id,
+    userId: use.user_id || undefined,
+    role: use.role,
+    joinedAt: use.joined_at
+  };
+}
+
+/**
+ * Fetches a project's invites, including expired and revoked ones
+ * @param projectId - The project's ID
+ * @returns Invites, newest first
+ */
+export async function fetchProjectInvites(projectId: string) {
+  const { data, error } = await supabase
+    .from('project_invites')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+  
+  if (error) {
+    console.error('Error fetching invites:', error);
+    if (error.code === '42P01') {
+      // Table doesn't exist yet
+      return [];
+    }
+    throw error;
+  }
+  
+  return data.map(mapInvite);
+}
+
+/**
+ * Creates an invite with a new code, generated by the database
+ * @param invite - The invite settings
+ * @returns The created invite
+ */
+export async function createProjectInvite(invite: Pick<ProjectInvite, 'projectId' | 'role' | 'expiresAt' | 'maxUses'>) {
+  const { data, error } = await supabase.rpc('create_project_invite', {
+    p_project_id: invite.projectId,
+    p_role: invite.role,
+    p_expires_at: invite.expiresAt ?? null,
+    p_max_uses: invite.maxUses ?? null
+  });
+  
+  if (error) {
+    console.error('Error creating invite:', error);
+    throw error;
+  }
+  
+  return mapInvite(data);
+}
+
+/**
+ * Creates a single-use invite for an email address. Any pending invite to the
+ * same address is revoked.
+ * @param invite - The invite settings
+ * @returns The created invite
+ */
+export async function createEmailInvite(invite: Pick<ProjectInvite, 'projectId' | 'role'> & { email: string }) {
+  const { data, error } = await supabase.rpc('create_email_invite', {
+    p_project_id: invite.projectId,
+    p_email: invite.email,
+    p_role: invite.role
+  });
+  
+  if (error) {
+    console.error('Error creating email invite:', error);
+    throw error;
+  }
+  
+  return mapInvite(data);
+}
+
+/**
+ * Emails the join link of an email invite through the send-invite function
+ * @param inviteId - The invite's ID
+ * @returns boolean indicating success
+ */
+export async function sendInviteEmail(inviteId: string) {
+  const { error } = await supabase.functions.invoke('send-invite', {
+    body: { inviteId }
+  });
+  
+  if (error) {
+    console.error('Error sending invite email:', error);
+    throw error;
+  }
+  
+  return true;
+}
+
+/**
+ * Fetches what an invite link leads to. Works without being signed in.
+ * @param token - The token from the invite link
+ * @returns The invite details, or null if the link is not valid
+ */
+export async function fetchInviteDetails(token: string): Promise<InviteDetails | null> {
+  const { data, error } = await supabase.rpc('get_invite_details', { p_token: token });
+  
+  if (error) {
+    console.error('Error fetching invite details:', error);
+    throw error;
+  }
+  
+  const details = data?.[0];
+  if (!details) return null;
+  
+  return {
+    projectName: details.project_name,
+    role: details.role as InviteDetails['role'],
+    email: details.email || undefined,
+    expiresAt: details.expires_at || undefined,
+    usable: details.usable
+  };
+}
+
+/**
+ * Replaces an invite's code. The old code stops working at once.
+ * @param inviteId - The invite's ID
+ * @returns The invite with its new code
+ */
+export async function rotateProjectInvite(inviteId: string) {
+  const { data, error } = await supabase.rpc('rotate_project_invite', { p_invite_id: inviteId });
+  
+  if (error) {
+    console.error('Error rotating invite:', error);
+    throw error;
+  }
+  
+  return mapInvite(data);
+}
+
+/**
+ * Revokes an invite so its code can no longer be used
+ * @param inviteId - The invite's ID
+ * @returns The revoked invite
+ */
+export async function revokeProjectInvite(inviteId: string) {
+  const { data, error } = await supabase.rpc('revoke_project_invite', { p_invite_id: inviteId });
+  
+  if (error) {
+    console.error('Error revoking invite:', error);
+    throw error;
+  }
+  
+  return mapInvite(data);
+}
+
+/**
+ * Fetches who joined a project through which invite
+ * @param projectId - The project's ID
+ * @returns Invite uses, newest first
+ */
+export async function fetchInviteUses(projectId: string) {
+  const { data, error } = await supabase
+    .from('project_invite_uses')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('joined_at', { ascending: false });
+  
+  if (error) {
+    console.error('Error fetching invite uses:', error);
+    if (error.code === '42P01') {
+      // Table doesn't exist yet
+      return [];
+    }
+    throw error;
+  }
+  
+  return data.map(mapInviteUse);
+}
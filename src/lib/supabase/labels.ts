@@ -0,0 +1,136 @@
+import { supabase } from './client';
+import { type Label } from '@/types/label';
+
+/**
+ * Maps a label row from the database schema to our application schema
+ * @param label - The database row
+ * @returns The label
+ */
+export function mapLabel(label): Label {
+  return {
+    id: label.id,
+    projectId: label.project_id,
+    name: label.name,
+    color: label.color
+  };
+}
+
+/**
+ * Fetches all labels of a project
+ * @param projectId - The project's ID
+ * @returns Array of labels sorted by name
+ */
+export async function fetchProjectLabels(projectId: string) {
+  const { data, error } = await supabase
+    .from('labels')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('name', { ascending: true });
+  
+  if (error) {
+    console.error('Error fetching labels:', error);
+    if (error.code === '42P01') {
+      // Table doesn't exist yet
+      return [];
+    }
+    throw error;
+  }
+  
+  return data.map(mapLabel);
+}
+
+/**
+ * Creates a new label
+ * @param label - The label data
+ * @returns The created label
+ */
+export async function createLabel(label: Omit<Label, 'id'>) {
+  const { data, error } = await supabase
+    .from('labels')
+    .insert({
+      project_id: label.projectId,
+      name: label.name,
+      color: label.color
+    })
+    .select()
+    .single();
+  
+  if (error) {
+    console.error('Error creating label:', error);
+    throw error;
+  }
+  
+  return mapLabel(data);
+}
+
+/**
+ * Renames or recolors a label; every task carrying it picks up the change
+ * @param label - The label data
+ * @returns boolean indicating success
+ */
+export async function updateLabel(label: Label) {
+  const { error } = await supabase
+    .from('labels')
+    .update({
+      name: label.name,
+      color: label.color
+    })
+    .eq('id', label.id);
+  
+  if (error) {
+    console.error('Error updating label:', error);
+    throw error;
+  }
+  
+  return true;
+}
+
+/**
+ * Deletes a label and removes it from every task
+ * @param id - The label ID
+ * @returns boolean indicating success
+ */
+export async function deleteLabel(id: string) {
+  const { error } = await supabase
+    .from('labels')
+    .delete()
+    .eq('id', id);
+  
+  if (error) {
+    console.error('Error deleting label:', error);
+    throw error;
+  }
+  
+  return true;
+}
+
+/**
+ * Replaces the labels of a task
+ * @param taskId - The task ID
+ * @param labelIds - The IDs of all labels the task should carry
+ * @returns boolean indicating success
+ */
+export async function setTaskLabels(taskId: string, labelIds: string[]) {
+  const { error: deleteError } = await supabase
+    .from('task_labels')
+    .delete()
+    .eq('task_id', taskId);
+  
+  if (deleteError) {
+    console.error('Error clearing task labels:', deleteError);
+    throw deleteError;
+  }
+  
+  if (labelIds.length === 0) return true;
+  
+  const { error } = await supabase
+    .from('task_labels')
+    .insert(labelIds.map(labelId => ({ task_id: taskId, label_id: labelId })));
+  
+  if (error) {
+    console.error('Error setting task labels:', error);
+    throw error;
+  }
+  
+  return true;
+}
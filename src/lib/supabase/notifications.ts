@@ -0,0 +1,69 @@
+import { supabase } from './client';
+import { type Notification } from '@/types/notification';
+
+/**
+ * Maps a notification row from the database schema to our application schema
+ * @param notification - The database row
+ * @returns The notification
+ */
+function mapNotification(notification): Notification {
+  return {
+    id: notification.id,
+    userId: notification.user_id,
+    actorId: notification.actor_id || undefined,
+    projectId: notification.project_id || undefined,
+    taskId: notification.task_id || undefined,
+    commentId: notification.comment_id || undefined,
+    type: notification.type as Notification['type'],
+    readAt: notification.read_at || undefined,
+    createdAt: notification.created_at,
+    actorName: notification.actor?.name || undefined,
+    taskTitle: notification.task?.title || undefined
+  };
+}
+
+/**
+ * Fetches the latest notifications of a user, with the actor's name and task title
+ * @param userId - The user's ID
+ * @returns Notifications, newest first
+ */
+export async function fetchNotifications(userId: string) {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*, task:tasks(title), actor:profiles!notifications_actor_id_fkey(name)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(50);
+  
+  if (error) {
+    console.error('Error fetching notifications:', error);
+    if (error.code === '42P01') {
+      // Table doesn't exist yet
+      return [];
+    }
+    throw error;
+  }
+  
+  return data.map(mapNotification);
+}
+
+/**
+ * Marks notifications as read
+ * @param ids - The notification IDs
+ * @returns boolean indicating success
+ */
+export async function markNotificationsRead(ids: string[]) {
+  if (ids.length === 0) return true;
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', ids);
+  
+  if (error) {
+    console.error('Error marking notifications as read:', error);
+    throw error;
+  }
+  
+  return true;
+}
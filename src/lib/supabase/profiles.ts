@@ -0,0 +1,23 @@
+import { supabase } from './client';
+import { type Profile } from '@/types/user';
+
+/**
+ * Fetches the profiles of a set of users
+ * @param userIds - The users' IDs
+ * @returns Array of profiles, in no particular order
+ */
+export async function fetchProfiles(userIds: string[]) {
+  if (userIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .in('id', userIds);
+  
+  if (error) {
+    console.error('Error fetching profiles:', error);
+    throw error;
+  }
+  
+  return data as Profile[];
+}
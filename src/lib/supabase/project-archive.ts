@@ -0,0 +1,62 @@
+import { supabase } from './client';
+import { type Json } from '@/integrations/supabase/types';
+import { type ProjectArchive } from '@/types/project-archive';
+import { PROJECT_ARCHIVE_FORMAT, PROJECT_ARCHIVE_VERSION } from '@/lib/project-archive';
+
+export interface RestoreResult {
+  projectId: string;
+  invites: { id: string; email: string }[]; // Email invites created for the archived members
+  uninvitedMembers: string[]; // IDs of archived members without an email address, who cannot be invited
+}
+
+/**
+ * Exports a project and everything in it. Only owners and admins can export.
+ * @param projectId - The project's ID
+ * @returns The archive
+ */
+export async function exportProjectArchive(projectId: string): Promise<ProjectArchive> {
+  const { data, error } = await supabase.rpc('export_project_archive', {
+    p_project_id: projectId
+  });
+
+  if (error) {
+    console.error('Error exporting project:', error);
+    throw error;
+  }
+
+  return {
+    format: PROJECT_ARCHIVE_FORMAT,
+    version: PROJECT_ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    ...(data as object)
+  } as ProjectArchive;
+}
+
+/**
+ * Restores an archive as a new project owned by the current user. Every row
+ * gets a new ID, and the archived members are invited back by email rather
+ * than added.
+ * @param archive - The archive
+ * @returns The new project's ID, the invites to send and the members who could not be invited
+ */
+export async function restoreProjectArchive(archive: ProjectArchive): Promise<RestoreResult> {
+  const { data, error } = await supabase.rpc('restore_project_archive', {
+    p_archive: archive as unknown as Json
+  });
+
+  if (error) {
+    console.error('Error restoring project:', error);
+    throw error;
+  }
+
+  const result = data as {
+    project_id: string;
+    invites: { id: string; email: string }[];
+    uninvited_members: { user_id: string | null }[];
+  };
+  return {
+    projectId: result.project_id,
+    invites: result.invites,
+    uninvitedMembers: result.uninvited_members.map(member => member.user_id).filter(Boolean)
+  };
+}
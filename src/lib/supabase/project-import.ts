@@ -0,0 +1,90 @@
+import { supabase } from './client';
+import { type Json } from '@/integrations/supabase/types';
+import { type ImportPlan } from '@/lib/project-import';
+import { rankBetween } from '@/lib/rank';
+import { nextRank } from './tasks';
+
+export interface ImportResult {
+  sprints: number;
+  epics: number;
+  labels: number; // Labels created; labels the project already had are reused
+  tasks: number;
+}
+
+/**
+ * Creates everything an import plan holds in a project, in one transaction:
+ * either the whole plan is imported or nothing is
+ * @param plan - The import plan
+ * @param projectId - The project's ID
+ * @returns How many records were created
+ */
+export async function importProjectPlan(plan: ImportPlan, projectId: string): Promise<ImportResult> {
+  // Rows get their IDs here, so the plan's keys can be turned into references
+  const epicIds = new Map(plan.epics.map(epic => [epic.key, crypto.randomUUID()]));
+  const sprintIds = new Map(plan.sprints.map(sprint => [sprint.key, crypto.randomUUID()]));
+  const taskIds = new Map(plan.tasks.map(task => [task.key, crypto.randomUUID()]));
+
+  let rank = await nextRank(projectId);
+  const tasks = plan.tasks.map((task, index) => {
+    if (index > 0) rank = rankBetween(rank, null);
+    return {
+      id: taskIds.get(task.key),
+      title: task.title,
+      description: task.description,
+      status: task.status,
+      priority: task.priority,
+      type: task.type,
+      estimate: task.points,
+      assignee_ids: task.assignees,
+      sprint_id: sprintIds.get(task.sprintKey) ?? null,
+      rank,
+      parent_id: taskIds.get(task.parentKey) ?? null,
+      epic_id: epicIds.get(task.epicKey) ?? null,
+      checklist: task.checklist,
+      created_at: task.createdAt ?? null,
+      started_at: task.startedAt ?? null,
+      completed_at: task.completedAt ?? null
+    };
+  });
+
+  const sprints = plan.sprints.map(sprint => {
+    const completed = sprint.status === 'completed';
+    const sprintTasks = plan.tasks.filter(task => task.sprintKey === sprint.key && !task.parentKey);
+    const points = sprintTasks.reduce((sum, task) => sum + task.points, 0);
+
+    return {
+      id: sprintIds.get(sprint.key),
+      name: sprint.name,
+      start_date: sprint.startDate,
+      end_date: sprint.endDate,
+      status: sprint.status,
+      started_at: completed ? sprint.startDate : null,
+      completed_at: completed ? sprint.endDate : null,
+      // Completed points are summed from the done tasks in the database
+      committed_points: completed ? points : null
+    };
+  });
+
+  const { data, error } = await supabase.rpc('import_project_plan', {
+    p_project_id: projectId,
+    p_plan: {
+      labels: plan.labels.map(label => ({ name: label.name, color: label.color })),
+      epics: plan.epics.map(epic => ({
+        id: epicIds.get(epic.key),
+        name: epic.name,
+        description: epic.description,
+        color: epic.color
+      })),
+      sprints,
+      tasks,
+      task_labels: plan.tasks.flatMap(task => task.labels.map(label => ({ task_id: taskIds.get(task.key), label })))
+    } as unknown as Json
+  });
+
+  if (error) {
+    console.error('Error importing project plan:', error);
+    throw error;
+  }
+
+  return data as unknown as ImportResult;
+}
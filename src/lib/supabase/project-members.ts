@@ -0,0 +1,145 @@
+import { supabase } from './client';
+import { type ProjectMember, type ProjectRole } from '@/types/user';
+
+/**
+ * Maps a project membership row from the database schema to our application schema
+ * @param member - The database row
+ * @returns The project membership
+ */
+function mapProjectMember(member): ProjectMember {
+  return {
+    id: member.id,
+    projectId: member.project_id,
+    userId: member.user_id,
+    role: member.role,
+    createdAt: member.created_at
+  };
+}
+
+/**
+ * Fetches everyone with access to a project
+ * @param projectId - The project's ID
+ * @returns Memberships in the order people joined
+ */
+export async function fetchProjectMemberships(projectId: string) {
+  const { data, error } = await supabase
+    .from('project_members')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+  
+  if (error) {
+    console.error('Error fetching project members:', error);
+    if (error.code === '42P01') {
+      // Table doesn't exist yet
+      return [];
+    }
+    throw error;
+  }
+  
+  return data.map(mapProjectMember);
+}
+
+/**
+ * Fetches a user's role in a project
+ * @param projectId - The project's ID
+ * @param userId - The user's ID
+ * @returns The role, or null if the user is not a member
+ */
+export async function fetchProjectRole(projectId: string, userId: string): Promise<ProjectRole | null> {
+  const { data, error } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  
+  if (error) {
+    console.error('Error fetching project role:', error);
+    throw error;
+  }
+  
+  return (data?.role as ProjectRole) || null;
+}
+
+/**
+ * Changes a member's role. Ownership is changed with transferProjectOwnership.
+ * @param projectId - The project's ID
+ * @param userId - The member's user ID
+ * @param role - The new role
+ * @returns The updated membership
+ */
+export async function updateMemberRole(projectId: string, userId: string, role: Exclude<ProjectRole, 'owner'>) {
+  const { data, error } = await supabase
+    .from('project_members')
+    .update({ role })
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+  
+  if (error) {
+    console.error('Error updating member role:', error);
+    throw error;
+  }
+  
+  return mapProjectMember(data);
+}
+
+/**
+ * Removes a member from a project and unassigns them from its open tasks
+ * @param projectId - The project's ID
+ * @param userId - The member's user ID
+ * @returns boolean indicating success
+ */
+export async function removeProjectMember(projectId: string, userId: string) {
+  const { error } = await supabase.rpc('remove_project_member', {
+    p_project_id: projectId,
+    p_user_id: userId
+  });
+  
+  if (error) {
+    console.error('Error removing project member:', error);
+    throw error;
+  }
+  
+  return true;
+}
+
+/**
+ * Makes another member the project owner. The current owner becomes an admin.
+ * @param projectId - The project's ID
+ * @param newOwnerId - The new owner's user ID
+ * @returns boolean indicating success
+ */
+export async function transferProjectOwnership(projectId: string, newOwnerId: string) {
+  const { error } = await supabase.rpc('transfer_project_ownership', {
+    p_project_id: projectId,
+    p_new_owner_id: newOwnerId
+  });
+  
+  if (error) {
+    console.error('Error transferring project ownership:', error);
+    throw error;
+  }
+  
+  return true;
+}
+
+/**
+ * Fetches the email addresses of a project's members
+ * @param projectId - The project's ID
+ * @returns Email addresses by user ID
+ */
+export async function fetchMemberEmails(projectId: string): Promise<Record<string, string>> {
+  const { data, error } = await supabase.rpc('get_project_member_emails', {
+    p_project_id: projectId
+  });
+  
+  if (error) {
+    console.error('Error fetching member emails:', error);
+    throw error;
+  }
+  
+  return Object.fromEntries(data.map(member => [member.user_id, member.email]));
+}
@@ -1,6 +1,7 @@
 
 import { supabase } from './client';
 import { type Project } from '@/types/user';
+import { type WipLimitMode } from '@/types/workflow';
 
 /**
  * Fetches all projects a user has access to
@@ -81,48 +82,54 @@ export async function createProject(project: Omit<Project, 'id'> & { user_id: st
 }
 
 /**
- * Joins a project using the project code
+ * Joins a project using the project code. Runs on the server, as the project
+ * cannot be read before joining it.
  * @param code - The project join code
- * @param userId - The user's ID
  * @returns The joined project
  */
-export async function joinProject(code: string, userId: string) {
-  try {
-    // Find the project with the given code
-    const { data, error } = await supabase
-      .from('projects')
-      .select('*')
-      .eq('code', code)
-      .maybeSingle();
-    
-    if (error) throw error;
-    
-    if (!data) {
-      throw new Error('Project not found with this code');
-    }
-    
-    // If user is already a member, just return the project
-    if (data.members && data.members.includes(userId)) {
-      return data as Project;
-    }
-    
-    // Add user to project members
-    const updatedMembers = [...(data.members || []), userId];
-    
-    const { error: updateError } = await supabase
-      .from('projects')
-      .update({ members: updatedMembers })
-      .eq('id', data.id);
-      
-    if (updateError) throw updateError;
-    
-    // Return the updated project
-    return {
-      ...data,
-      members: updatedMembers
-    } as Project;
-  } catch (error) {
+export async function joinProject(code: string) {
+  const { data, error } = await supabase.rpc('join_project', { p_code: code });
+  
+  if (error) {
     console.error('Error joining project:', error);
     throw error;
   }
+  
+  return data as Project;
+}
+
+/**
+ * Joins a project through the link of an email invite
+ * @param token - The token from the invite link
+ * @returns The joined project
+ */
+export async function joinProjectByToken(token: string) {
+  const { data, error } = await supabase.rpc('join_project_by_token', { p_token: token });
+  
+  if (error) {
+    console.error('Error joining project:', error);
+    throw error;
+  }
+  
+  return data as Project;
+}
+
+/**
+ * Sets whether a project's WIP limits only warn or reject moves
+ * @param projectId - The project's ID
+ * @param mode - The new enforcement mode
+ * @returns boolean indicating success
+ */
+export async function updateWipLimitMode(projectId: string, mode: WipLimitMode) {
+  const { error } = await supabase
+    .from('projects')
+    .update({ wip_limit_mode: mode })
+    .eq('id', projectId);
+  
+  if (error) {
+    console.error('Error updating WIP limit mode:', error);
+    throw error;
+  }
+  
+  return true;
 }
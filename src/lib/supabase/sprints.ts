@@ -1,6 +1,29 @@
 import { supabase } from './client';
 import { type Sprint } from '@/types/sprint';
 
+/**
+ * Maps a sprint row from the database schema to our application schema
+ * @param sprint - The database row
+ * @returns The sprint
+ */
+function mapSprint(sprint): Sprint {
+  return {
+    id: sprint.id,
+    name: sprint.name,
+    startDate: sprint.start_date || new Date().toISOString(),
+    endDate: sprint.end_date || new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(), // Default to 2 weeks later
+    tasks: [],
+    projectId: sprint.project_id,
+    status: sprint.status || 'planned',
+    startedAt: sprint.started_at || undefined,
+    completedAt: sprint.completed_at || undefined,
+    committedPoints: sprint.committed_points ?? undefined,
+    completedPoints: sprint.completed_points ?? undefined,
+    hoursPerDay: sprint.hours_per_day != null ? Number(sprint.hours_per_day) : undefined,
+    pointsPerDay: sprint.points_per_day != null ? Number(sprint.points_per_day) : undefined
+  };
+}
+
 /**
  * Fetches all sprints for a user
  * @param userId - The user's ID
@@ -22,16 +45,7 @@ export async function fetchSprints(userId: string) {
   }
   
   // Map from database schema to our application schema
-  const mappedSprints = data.map(sprint => ({
-    id: sprint.id,
-    name: sprint.name,
-    startDate: sprint.start_date || new Date().toISOString(),
-    endDate: sprint.end_date || new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(), // Default to 2 weeks later
-    tasks: [],
-    projectId: sprint.project_id
-  }));
-  
-  return mappedSprints as Sprint[];
+  return data.map(mapSprint);
 }
 
 /**
@@ -61,14 +75,7 @@ export async function createSprint(sprint: Omit<Sprint, 'id'> & { userId: string
   }
   
   // Map back to our application schema
-  return {
-    id: data.id,
-    name: data.name,
-    startDate: data.start_date || new Date().toISOString(),
-    endDate: data.end_date || new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
-    tasks: [],
-    projectId: data.project_id
-  } as Sprint;
+  return mapSprint(data);
 }
 
 /**
@@ -83,7 +90,8 @@ export async function updateSprint(sprint: Sprint & { userId: string }) {
     start_date: sprint.startDate,
     end_date: sprint.endDate,
     user_id: sprint.userId,
-    project_id: sprint.projectId
+    project_id: sprint.projectId,
+    status: sprint.status
   };
   
   const { error } = await supabase
@@ -139,14 +147,70 @@ export async function fetchProjectSprints(projectId: string) {
   }
   
   // Map from database schema to our application schema
-  const mappedSprints = data.map(sprint => ({
-    id: sprint.id,
-    name: sprint.name,
-    startDate: sprint.start_date || new Date().toISOString(),
-    endDate: sprint.end_date || new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
-    tasks: [],
-    projectId: sprint.project_id
-  }));
+  return data.map(mapSprint);
+}
+
+/**
+ * Starts a planned sprint
+ * @param id - The sprint ID
+ * @returns The started sprint
+ */
+export async function startSprint(id: string) {
+  const { data, error } = await supabase
+    .from('sprints')
+    .update({ status: 'active', started_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+  
+  if (error) {
+    console.error('Error starting sprint:', error);
+    throw error;
+  }
+  
+  return mapSprint(data);
+}
+
+/**
+ * Completes an active sprint and stores its points snapshot for reporting.
+ * Unfinished tasks are carried over in the same transaction; the database
+ * works out which tasks are unfinished and the points snapshot.
+ * @param id - The sprint ID
+ * @param destinationId - The planned sprint unfinished tasks move to, or null for the product backlog
+ * @returns The completed sprint
+ */
+export async function completeSprint(id: string, destinationId: string | null) {
+  const { data, error } = await supabase.rpc('complete_sprint', {
+    p_sprint_id: id,
+    p_destination_id: destinationId
+  });
+  
+  if (error) {
+    console.error('Error completing sprint:', error);
+    throw error;
+  }
+  
+  return mapSprint(data);
+}
+
+/**
+ * Updates the rates a sprint's capacity is worked out with
+ * @param id - The sprint ID
+ * @param rates - Working hours and points of a fully available member per day
+ * @returns The updated sprint
+ */
+export async function updateSprintRates(id: string, rates: { hoursPerDay: number; pointsPerDay: number }) {
+  const { data, error } = await supabase
+    .from('sprints')
+    .update({ hours_per_day: rates.hoursPerDay, points_per_day: rates.pointsPerDay })
+    .eq('id', id)
+    .select()
+    .single();
+  
+  if (error) {
+    console.error('Error updating sprint rates:', error);
+    throw error;
+  }
   
-  return mappedSprints as Sprint[];
+  return mapSprint(data);
 }
@@ -0,0 +1,73 @@
+import { supabase } from './client';
+import { type TaskEvent, type TaskEventChanges } from '@/types/event';
+
+/**
+ * Maps a task event row from the database schema to our application schema
+ * @param event - The database row
+ * @returns The task event
+ */
+function mapTaskEvent(event): TaskEvent {
+  return {
+    id: event.id,
+    taskId: event.task_id,
+    projectId: event.project_id || undefined,
+    actorId: event.actor_id || undefined,
+    type: event.type as TaskEvent['type'],
+    changes: (event.changes || {}) as TaskEventChanges,
+    createdAt: event.created_at
+  };
+}
+
+/**
+ * Fetches the change history of a task
+ * @param taskId - The task's ID
+ * @returns Events, newest first
+ */
+export async function fetchTaskEvents(taskId: string) {
+  const { data, error } = await supabase
+    .from('task_events')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: false });
+  
+  if (error) {
+    console.error('Error fetching task events:', error);
+    if (error.code === '42P01') {
+      // Table doesn't exist yet
+      return [];
+    }
+    throw error;
+  }
+  
+  return data.map(mapTaskEvent);
+}
+
+/**
+ * Fetches the change history of every task in a project
+ * @param projectId - The project's ID
+ * @param since - Only return events after this ISO timestamp
+ * @returns Events, newest first
+ */
+export async function fetchProjectTaskEvents(projectId: string, since?: string) {
+  let query = supabase
+    .from('task_events')
+    .select('*')
+    .eq('project_id', projectId);
+  
+  if (since) {
+    query = query.gt('created_at', since);
+  }
+  
+  const { data, error } = await query.order('created_at', { ascending: false });
+  
+  if (error) {
+    console.error('Error fetching project task events:', error);
+    if (error.code === '42P01') {
+      // Table doesn't exist yet
+      return [];
+    }
+    throw error;
+  }
+  
+  return data.map(mapTaskEvent);
+}
@@ -0,0 +1,83 @@
+import { supabase } from './client';
+import { type TaskHistoryEntry } from '@/types/task';
+
+/**
+ * Maps a task history row from the database schema to our application schema
+ * @param entry - The database row
+ * @returns The history entry
+ */
+function mapHistoryEntry(entry): TaskHistoryEntry {
+  return {
+    taskId: entry.task_id,
+    projectId: entry.project_id || undefined,
+    sprintId: entry.sprint_id || undefined,
+    status: entry.status as TaskHistoryEntry['status'],
+    points: entry.estimate || 0,
+    deleted: entry.deleted,
+    recordedAt: entry.recorded_at
+  };
+}
+
+// Rows returned per request; the API caps a single response at this many
+const HISTORY_PAGE_SIZE = 1000;
+
+/**
+ * Fetches the full history of every task that has ever been in a sprint,
+ * including the entries recorded after a task left it, page by page
+ * @param sprintId - The sprint's ID
+ * @returns History entries in chronological order
+ */
+export async function fetchSprintTaskHistory(sprintId: string) {
+  const entries: TaskHistoryEntry[] = [];
+  
+  for (let from = 0; ; from += HISTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('sprint_task_history', { p_sprint_id: sprintId })
+      .order('recorded_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + HISTORY_PAGE_SIZE - 1);
+    
+    if (error) {
+      console.error('Error fetching sprint task history:', error);
+      if (error.code === '42P01') {
+        // Table doesn't exist yet
+        return [];
+      }
+      throw error;
+    }
+    
+    entries.push(...data.map(mapHistoryEntry));
+    if (data.length < HISTORY_PAGE_SIZE) return entries;
+  }
+}
+
+/**
+ * Fetches the history of every task in a project, page by page
+ * @param projectId - The project's ID
+ * @returns History entries in chronological order
+ */
+export async function fetchProjectTaskHistory(projectId: string) {
+  const entries: TaskHistoryEntry[] = [];
+  
+  for (let from = 0; ; from += HISTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('task_history')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('recorded_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + HISTORY_PAGE_SIZE - 1);
+    
+    if (error) {
+      console.error('Error fetching project task history:', error);
+      if (error.code === '42P01') {
+        // Table doesn't exist yet
+        return [];
+      }
+      throw error;
+    }
+    
+    entries.push(...data.map(mapHistoryEntry));
+    if (data.length < HISTORY_PAGE_SIZE) return entries;
+  }
+}
@@ -0,0 +1,150 @@
+import { supabase } from './client';
+import { type TaskLink } from '@/types/link';
+import { type Task } from '@/types/task';
+
+/**
+ * Maps a task link row from the database schema to our application schema
+ * @param link - The database row
+ * @returns The task link
+ */
+function mapTaskLink(link): TaskLink {
+  return {
+    id: link.id,
+    projectId: link.project_id || undefined,
+    sourceId: link.source_id,
+    targetId: link.target_id,
+    type: link.type as TaskLink['type'],
+    createdAt: link.created_at
+  };
+}
+
+/**
+ * Maps the blocking task embedded in a link row
+ * @param link - The database row
+ * @returns The blocking task, or null if it is not visible
+ */
+function mapBlocker(link): Pick<Task, 'id' | 'title' | 'status' | 'sprintId'> | null {
+  if (!link.source) return null;
+
+  return {
+    id: link.source.id,
+    title: link.source.title,
+    status: link.source.status as Task['status'],
+    sprintId: link.source.sprint_id || undefined
+  };
+}
+
+/**
+ * Fetches every link a task takes part in, in either direction
+ * @param taskId - The task's ID
+ * @returns Array of task links
+ */
+export async function fetchTaskLinks(taskId: string) {
+  const { data, error } = await supabase
+    .from('task_links')
+    .select('*')
+    .or(`source_id.eq.${taskId},target_id.eq.${taskId}`)
+    .order('created_at', { ascending: true });
+  
+  if (error) {
+    console.error('Error fetching task links:', error);
+    if (error.code === '42P01') {
+      // Table doesn't exist yet
+      return [];
+    }
+    throw error;
+  }
+  
+  return data.map(mapTaskLink);
+}
+
+/**
+ * Fetches all links between the tasks of a project
+ * @param projectId - The project's ID
+ * @returns Array of task links
+ */
+export async function fetchProjectTaskLinks(projectId: string) {
+  const { data, error } = await supabase
+    .from('task_links')
+    .select('*')
+    .eq('project_id', projectId);
+  
+  if (error) {
+    console.error('Error fetching project task links:', error);
+    if (error.code === '42P01') {
+      // Table doesn't exist yet
+      return [];
+    }
+    throw error;
+  }
+  
+  return data.map(mapTaskLink);
+}
+
+/**
+ * Fetches the tasks that block a task
+ * @param taskId - The blocked task's ID
+ * @returns The blocking tasks, whatever their status
+ */
+export async function fetchBlockers(taskId: string) {
+  const { data, error } = await supabase
+    .from('task_links')
+    .select('source:tasks!task_links_source_id_fkey(id, title, status, sprint_id)')
+    .eq('target_id', taskId)
+    .eq('type', 'blocks');
+  
+  if (error) {
+    console.error('Error fetching blockers:', error);
+    if (error.code === '42P01') {
+      // Table doesn't exist yet
+      return [];
+    }
+    throw error;
+  }
+  
+  return data.map(mapBlocker).filter(Boolean);
+}
+
+/**
+ * Links two tasks. The database rejects "blocks" links that would create a cycle.
+ * @param link - The link data
+ * @returns The created link
+ */
+export async function createTaskLink(link: Pick<TaskLink, 'projectId' | 'sourceId' | 'targetId' | 'type'>) {
+  const { data, error } = await supabase
+    .from('task_links')
+    .insert({
+      project_id: link.projectId,
+      source_id: link.sourceId,
+      target_id: link.targetId,
+      type: link.type
+    })
+    .select()
+    .single();
+  
+  if (error) {
+    console.error('Error creating task link:', error);
+    throw error;
+  }
+  
+  return mapTaskLink(data);
+}
+
+/**
+ * Removes a link between two tasks
+ * @param id - The link ID
+ * @returns boolean indicating success
+ */
+export async function deleteTaskLink(id: string) {
+  const { error } = await supabase
+    .from('task_links')
+    .delete()
+    .eq('id', id);
+  
+  if (error) {
+    console.error('Error deleting task link:', error);
+    throw error;
+  }
+  
+  return true;
+}
@@ -1,6 +1,74 @@
 
 import { supabase } from './client';
-import { type Task } from '@/types/task';
+import { type ChecklistItem, type Task } from '@/types/task';
+import { rankBetween } from '@/lib/rank';
+import { mapLabel, setTaskLabels } from './labels';
+
+// Columns loaded for tasks shown on the board and in the backlog: comment
+// counts, labels, the status of every task linked as a blocker and the
+// statuses of their subtasks
+const LIST_COLUMNS = '*, task_comments(count), task_labels(label:labels(*)), blockers:task_links!task_links_target_id_fkey(type, source:tasks!task_links_source_id_fkey(status)), subtasks:tasks!parent_id(status)';
+
+/**
+ * Maps a task row from the database schema to our application schema
+ * @param task - The database row
+ * @returns The task
+ */
+function mapTask(task): Task {
+  return {
+    id: task.id,
+    title: task.title,
+    description: task.description || '',
+    priority: task.priority || 'medium',
+    type: (task.type || 'task') as Task['type'],
+    points: task.estimate || 0,
+    status: task.status as Task['status'],
+    assignees: task.assignee_ids || [],
+    userId: task.user_id,
+    projectId: task.project_id,
+    sprintId: task.sprint_id,
+    rank: task.rank || undefined,
+    commentCount: task.task_comments?.[0]?.count,
+    parentId: task.parent_id || undefined,
+    checklist: (task.checklist || []) as ChecklistItem[],
+    epicId: task.epic_id || undefined,
+    labels: task.task_labels
+      ?.filter(taskLabel => taskLabel.label)
+      .map(taskLabel => mapLabel(taskLabel.label))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    blockerStatuses: task.blockers
+      ?.filter(link => link.type === 'blocks' && link.source)
+      .map(link => link.source.status),
+    subtaskStatuses: task.subtasks?.map(subtask => subtask.status),
+    createdAt: task.created_at || undefined,
+    startedAt: task.started_at || undefined,
+    completedAt: task.completed_at || undefined
+  };
+}
+
+/**
+ * Generates a rank that places a new task at the bottom of its project
+ * @param projectId - The project's ID
+ * @returns The rank for the new task
+ */
+export async function nextRank(projectId?: string) {
+  if (!projectId) return rankBetween(null, null);
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('rank')
+    .eq('project_id', projectId)
+    .not('rank', 'is', null)
+    .order('rank', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('Error fetching last task rank:', error);
+    throw error;
+  }
+
+  return rankBetween(data[0]?.rank, null);
+}
 
 /**
  * Fetches all tasks for a user
@@ -21,21 +89,9 @@ export async function fetchTasks(userId: string) {
     }
     throw error;
   }
-  // Map from database schema to our application schema
-  const mappedTasks = data.map(task => ({
-    id: task.id,
-    title: task.title,
-    description: task.description || '',
-    priority: task.priority || 'medium',
-    points: task.estimate || 0,
-    status: task.status as "todo" | "in-progress" | "in-review" | "done",
-    assignees: task.assignee_ids || [],
-    userId: task.user_id,
-    projectId: task.project_id,
-    sprintId: task.sprint_id
-  }));
   
-  return mappedTasks as Task[];
+  // Map from database schema to our application schema
+  return data.map(mapTask);
 }
 
 /**
@@ -50,12 +106,17 @@ export async function createTask(task: Omit<Task, 'id'> & { user_id: string }) {
     description: task.description,
     status: task.status,
     priority: task.priority,
+    type: task.type || 'task',
     estimate: task.points,
     assignee_ids: task.assignees? task.assignees: [], // Store assignees in the database
     user_id: task.user_id,
     sprint_id: task.sprintId,
     created_at: new Date().toISOString(),
-    project_id: task.projectId
+    project_id: task.projectId,
+    rank: task.rank || await nextRank(task.projectId),
+    parent_id: task.parentId,
+    epic_id: task.epicId,
+    checklist: task.checklist || []
   };
   
   const { data, error } = await supabase
@@ -69,23 +130,64 @@ export async function createTask(task: Omit<Task, 'id'> & { user_id: string }) {
     throw error;
   }
   
+  if (task.labels?.length) {
+    await setTaskLabels(data.id, task.labels.map(label => label.id));
+  }
+  
   // Map back to our application schema
-  return {
-    id: data.id,
-    title: data.title,
-    description: data.description || '',
-    priority: data.priority || 'medium',
-    points: data.estimate || 0,
-    status: data.status as "todo" | "in-progress" | "in-review" | "done",
-    assignees: data.assignee_ids || [],
-    userId: data.user_id,
-    projectId: data.project_id,
-    sprintId: data.sprint_id
-  } as Task;
+  return { ...mapTask(data), labels: task.labels };
+}
+
+/**
+ * Creates many tasks in one request, ranked in the given order below the
+ * project's existing tasks
+ * @param tasks - The task data; all tasks belong to the same project
+ * @returns The created tasks
+ */
+export async function createTasks(tasks: (Omit<Task, 'id'> & { user_id: string })[]) {
+  if (tasks.length === 0) return [];
+  
+  let rank = await nextRank(tasks[0].projectId);
+  const dbTasks = tasks.map((task, index) => {
+    if (index > 0) rank = rankBetween(rank, null);
+    return {
+      title: task.title,
+      description: task.description,
+      status: task.status,
+      priority: task.priority,
+      type: task.type || 'task',
+      estimate: task.points,
+      assignee_ids: task.assignees || [],
+      user_id: task.user_id,
+      sprint_id: task.sprintId,
+      project_id: task.projectId,
+      rank,
+      parent_id: task.parentId,
+      epic_id: task.epicId,
+      checklist: task.checklist || [],
+      // Imported tasks keep their own dates; missing ones fall back to the column defaults
+      created_at: task.createdAt,
+      started_at: task.startedAt,
+      completed_at: task.completedAt
+    };
+  });
+  
+  const { data, error } = await supabase
+    .from('tasks')
+    .insert(dbTasks, { defaultToNull: false })
+    .select();
+  
+  if (error) {
+    console.error('Error creating tasks:', error);
+    throw error;
+  }
+  
+  return data.map(mapTask);
 }
 
 /**
- * Updates an existing task
+ * Updates an existing task. Fields left undefined are not sent and so not
+ * changed; an epicId of null removes the task from its epic.
  * @param task - The task data with user_id
  * @returns boolean indicating success
  */
@@ -95,12 +197,16 @@ export async function updateTask(task: Task & { user_id: string }) {
     title: task.title,
     description: task.description,
     priority: task.priority,
+    type: task.type,
     estimate: task.points,
     status: task.status,
     assignee_ids: task.assignees,
     user_id: task.user_id,
     project_id: task.projectId,
-    sprint_id: task.sprintId
+    sprint_id: task.sprintId,
+    rank: task.rank,
+    parent_id: task.parentId,
+    epic_id: task.epicId
   };
   
   const { error } = await supabase
@@ -116,6 +222,88 @@ export async function updateTask(task: Task & { user_id: string }) {
   return true;
 }
 
+/**
+ * Moves a task to a new position within its list
+ * @param id - The task ID
+ * @param rank - The new rank, usually from rankBetween
+ * @returns boolean indicating success
+ */
+export async function updateTaskRank(id: string, rank: string) {
+  const { error } = await supabase
+    .from('tasks')
+    .update({ rank })
+    .eq('id', id);
+  
+  if (error) {
+    console.error('Error updating task rank:', error);
+    throw error;
+  }
+  
+  return true;
+}
+
+/**
+ * Fetches the subtasks of a task
+ * @param parentId - The parent task's ID
+ * @returns Array of subtasks in rank order
+ */
+export async function fetchSubtasks(parentId: string) {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('parent_id', parentId)
+    .order('rank', { ascending: true, nullsFirst: false });
+  
+  if (error) {
+    console.error('Error fetching subtasks:', error);
+    throw error;
+  }
+  
+  return data.map(mapTask);
+}
+
+/**
+ * Saves the checklist of a task
+ * @param id - The task ID
+ * @param checklist - The full checklist
+ * @returns boolean indicating success
+ */
+export async function updateTaskChecklist(id: string, checklist: ChecklistItem[]) {
+  const { error } = await supabase
+    .from('tasks')
+    .update({ checklist })
+    .eq('id', id);
+  
+  if (error) {
+    console.error('Error updating task checklist:', error);
+    throw error;
+  }
+  
+  return true;
+}
+
+/**
+ * Moves several tasks to a sprint, or back to the product backlog, at once
+ * @param taskIds - The task IDs
+ * @param sprintId - The target sprint's ID, or null for the product backlog
+ * @returns boolean indicating success
+ */
+export async function moveTasksToSprint(taskIds: string[], sprintId: string | null) {
+  if (taskIds.length === 0) return true;
+
+  const { error } = await supabase
+    .from('tasks')
+    .update({ sprint_id: sprintId })
+    .in('id', taskIds);
+  
+  if (error) {
+    console.error('Error moving tasks:', error);
+    throw error;
+  }
+  
+  return true;
+}
+
 /**
  * Deletes a task
  * @param id - The task ID
@@ -144,8 +332,11 @@ export async function fetchProductBacklog(projectId: string) {
   console.log("Fetching tasks for project ID:", projectId);
   const { data, error } = await supabase
     .from('tasks')
-    .select('*')
-    .eq('project_id', projectId);
+    .select(LIST_COLUMNS)
+    .eq('project_id', projectId)
+    .order('rank', { ascending: true, nullsFirst: false })
+    .order('created_at', { ascending: true });
+  
   if (error) {
     console.error('Error fetching product backlog:', error);
     if (error.code === '42P01') {
@@ -156,20 +347,7 @@ export async function fetchProductBacklog(projectId: string) {
   }
   
   // Map from database schema to our application schema
-  const mappedTasks = data.map(task => ({
-    id: task.id,
-    title: task.title,
-    description: task.description || '',
-    priority: task.priority || 'medium',
-    points: task.estimate || 0,
-    status: task.status as "todo" | "in-progress" | "in-review" | "done",
-    assignees: task.assignee_ids || [],
-    userId: task.user_id,
-    projectId: task.project_id,
-    sprintId: task.sprint_id
-  }));
-  
-  return mappedTasks as Task[];
+  return data.map(mapTask);
 }
 
 /**
@@ -180,8 +358,10 @@ export async function fetchProductBacklog(projectId: string) {
 export async function fetchSprintTasks(sprintId: string) {
   const { data, error } = await supabase
     .from('tasks')
-    .select('*')
-    .eq('sprint_id', sprintId);
+    .select(LIST_COLUMNS)
+    .eq('sprint_id', sprintId)
+    .order('rank', { ascending: true, nullsFirst: false })
+    .order('created_at', { ascending: true });
   
   if (error) {
     console.error('Error fetching sprint tasks:', error);
@@ -193,38 +373,5 @@ export async function fetchSprintTasks(sprintId: string) {
   }
   
   // Map from database schema to our application schema
-  const mappedTasks = data.map(task => ({
-    id: task.id,
-    title: task.title,
-    description: task.description || '',
-    priority: task.priority || 'medium',
-    points: task.estimate || 0,
-    status: task.status as "todo" | "in-progress" | "in-review" | "done",
-    assignees: task.assignee_ids || [],
-    userId: task.user_id,
-    projectId: task.project_id,
-    sprintId: task.sprint_id
-  }));
-  
-  return mappedTasks as Task[];
-}
-
-/**
- * Fetches project members for task assignment
- * @param projectId - The project's ID
- * @returns Array of user IDs belonging to the project
- */
-export async function fetchProjectMembers(projectId: string) {
-  const { data, error } = await supabase
-    .from('projects')
-    .select('members')
-    .eq('id', projectId)
-    .single();
-  
-  if (error) {
-    console.error('Error fetching project members:', error);
-    throw error;
-  }
-  
-  return data.members || [];
+  return data.map(mapTask);
 }
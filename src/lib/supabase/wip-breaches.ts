@@ -0,0 +1,74 @@
+import { supabase } from './client';
+import { type WipBreach } from '@/types/workflow';
+
+/**
+ * Maps a WIP breach row from the database schema to our application schema
+ * @param breach - The database row
+ * @returns The WIP breach
+ */
+function mapWipBreach(breach): WipBreach {
+  return {
+    id: breach.id,
+    projectId: breach.project_id,
+    sprintId: breach.sprint_id,
+    taskId: breach.task_id || undefined,
+    status: breach.status,
+    wipLimit: breach.wip_limit,
+    taskCount: breach.task_count,
+    rejected: breach.rejected,
+    userId: breach.user_id || undefined,
+    createdAt: breach.created_at
+  };
+}
+
+/**
+ * Fetches the WIP limit breaches recorded on a sprint's board
+ * @param sprintId - The sprint's ID
+ * @returns Breaches in chronological order
+ */
+export async function fetchSprintWipBreaches(sprintId: string) {
+  const { data, error } = await supabase
+    .from('wip_breaches')
+    .select('*')
+    .eq('sprint_id', sprintId)
+    .order('created_at', { ascending: true });
+  
+  if (error) {
+    console.error('Error fetching WIP breaches:', error);
+    if (error.code === '42P01') {
+      // Table doesn't exist yet
+      return [];
+    }
+    throw error;
+  }
+  
+  return data.map(mapWipBreach);
+}
+
+/**
+ * Records a move that went, or tried to go, over a WIP limit
+ * @param breach - The breach data
+ * @returns The recorded breach
+ */
+export async function recordWipBreach(breach: Omit<WipBreach, 'id' | 'userId' | 'createdAt'>) {
+  const { data, error } = await supabase
+    .from('wip_breaches')
+    .insert({
+      project_id: breach.projectId,
+      sprint_id: breach.sprintId,
+      task_id: breach.taskId,
+      status: breach.status,
+      wip_limit: breach.wipLimit,
+      task_count: breach.taskCount,
+      rejected: breach.rejected
+    })
+    .select()
+    .single();
+  
+  if (error) {
+    console.error('Error recording WIP breach:', error);
+    throw error;
+  }
+  
+  return mapWipBreach(data);
+}
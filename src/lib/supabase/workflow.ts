@@ -0,0 +1,117 @@
+import { supabase } from './client';
+import { type WorkflowStatus } from '@/types/workflow';
+
+/**
+ * Maps a workflow status row from the database schema to our application schema
+ * @param status - The database row
+ * @returns The workflow status
+ */
+function mapWorkflowStatus(status): WorkflowStatus {
+  return {
+    id: status.id,
+    projectId: status.project_id,
+    key: status.key,
+    name: status.name,
+    color: status.color,
+    isDone: status.is_done,
+    rank: status.rank,
+    wipLimit: status.wip_limit ?? undefined
+  };
+}
+
+/**
+ * Fetches the workflow of a project
+ * @param projectId - The project's ID
+ * @returns The project's statuses in workflow order
+ */
+export async function fetchWorkflowStatuses(projectId: string) {
+  const { data, error } = await supabase
+    .from('workflow_statuses')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('rank', { ascending: true });
+  
+  if (error) {
+    console.error('Error fetching workflow statuses:', error);
+    if (error.code === '42P01') {
+      // Table doesn't exist yet
+      return [];
+    }
+    throw error;
+  }
+  
+  return data.map(mapWorkflowStatus);
+}
+
+/**
+ * Adds a status to a project's workflow
+ * @param status - The status data
+ * @returns The created status
+ */
+export async function createWorkflowStatus(status: Omit<WorkflowStatus, 'id'> & { projectId: string }) {
+  const { data, error } = await supabase
+    .from('workflow_statuses')
+    .insert({
+      project_id: status.projectId,
+      key: status.key,
+      name: status.name,
+      color: status.color,
+      is_done: status.isDone,
+      rank: status.rank,
+      wip_limit: status.wipLimit ?? null
+    })
+    .select()
+    .single();
+  
+  if (error) {
+    console.error('Error creating workflow status:', error);
+    throw error;
+  }
+  
+  return mapWorkflowStatus(data);
+}
+
+/**
+ * Renames, recolors, moves or limits a status. Its key, and so every task in it, stays the same.
+ * @param status - The status data
+ * @returns boolean indicating success
+ */
+export async function updateWorkflowStatus(status: WorkflowStatus) {
+  const { error } = await supabase
+    .from('workflow_statuses')
+    .update({
+      name: status.name,
+      color: status.color,
+      is_done: status.isDone,
+      rank: status.rank,
+      wip_limit: status.wipLimit ?? null
+    })
+    .eq('id', status.id);
+  
+  if (error) {
+    console.error('Error updating workflow status:', error);
+    throw error;
+  }
+  
+  return true;
+}
+
+/**
+ * Removes a status from a workflow, moving its tasks to another status first
+ * @param id - The ID of the status to remove
+ * @param replacementKey - The key of the status its tasks move to
+ * @returns boolean indicating success
+ */
+export async function removeWorkflowStatus(id: string, replacementKey: string) {
+  const { error } = await supabase.rpc('remove_workflow_status', {
+    p_status_id: id,
+    p_replacement_key: replacementKey
+  });
+  
+  if (error) {
+    console.error('Error removing workflow status:', error);
+    throw error;
+  }
+  
+  return true;
+}
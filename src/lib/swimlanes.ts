@@ -0,0 +1,148 @@
+import { Epic } from "@/types/epic";
+import { Label } from "@/types/label";
+import { Task } from "@/types/task";
+
+export type SwimlaneGrouping = "none" | "assignee" | "priority" | "epic" | "label";
+
+export const SWIMLANE_GROUPINGS: { value: SwimlaneGrouping; label: string }[] = [
+  { value: "none", label: "No swimlanes" },
+  { value: "assignee", label: "Assignee" },
+  { value: "priority", label: "Priority" },
+  { value: "epic", label: "Epic" },
+  { value: "label", label: "Label" },
+];
+
+// Lane of the tasks without an assignee, epic or label
+export const NO_LANE = "none";
+
+const PRIORITIES = ["high", "medium", "low"];
+
+export interface Swimlane {
+  id: string;
+  title: string;
+  tasks: Task[];
+  points: number;
+}
+
+// What lanes can be made of, besides the tasks themselves
+export interface SwimlaneSources {
+  members: { id: string; name: string }[];
+  epics: Epic[];
+  labels: Label[];
+}
+
+/**
+ * Returns the lane a task is shown in. Tasks with several assignees or labels
+ * are shown in the lane of their first one.
+ * @param task - The task
+ * @param grouping - What the board is grouped by
+ * @returns The lane ID
+ */
+export function getTaskLane(task: Task, grouping: SwimlaneGrouping) {
+  switch (grouping) {
+    case "assignee":
+      return task.assignees[0] || NO_LANE;
+    case "priority":
+      return task.priority;
+    case "epic":
+      return task.epicId || NO_LANE;
+    case "label":
+      return task.labels?.[0]?.id || NO_LANE;
+    default:
+      return NO_LANE;
+  }
+}
+
+/**
+ * Splits a board into lanes. Every possible lane is returned, even without
+ * tasks, so tasks can be dragged into it.
+ * @param tasks - The board's tasks in rank order
+ * @param grouping - What the board is grouped by
+ * @param sources - The project's members, epics and labels
+ * @returns The lanes in display order, with the catch-all lane last
+ */
+export function buildSwimlanes(tasks: Task[], grouping: SwimlaneGrouping, sources: SwimlaneSources): Swimlane[] {
+  const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+  let lanes: { id: string; title: string }[];
+
+  switch (grouping) {
+    case "assignee":
+      lanes = [...sources.members].sort(byName).map(member => ({ id: member.id, title: member.name }))
+        .concat({ id: NO_LANE, title: "Unassigned" });
+      break;
+    case "priority":
+      lanes = PRIORITIES.map(priority => ({ id: priority, title: priority.charAt(0).toUpperCase() + priority.slice(1) }));
+      break;
+    case "epic":
+      lanes = [...sources.epics].sort(byName).map(epic => ({ id: epic.id, title: epic.name }))
+        .concat({ id: NO_LANE, title: "No epic" });
+      break;
+    case "label":
+      lanes = [...sources.labels].sort(byName).map(label => ({ id: label.id, title: label.name }))
+        .concat({ id: NO_LANE, title: "No label" });
+      break;
+    default:
+      lanes = [{ id: NO_LANE, title: "All tasks" }];
+  }
+
+  // Tasks can refer to people or priorities the lists above do not know about
+  const known = new Set(lanes.map(lane => lane.id));
+  tasks.forEach(task => {
+    const id = getTaskLane(task, grouping);
+    if (!known.has(id)) {
+      known.add(id);
+      const title = grouping === "priority" ? id : grouping === "assignee" ? "Former member" : "Unknown";
+      const lane = { id, title };
+      // Keep the catch-all lane last
+      lanes.splice(grouping === "priority" ? lanes.length : lanes.length - 1, 0, lane);
+    }
+  });
+
+  return lanes.map(lane => {
+    const laneTasks = tasks.filter(task => getTaskLane(task, grouping) === lane.id);
+    return {
+      ...lane,
+      tasks: laneTasks,
+      points: laneTasks.reduce((sum, task) => sum + (task.points || 0), 0),
+    };
+  });
+}
+
+/**
+ * Works out the task fields to change when a task is dragged into another lane.
+ * The attribute the task was shown under is replaced by the lane's one; the
+ * catch-all lane clears the attribute. A task that keeps another label sorting
+ * before the lane's one stays shown under that label.
+ * @param task - The dragged task
+ * @param grouping - What the board is grouped by
+ * @param laneId - The lane the task was dropped in
+ * @param labels - The project's labels
+ * @returns The changed task fields
+ */
+export function getLaneChanges(task: Task, grouping: SwimlaneGrouping, laneId: string, labels: Label[]): Partial<Task> {
+  const fromLane = getTaskLane(task, grouping);
+
+  switch (grouping) {
+    case "assignee":
+      return {
+        assignees: laneId === NO_LANE
+          ? []
+          : [laneId, ...task.assignees.filter(id => id !== laneId && id !== fromLane)],
+      };
+    case "priority":
+      return { priority: laneId };
+    case "epic":
+      return { epicId: laneId === NO_LANE ? null : laneId };
+    case "label": {
+      const label = labels.find(l => l.id === laneId);
+      const kept = (task.labels || []).filter(l => l.id !== laneId && l.id !== fromLane);
+      return {
+        labels: laneId === NO_LANE || !label
+          ? []
+          : [label, ...kept].sort((a, b) => a.name.localeCompare(b.name)),
+      };
+    }
+    default:
+      return {};
+  }
+}
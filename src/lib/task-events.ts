@@ -0,0 +1,79 @@
+import { TaskEvent } from "@/types/event";
+
+// Names used to render IDs stored in events
+export interface TaskEventNames {
+  users: Record<string, string>;
+  sprints: Record<string, string>;
+  statuses: Record<string, string>;
+}
+
+const userName = (names: TaskEventNames, id: string) => names.users[id] || "a former member";
+
+// Statuses removed from the workflow since are shown by their key
+const statusName = (names: TaskEventNames, key: string | null) =>
+  key ? names.statuses[key] || key.replace(/-/g, " ") : "no status";
+
+const sprintName = (names: TaskEventNames, id: string | null) =>
+  id ? names.sprints[id] || "a deleted sprint" : "the product backlog";
+
+/**
+ * Returns every user ID an event refers to, for resolving names
+ */
+export function getTaskEventUserIds(event: TaskEvent) {
+  const ids = new Set<string>();
+  if (event.actorId) ids.add(event.actorId);
+  event.changes.assignees?.from?.forEach(id => ids.add(id));
+  event.changes.assignees?.to?.forEach(id => ids.add(id));
+  return Array.from(ids);
+}
+
+/**
+ * Describes each change carried by an event in plain words
+ * @param event - The task event
+ * @param names - Names of the users, sprints and statuses the event refers to
+ * @returns One sentence per changed field
+ */
+export function describeTaskEvent(event: TaskEvent, names: TaskEventNames) {
+  const { changes } = event;
+
+  if (event.type === "created") {
+    return [`created the task in ${sprintName(names, changes.sprint?.to ?? null)}`];
+  }
+  if (event.type === "deleted") {
+    return ["deleted the task"];
+  }
+
+  const lines: string[] = [];
+  if (changes.title) {
+    lines.push(`renamed the task from "${changes.title.from}" to "${changes.title.to}"`);
+  }
+  if (changes.description) {
+    lines.push("updated the description");
+  }
+  if (changes.priority) {
+    lines.push(`changed priority from ${changes.priority.from} to ${changes.priority.to}`);
+  }
+  if (changes.points) {
+    lines.push(`changed points from ${changes.points.from ?? 0} to ${changes.points.to ?? 0}`);
+  }
+  if (changes.status) {
+    lines.push(`moved from ${statusName(names, changes.status.from)} to ${statusName(names, changes.status.to)}`);
+  }
+  if (changes.assignees) {
+    const before = changes.assignees.from || [];
+    const after = changes.assignees.to || [];
+    const added = after.filter(id => !before.includes(id));
+    const removed = before.filter(id => !after.includes(id));
+    if (added.length > 0) {
+      lines.push(`assigned ${added.map(id => userName(names, id)).join(", ")}`);
+    }
+    if (removed.length > 0) {
+      lines.push(`unassigned ${removed.map(id => userName(names, id)).join(", ")}`);
+    }
+  }
+  if (changes.sprint) {
+    lines.push(`moved the task from ${sprintName(names, changes.sprint.from)} to ${sprintName(names, changes.sprint.to)}`);
+  }
+
+  return lines;
+}
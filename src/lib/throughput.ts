@@ -0,0 +1,56 @@
+import { differenceInCalendarDays, startOfDay, subDays } from "date-fns";
+import { Task, TaskHistoryEntry, TaskStatus } from "@/types/task";
+
+// Number of days of history daily throughput is sampled from
+export const THROUGHPUT_WINDOW_DAYS = 60;
+
+/**
+ * Finds when each finished task was last moved into a done status. Tasks
+ * that were reopened only count from the last time they were finished.
+ * @param tasks - The tasks to look at; tasks that are not done are skipped
+ * @param history - History of the tasks in chronological order
+ * @param doneStatuses - The workflow statuses that count as done
+ * @returns Completion time of every done task with recorded history, by task ID
+ */
+export function getCompletionDates(tasks: Task[], history: TaskHistoryEntry[], doneStatuses: TaskStatus[]) {
+  const done = new Set(tasks.filter(task => doneStatuses.includes(task.status)).map(task => task.id));
+  const wasDone = new Map<string, boolean>();
+  const completions = new Map<string, Date>();
+
+  history.forEach(entry => {
+    if (!done.has(entry.taskId) || entry.deleted) return;
+
+    const isDone = doneStatuses.includes(entry.status);
+    if (isDone && !wasDone.get(entry.taskId)) {
+      completions.set(entry.taskId, new Date(entry.recordedAt));
+    }
+    wasDone.set(entry.taskId, isDone);
+  });
+
+  return completions;
+}
+
+/**
+ * Counts the tasks finished on each of the last days, oldest first. The window
+ * starts at the first completion when the project is younger than the window,
+ * so days before any work was tracked do not drag the samples down.
+ * @param completions - Completion times of the finished tasks
+ * @param days - Length of the window in days
+ * @param now - The current time; today is the last day of the window
+ * @returns One count per day
+ */
+export function getDailyThroughput(completions: Date[], days = THROUGHPUT_WINDOW_DAYS, now = new Date()) {
+  const today = startOfDay(now);
+  const first = completions.reduce<Date | null>((min, date) => (!min || date < min ? date : min), null);
+  if (!first) return [];
+
+  const start = new Date(Math.max(startOfDay(first).getTime(), subDays(today, days - 1).getTime()));
+  const counts = new Array(differenceInCalendarDays(today, start) + 1).fill(0);
+
+  completions.forEach(date => {
+    const index = differenceInCalendarDays(date, start);
+    if (index >= 0 && index < counts.length) counts[index]++;
+  });
+
+  return counts;
+}
@@ -0,0 +1,198 @@
+import { ChecklistItem } from "@/types/task";
+import { matchMember } from "./backlog-import";
+import { LABEL_COLORS } from "./labels";
+import { getDoneStatuses } from "./workflow";
+import { ImportContext, ImportPlan, PlannedTask, StatusPhase, createNotes, mapStatus, planSprints } from "./project-import";
+
+// What Trello lists become: workflow statuses, or sprints for boards with a list per iteration
+export type TrelloListMapping = "statuses" | "sprints";
+
+// The parts of a Trello board export that are imported
+interface TrelloBoard {
+  lists: { id: string; name: string; closed: boolean }[];
+  cards: {
+    id: string;
+    name: string;
+    desc: string;
+    idList: string;
+    closed: boolean;
+    idLabels: string[];
+    idMembers: string[];
+    due?: string | null;
+    dueComplete?: boolean;
+    dateLastActivity?: string;
+    badges?: { attachments?: number; comments?: number };
+    customFieldItems?: unknown[];
+  }[];
+  labels: { id: string; name: string; color: string | null }[];
+  checklists: { id: string; idCard: string; name: string; pos: number; checkItems: { name: string; state: string; pos: number }[] }[];
+  members: { id: string; fullName: string; username: string }[];
+}
+
+const TRELLO_COLORS: Record<string, string> = {
+  green: "#16a34a",
+  yellow: "#ca8a04",
+  orange: "#ea580c",
+  red: "#dc2626",
+  purple: "#7c3aed",
+  blue: "#2563eb",
+  sky: "#0891b2",
+  lime: "#65a30d",
+  pink: "#db2777",
+  black: "#334155",
+};
+
+// Points written as "(3) Card title", as Scrum for Trello and similar power-ups do
+const TITLE_POINTS = /^\((\d+(?:[.,]\d+)?)\)\s*/;
+
+// Labels without a name are known by their color
+const labelName = (label: TrelloBoard["labels"][number]) => label.name || label.color?.split("_")[0] || "unnamed";
+
+/**
+ * Guesses where a list sits in the board's workflow from its name, as Trello
+ * lists carry no other hint
+ * @param name - The list's name
+ */
+function guessPhase(name: string): StatusPhase {
+  if (/done|complete|finished|shipped|released/i.test(name)) return "done";
+  if (/doing|progress|review|testing|qa/i.test(name)) return "started";
+  return "todo";
+}
+
+/**
+ * Reads a Trello board export, the JSON Trello offers under the board's
+ * "Print, export and share" menu
+ * @param text - The JSON text
+ * @returns The board
+ */
+function parseTrelloJson(text: string): TrelloBoard {
+  let board;
+  try {
+    board = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  if (!Array.isArray(board?.lists) || !Array.isArray(board?.cards)) {
+    throw new Error("The file is not a Trello board export; it has no lists or cards");
+  }
+
+  return {
+    lists: board.lists,
+    cards: board.cards,
+    labels: board.labels || [],
+    checklists: board.checklists || [],
+    members: board.members || [],
+  };
+}
+
+/**
+ * Plans the import of a Trello board into a project. Cards become tasks, their
+ * checklists the tasks' checklists and their labels project labels.
+ * @param text - The board export's contents
+ * @param context - The project's workflow and members
+ * @param listsAs - What the board's lists become
+ * @returns What will be created, with notes on how unmapped fields are handled
+ */
+export function planTrelloExport(text: string, { statuses, members }: ImportContext, listsAs: TrelloListMapping): ImportPlan {
+  const board = parseTrelloJson(text);
+  const notes = createNotes();
+  const lists = new Map(board.lists.map(list => [list.id, list]));
+  const labels = new Map(board.labels.map(label => [label.id, label]));
+  const boardMembers = new Map(board.members.map(member => [member.id, member]));
+  const labelNames: string[] = [];
+
+  const openCards = board.cards.filter(card => !card.closed && lists.get(card.idList) && !lists.get(card.idList).closed);
+  if (openCards.length < board.cards.length) {
+    notes.add("Archived cards and cards in archived lists are not imported", board.cards.length - openCards.length);
+  }
+
+  const tasks = openCards.map((card): PlannedTask => {
+    const list = lists.get(card.idList);
+
+    let status;
+    if (listsAs === "statuses") {
+      const mapped = mapStatus(list.name, guessPhase(list.name), statuses);
+      if (!mapped.byName) notes.add(`List "${list.name}" is imported as status "${mapped.status.name}"`);
+      status = mapped.status;
+    } else {
+      status = mapStatus("", card.dueComplete ? "done" : "todo", statuses).status;
+    }
+
+    const pointsMatch = card.name.match(TITLE_POINTS);
+    const points = pointsMatch ? Math.round(Number(pointsMatch[1].replace(",", "."))) : 0;
+    if (pointsMatch) notes.add("Points are read from the \"(n)\" in front of card titles");
+
+    const cardLabels = card.idLabels.map(id => labels.get(id)).filter(Boolean).map(labelName);
+    cardLabels.forEach(name => {
+      if (!labelNames.some(other => other.toLowerCase() === name.toLowerCase())) labelNames.push(name);
+    });
+
+    const assignees = card.idMembers.flatMap(id => {
+      const member = boardMembers.get(id);
+      const match = member && (matchMember(member.fullName, members) || matchMember(member.username, members));
+      if (!match) notes.add(`Trello member "${member?.fullName || id}" is not a project member; cards are imported without them`);
+      return match ? [match.id] : [];
+    });
+
+    const cardChecklists = board.checklists.filter(checklist => checklist.idCard === card.id).sort((a, b) => a.pos - b.pos);
+    if (cardChecklists.length > 1) notes.add("Cards with several checklists get one checklist, each item led by its checklist's name");
+    const checklist: ChecklistItem[] = cardChecklists.flatMap(({ name, checkItems }) => [...checkItems]
+      .sort((a, b) => a.pos - b.pos)
+      .map(item => ({
+        id: crypto.randomUUID(),
+        text: cardChecklists.length > 1 ? `${name}: ${item.name}` : item.name,
+        done: item.state === "complete",
+      })));
+
+    if (card.due) notes.add("Due dates are not imported");
+    if (card.badges?.attachments) notes.add("Attachments are not imported");
+    if (card.badges?.comments) notes.add("Comments are not imported");
+    if (card.customFieldItems?.length) notes.add("Custom fields are not imported");
+
+    // Trello card IDs start with the time the card was created
+    const createdAt = new Date(parseInt(card.id.slice(0, 8), 16) * 1000).toISOString();
+    const completedAt = status.isDone ? card.dateLastActivity : undefined;
+    if (completedAt) notes.add("Finished cards are dated by their last activity, and counted as started when created");
+
+    return {
+      key: card.id,
+      title: card.name.replace(TITLE_POINTS, ""),
+      description: card.desc || "",
+      priority: "medium",
+      type: "task",
+      points,
+      status: status.key,
+      assignees,
+      labels: cardLabels,
+      checklist,
+      sprintKey: listsAs === "sprints" ? list.id : undefined,
+      createdAt,
+      startedAt: completedAt ? createdAt : undefined,
+      completedAt,
+    };
+  });
+
+  const sprintLists = board.lists
+    .filter(list => tasks.some(task => task.sprintKey === list.id))
+    .map(list => ({ key: list.id, name: list.name }));
+  if (sprintLists.length > 0) {
+    notes.add("Cards marked complete go to the first done status, the others to the first status");
+    notes.add("Lists have no dates; lists with only finished cards become completed sprints, the others are planned from today", sprintLists.length);
+  }
+  if (tasks.length > 0) notes.add("Trello has no priorities; cards are imported with medium priority", tasks.length);
+
+  const labelColor = (name: string, index: number) => {
+    const color = board.labels.find(label => labelName(label) === name)?.color?.split("_")[0];
+    return TRELLO_COLORS[color] || LABEL_COLORS[index % LABEL_COLORS.length];
+  };
+
+  return {
+    source: "Trello",
+    sprints: planSprints(sprintLists, tasks, getDoneStatuses(statuses)),
+    epics: [],
+    labels: labelNames.map((name, index) => ({ name, color: labelColor(name, index) })),
+    tasks,
+    notes: notes.list(),
+  };
+}
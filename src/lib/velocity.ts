@@ -0,0 +1,114 @@
+import { Sprint } from "@/types/sprint";
+import { Task, TaskStatus } from "@/types/task";
+
+// Number of recent sprints the rolling average and deviation are taken over
+export const VELOCITY_WINDOW = 5;
+
+export interface VelocityPoint {
+  sprintId: string;
+  name: string;
+  committed: number;
+  completed: number;
+  average: number; // Rolling average of completed points up to this sprint
+}
+
+export interface VelocityStats {
+  average: number;
+  standardDeviation: number;
+  sampleSize: number; // Number of sprints the figures are based on
+}
+
+export interface SprintForecast {
+  optimistic: number; // Sprints needed at one deviation above the average
+  likely: number; // Sprints needed at the average
+  pessimistic: number | null; // Sprints needed at one deviation below the average; null when that pace is zero
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+const mean = (values: number[]) => (values.length ? sum(values) / values.length : 0);
+
+/**
+ * Takes the sample standard deviation of a set of values
+ * @param values - The values
+ * @returns The standard deviation, 0 for fewer than two values
+ */
+function standardDeviation(values: number[]) {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(sum(values.map(value => (value - average) ** 2)) / (values.length - 1));
+}
+
+/**
+ * Lists committed and completed points of every finished sprint in the order
+ * they finished. Sprints completed before points were snapshotted fall back to
+ * the tasks still in them.
+ * @param sprints - The project's sprints
+ * @param tasks - The project's tasks
+ * @param doneStatuses - The workflow statuses that count as done
+ * @param window - Number of sprints the rolling average is taken over
+ * @returns One point per completed sprint
+ */
+export function buildVelocityData(
+  sprints: Sprint[],
+  tasks: Task[],
+  doneStatuses: TaskStatus[],
+  window = VELOCITY_WINDOW
+): VelocityPoint[] {
+  const finishedAt = (sprint: Sprint) => new Date(sprint.completedAt || sprint.endDate).getTime();
+  const completed = sprints
+    .filter(sprint => sprint.status === "completed")
+    .sort((a, b) => finishedAt(a) - finishedAt(b));
+
+  const history: number[] = [];
+  return completed.map(sprint => {
+    const sprintTasks = tasks.filter(task => task.sprintId === sprint.id);
+    const committedPoints = sprint.committedPoints ?? sum(sprintTasks.map(task => task.points || 0));
+    const completedPoints = sprint.completedPoints ?? sum(
+      sprintTasks.filter(task => doneStatuses.includes(task.status)).map(task => task.points || 0)
+    );
+    history.push(completedPoints);
+
+    return {
+      sprintId: sprint.id,
+      name: sprint.name,
+      committed: committedPoints,
+      completed: completedPoints,
+      average: Math.round(mean(history.slice(-window)) * 10) / 10,
+    };
+  });
+}
+
+/**
+ * Takes the average and deviation of the completed points of recent sprints
+ * @param points - Velocity points in the order the sprints finished
+ * @param window - Number of recent sprints to use
+ * @returns The velocity statistics
+ */
+export function getVelocityStats(points: VelocityPoint[], window = VELOCITY_WINDOW): VelocityStats {
+  const recent = points.slice(-window).map(point => point.completed);
+  return {
+    average: mean(recent),
+    standardDeviation: standardDeviation(recent),
+    sampleSize: recent.length,
+  };
+}
+
+/**
+ * Forecasts how many sprints the remaining work needs, as a range around the
+ * average velocity
+ * @param remainingPoints - Points of the work left
+ * @param stats - Velocity statistics of recent sprints
+ * @returns The forecast, or null when there is no velocity to forecast with
+ */
+export function forecastSprints(remainingPoints: number, stats: VelocityStats): SprintForecast | null {
+  if (stats.average <= 0) return null;
+  if (remainingPoints <= 0) return { optimistic: 0, likely: 0, pessimistic: 0 };
+
+  const slow = stats.average - stats.standardDeviation;
+  return {
+    optimistic: Math.ceil(remainingPoints / (stats.average + stats.standardDeviation)),
+    likely: Math.ceil(remainingPoints / stats.average),
+    pessimistic: slow > 0 ? Math.ceil(remainingPoints / slow) : null,
+  };
+}
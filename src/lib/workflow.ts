@@ -0,0 +1,64 @@
+import { TaskStatus } from "@/types/task";
+import { WorkflowStatus } from "@/types/workflow";
+
+// Used until a project's workflow has loaded, and for projects without one
+export const DEFAULT_WORKFLOW: WorkflowStatus[] = [
+  { id: "todo", key: "todo", name: "To Do", color: "#64748b", isDone: false, rank: "V" },
+  { id: "in-progress", key: "in-progress", name: "In Progress", color: "#2563eb", isDone: false, rank: "k" },
+  { id: "in-review", key: "in-review", name: "In Review", color: "#7c3aed", isDone: false, rank: "s" },
+  { id: "done", key: "done", name: "Done", color: "#16a34a", isDone: true, rank: "w" },
+];
+
+export const STATUS_COLORS = ["#64748b", "#2563eb", "#0891b2", "#7c3aed", "#db2777", "#ea580c", "#ca8a04", "#16a34a"];
+
+/**
+ * Returns the keys of the statuses that count as done
+ */
+export function getDoneStatuses(statuses: WorkflowStatus[]): TaskStatus[] {
+  return statuses.filter(status => status.isDone).map(status => status.key);
+}
+
+/**
+ * Finds the status a task is shown in. Tasks whose status is not part of the
+ * workflow are shown in the first status.
+ * @param status - The task's status key
+ * @param statuses - The workflow, in order
+ */
+export function resolveStatus(status: TaskStatus, statuses: WorkflowStatus[]) {
+  return statuses.find(s => s.key === status) || statuses[0];
+}
+
+/**
+ * Checks whether a status means work on the task has started: any status
+ * after the first one that does not count as done
+ */
+export function isStartedStatus(status: TaskStatus, statuses: WorkflowStatus[]) {
+  const index = statuses.findIndex(s => s.key === status);
+  return index > 0 && !statuses[index].isDone;
+}
+
+/**
+ * Turns a status name into a key that is not used by the workflow yet
+ * @param name - The status name
+ * @param statuses - The workflow
+ */
+export function toStatusKey(name: string, statuses: WorkflowStatus[]) {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "status";
+  let key = base;
+  for (let n = 2; statuses.some(status => status.key === key); n++) {
+    key = `${base}-${n}`;
+  }
+  return key;
+}
+
+/**
+ * Compares the number of tasks in a status with its WIP limit
+ * @param count - Tasks currently in the status
+ * @param limit - The status's WIP limit, if any
+ * @returns Whether the status is under, at or over its limit; null without a limit
+ */
+export function getWipState(count: number, limit?: number) {
+  if (!limit) return null;
+  if (count > limit) return "over";
+  return count === limit ? "at" : "under";
+}
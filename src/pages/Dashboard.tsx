@@ -1,43 +1,43 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Plus, LogOut, Home } from "lucide-react";
+import { Plus, LogOut, Home, Upload } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/lib/supabase/client";
 import { Project } from "@/types/user";
 import LogoutButton from "@/components/LogoutButton";
+import NotificationsMenu from "@/components/NotificationsMenu";
+import RestoreProjectDialog from "@/components/RestoreProjectDialog";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
-import { createProject } from "@/lib/supabase/projects";
+import { createProject, fetchProjects } from "@/lib/supabase/projects";
 
 const Dashboard = () => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [userNames, setUserNames] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isRestoreDialogOpen, setIsRestoreDialogOpen] = useState(false);
   const [projectName, setProjectName] = useState("");
   const [projectDescription, setProjectDescription] = useState("");
   const { toast } = useToast();
   const { user } = useAuth();
   const navigate = useNavigate();
+  const projectNames = useMemo(() => projects.map(project => project.name), [projects]);
 
   useEffect(() => {
-    const fetchProjects = async () => {
+    const loadProjects = async () => {
       if (!user) return;
       
       try {
         setIsLoading(true);
         
-        // Fetch all projects from Supabase
-        const { data, error } = await supabase
-          .from('projects')
-          .select('*');
-          
-        if (error) throw error;
+        // Only the projects the user owns or is a member of
+        const data = await fetchProjects(user.id);
         
-        setProjects(data as Project[] || []);
+        setProjects(data);
 
         // Collect all unique user IDs from projects
         const userIds = new Set<string>();
@@ -73,7 +73,7 @@ const Dashboard = () => {
     };
     
     if (user) {
-      fetchProjects();
+      loadProjects();
     }
   }, [user, toast]);
 
@@ -98,8 +98,6 @@ const Dashboard = () => {
     }
     
     try {
-      // Generate a unique project code
-      const projectCode = Math.random().toString(36).substring(2, 8).toUpperCase();
       const ts = new Date().toISOString();
       
       const newProject = await createProject({
@@ -107,7 +105,6 @@ const Dashboard = () => {
         description: projectDescription.trim(),
         created_at: ts,
         user_id: user.id,
-        code: projectCode,
         members: [user.id],
       });
       
@@ -152,6 +149,7 @@ const Dashboard = () => {
         <header className="flex justify-between items-center mb-6">
           <h1 className="text-3xl font-bold">Projects Dashboard</h1>
           <div className="flex space-x-2">
+            <NotificationsMenu />
             <Button variant="outline" onClick={() => navigate('/')}>
               <Home className="h-4 w-4 mr-2" />
               Home
@@ -164,14 +162,20 @@ const Dashboard = () => {
           <div className="p-6">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-xl font-semibold">All Projects</h2>
-              <Button 
-                variant="default" 
-                onClick={() => setIsCreateDialogOpen(true)}
-                className="flex items-center"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Create Project
-              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setIsRestoreDialogOpen(true)}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import project
+                </Button>
+                <Button 
+                  variant="default" 
+                  onClick={() => setIsCreateDialogOpen(true)}
+                  className="flex items-center"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Project
+                </Button>
+              </div>
             </div>
             {projects.length > 0 ? (
               <div className="overflow-x-auto">
@@ -268,6 +272,16 @@ const Dashboard = () => {
             </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        {user && (
+          <RestoreProjectDialog
+            open={isRestoreDialogOpen}
+            onOpenChange={setIsRestoreDialogOpen}
+            userId={user.id}
+            projectNames={projectNames}
+            onRestored={handleViewProject}
+          />
+        )}
       </div>
     </div>
   );
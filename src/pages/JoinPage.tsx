@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Mail } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { fetchInviteDetails } from "@/lib/supabase/invites";
+import { joinProjectByToken } from "@/lib/supabase/projects";
+import { PROJECT_ROLES } from "@/lib/permissions";
+import { InviteDetails } from "@/types/invite";
+
+// Landing page of email invite links. Signed-in users join right away, others
+// are sent through signup or login and brought back here to join.
+const JoinPage = () => {
+  const { token } = useParams<{ token: string }>();
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joinError, setJoinError] = useState("");
+  const joining = useRef(false);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadInvite = async () => {
+      if (!token) return;
+
+      try {
+        setLoading(true);
+        setInvite(await fetchInviteDetails(token));
+      } catch (error) {
+        console.error('Error loading invite:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInvite();
+  }, [token]);
+
+  useEffect(() => {
+    const join = async () => {
+      if (!token || !isAuthenticated || joining.current) return;
+
+      joining.current = true;
+      try {
+        const project = await joinProjectByToken(token);
+        toast({
+          title: 'Success',
+          description: `You've joined ${project.name}`,
+          duration: 3000,
+        });
+        navigate(`/project/${project.id}`, { replace: true });
+      } catch (error) {
+        console.error('Error joining project:', error);
+        // The database explains why the invite cannot be used
+        setJoinError(error?.message || 'This invite cannot be used');
+      }
+    };
+
+    join();
+  }, [token, isAuthenticated, navigate, toast]);
+
+  if (loading || isAuthLoading || (isAuthenticated && !joinError)) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <div className="animate-spin h-10 w-10 border-4 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  if (!invite || joinError || !invite.usable) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <div className="text-center max-w-md">
+          <h2 className="text-2xl font-bold text-destructive">Invite not available</h2>
+          <p className="text-muted-foreground mt-2">
+            {joinError || (invite
+              ? 'This invite has expired, been revoked or already been used. Ask for a new one.'
+              : 'This invite link is not valid.')}
+          </p>
+          <Button onClick={() => navigate(isAuthenticated ? '/dashboard' : '/')} className="mt-4">
+            {isAuthenticated ? 'Back to Dashboard' : 'Go Home'}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const role = PROJECT_ROLES.find(r => r.value === invite.role)?.label.toLowerCase() || invite.role;
+
+  return (
+    <div className="min-h-screen flex flex-col justify-center items-center bg-gradient-to-br from-secondary to-background p-8">
+      <div className="w-full max-w-md p-8 space-y-6 bg-card rounded-lg border border-border shadow-lg animate-fade-up text-center">
+        <Mail className="h-10 w-10 mx-auto text-primary" />
+        <div>
+          <h1 className="text-2xl font-bold">Join {invite.projectName}</h1>
+          <p className="text-muted-foreground mt-2">
+            You've been invited to join as {role === 'admin' ? 'an' : 'a'} {role}.
+            {invite.email && <> Sign up or log in with <span className="font-medium">{invite.email}</span> to accept.</>}
+          </p>
+          {invite.expiresAt && (
+            <p className="text-xs text-muted-foreground mt-2">
+              The invite expires on {format(new Date(invite.expiresAt), "MMM d, yyyy")}
+            </p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Button className="w-full" onClick={() => navigate('/signup', { state: { from: location } })}>
+            Sign up to join
+          </Button>
+          <Button variant="outline" className="w-full" onClick={() => navigate('/login', { state: { from: location } })}>
+            I already have an account
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JoinPage;
@@ -1,6 +1,6 @@
 
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -13,14 +13,17 @@ const Login = () => {
   const [isLoading, setIsLoading] = useState(false);
   const { login, isAuthenticated } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Set by ProtectedRoute and the join page when the user has to sign in first
+  const redirectTo: string | undefined = location.state?.from?.pathname;
   const { toast } = useToast();
 
   // Add effect to redirect when auth state changes
   useEffect(() => {
     if (isAuthenticated) {
-      navigate('/');
+      navigate(redirectTo || '/');
     }
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated, navigate, redirectTo]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -37,7 +40,7 @@ const Login = () => {
     setIsLoading(true);
     
     try {
-      await login(email, password);
+      await login(email, password, redirectTo);
       // Auth state is handled in AuthContext with Supabase listeners
       // and the useEffect above will handle redirection
     } catch (error) {
@@ -93,7 +96,7 @@ const Login = () => {
         <div className="text-center text-sm">
           <p className="text-muted-foreground">
             Don't have an account?{' '}
-            <Button variant="link" className="p-0" onClick={() => navigate('/signup')}>
+            <Button variant="link" className="p-0" onClick={() => navigate('/signup', { state: location.state })}>
               Sign up
             </Button>
           </p>
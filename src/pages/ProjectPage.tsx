@@ -1,11 +1,15 @@
 
 import { useParams, useNavigate } from "react-router-dom";
 import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
+import { WorkflowProvider } from "@/contexts/WorkflowContext";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
-import { Plus, Home, LayoutDashboard } from "lucide-react";
+import { Plus, Home, LayoutDashboard, Settings, Upload } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { sprintCapacityKey } from "@/hooks/use-sprint-capacity";
 import { fetchProjects } from "@/lib/supabase/projects";
 import { fetchProjectSprints } from "@/lib/supabase/sprints";
 import CreateSprintDialog from "@/components/CreateSprintDialog";
@@ -13,6 +17,12 @@ import ProductBacklog from "@/components/ProductBacklog";
 import { Project } from "@/types/user";
 import { Sprint } from "@/types/sprint";
 import SprintList from "@/components/SprintList";
+import EpicList from "@/components/EpicList";
+import ProjectMembers from "@/components/ProjectMembers";
+import ProjectInvites from "@/components/ProjectInvites";
+import ProjectReports from "@/components/ProjectReports";
+import NotificationsMenu from "@/components/NotificationsMenu";
+import ProjectImportDialog from "@/components/ProjectImportDialog";
 
 const ProjectPage = () => {
   const { projectId } = useParams<{ projectId: string }>();
@@ -22,7 +32,12 @@ const ProjectPage = () => {
   const [sprints, setSprints] = useState<Sprint[]>([]);
   const [loading, setLoading] = useState(true);
   const [isCreateSprintOpen, setIsCreateSprintOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  // Bumped after an import so the backlog and epics load the new records
+  const [importCount, setImportCount] = useState(0);
+  const { canEdit, canManage } = usePermissions();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     const loadProject = async () => {
@@ -61,6 +76,17 @@ const ProjectPage = () => {
     });
   };
 
+  const handleImported = async () => {
+    setImportCount(count => count + 1);
+    queryClient.invalidateQueries({ queryKey: sprintCapacityKey(projectId) });
+
+    try {
+      setSprints(await fetchProjectSprints(projectId));
+    } catch (error) {
+      console.error('Error reloading sprints:', error);
+    }
+  };
+
   const handleGoHome = () => {
     navigate('/');
   };
@@ -90,57 +116,98 @@ const ProjectPage = () => {
   }
   
   return (
-    <div className="container mx-auto p-4">
-      <div className="flex justify-between items-center mb-6">
-        <h1 className="text-3xl font-bold">{project?.name}</h1>
-        <div className="flex items-center gap-2">
-          <Button variant="outline" onClick={handleGoDashboard}>
-            <LayoutDashboard className="mr-2 h-4 w-4" />
-            Dashboard
-          </Button>
-          <Button variant="outline" onClick={handleGoHome}>
-            <Home className="mr-2 h-4 w-4" />
-            Home
-          </Button>
+    <WorkflowProvider projectId={projectId}>
+      <div className="container mx-auto p-4">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl font-bold">{project?.name}</h1>
+          <div className="flex items-center gap-2">
+            <NotificationsMenu />
+            {canManage && (
+              <Button variant="outline" onClick={() => navigate(`/project/${projectId}/settings`)}>
+                <Settings className="mr-2 h-4 w-4" />
+                Settings
+              </Button>
+            )}
+            <Button variant="outline" onClick={handleGoDashboard}>
+              <LayoutDashboard className="mr-2 h-4 w-4" />
+              Dashboard
+            </Button>
+            <Button variant="outline" onClick={handleGoHome}>
+              <Home className="mr-2 h-4 w-4" />
+              Home
+            </Button>
+          </div>
         </div>
-      </div>
       
-      {project?.description && (
-        <p className="text-muted-foreground mb-6">{project.description}</p>
-      )}
+        {project?.description && (
+          <p className="text-muted-foreground mb-6">{project.description}</p>
+        )}
       
-      <div className="mb-6 flex justify-between items-center">
-        <h2 className="text-xl font-semibold">Project Code: <span className="font-mono bg-muted px-2 py-1 rounded">{project?.code}</span></h2>
-        <Button onClick={() => setIsCreateSprintOpen(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          Create Sprint
-        </Button>
-      </div>
+        {canEdit && (
+          <div className="mb-6 flex justify-end items-center gap-2">
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <Button onClick={() => setIsCreateSprintOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Sprint
+            </Button>
+          </div>
+        )}
       
-      <Tabs defaultValue="sprints" className="w-full">
-        <TabsList>
-          <TabsTrigger value="sprints">Sprints</TabsTrigger>
-          <TabsTrigger value="backlog">Product Backlog</TabsTrigger>
-        </TabsList>
+        <Tabs defaultValue="sprints" className="w-full">
+          <TabsList>
+            <TabsTrigger value="sprints">Sprints</TabsTrigger>
+            <TabsTrigger value="backlog">Product Backlog</TabsTrigger>
+            <TabsTrigger value="epics">Epics</TabsTrigger>
+            <TabsTrigger value="reports">Reports</TabsTrigger>
+            <TabsTrigger value="members">Members</TabsTrigger>
+          </TabsList>
         
-        <TabsContent value="sprints" className="mt-6">
-          <SprintList sprints={sprints} projectId={projectId || ''} />
-        </TabsContent>
+          <TabsContent value="sprints" className="mt-6">
+            <SprintList sprints={sprints} projectId={projectId || ''} />
+          </TabsContent>
         
-        <TabsContent value="backlog" className="mt-6">
-          <ProductBacklog projectId={projectId || ''} />
-        </TabsContent>
-      </Tabs>
+          <TabsContent value="backlog" className="mt-6">
+            <ProductBacklog key={importCount} projectId={projectId || ''} />
+          </TabsContent>
+        
+          <TabsContent value="epics" className="mt-6">
+            <EpicList key={importCount} projectId={projectId || ''} />
+          </TabsContent>
+        
+          <TabsContent value="reports" className="mt-6">
+            <ProjectReports projectId={projectId || ''} />
+          </TabsContent>
+        
+          <TabsContent value="members" className="mt-6">
+            <div className="space-y-8">
+              <ProjectMembers projectId={projectId || ''} />
+              {canManage && <ProjectInvites projectId={projectId || ''} />}
+            </div>
+          </TabsContent>
+        </Tabs>
       
-      {user && projectId && (
-        <CreateSprintDialog 
-          open={isCreateSprintOpen} 
-          onClose={() => setIsCreateSprintOpen(false)} 
-          onCreateSprint={handleSprintCreated}
-          projectId={projectId}
-        />
-      )}
-    </div>
+        {user && projectId && canEdit && (
+          <CreateSprintDialog 
+            open={isCreateSprintOpen} 
+            onClose={() => setIsCreateSprintOpen(false)} 
+            onCreateSprint={handleSprintCreated}
+            projectId={projectId}
+          />
+        )}
+
+        {projectId && canEdit && (
+          <ProjectImportDialog
+            open={isImportOpen}
+            onOpenChange={setIsImportOpen}
+            projectId={projectId}
+            onImported={handleImported}
+          />
+        )}
+      </div>
+    </WorkflowProvider>
   );
 };
 
@@ -0,0 +1,139 @@
+import { useParams, useNavigate } from "react-router-dom";
+import { useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Download } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { fetchProjects } from "@/lib/supabase/projects";
+import { exportProjectArchive } from "@/lib/supabase/project-archive";
+import { archiveFileName } from "@/lib/project-archive";
+import { Project } from "@/types/user";
+import LabelManager from "@/components/LabelManager";
+import WorkflowManager from "@/components/WorkflowManager";
+
+const ProjectSettingsPage = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [project, setProject] = useState<Project | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const { canManage, loading: permissionsLoading } = usePermissions();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const loadProject = async () => {
+      if (!projectId || !user) return;
+
+      try {
+        setLoading(true);
+        const projectsData = await fetchProjects(user.id);
+        setProject(projectsData.find(p => p.id === projectId) || null);
+      } catch (error) {
+        console.error('Error loading project data:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load project data',
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadProject();
+  }, [projectId, user, toast]);
+
+  const handleExport = async () => {
+    if (!project) return;
+
+    try {
+      setIsExporting(true);
+      const archive = await exportProjectArchive(project.id);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = archiveFileName(project.name);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting project:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to export the project',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (loading || permissionsLoading) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <div className="animate-spin h-10 w-10 border-4 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  if (!project) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-destructive">Project not found</h2>
+          <p className="text-muted-foreground mt-2">The project you're looking for doesn't exist or you don't have access to it.</p>
+          <Button onClick={() => navigate('/dashboard')} className="mt-4">Back to Dashboard</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!canManage) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-destructive">Access denied</h2>
+          <p className="text-muted-foreground mt-2">Only project owners and admins can change the project settings.</p>
+          <Button onClick={() => navigate(`/project/${project.id}`)} className="mt-4">Back to Project</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">{project.name} Settings</h1>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+            <Download className="mr-2 h-4 w-4" />
+            {isExporting ? 'Exporting...' : 'Export project'}
+          </Button>
+          <Button variant="outline" onClick={() => navigate(`/project/${project.id}`)}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Project
+          </Button>
+        </div>
+      </div>
+
+      <Tabs defaultValue="labels" className="w-full">
+        <TabsList>
+          <TabsTrigger value="labels">Labels</TabsTrigger>
+          <TabsTrigger value="workflow">Workflow</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="labels" className="mt-6">
+          <LabelManager projectId={project.id} />
+        </TabsContent>
+
+        <TabsContent value="workflow" className="mt-6">
+          <WorkflowManager projectId={project.id} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default ProjectSettingsPage;
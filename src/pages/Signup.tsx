@@ -1,6 +1,6 @@
 
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -15,14 +15,17 @@ const Signup = () => {
   const [isLoading, setIsLoading] = useState(false);
   const { signup, isAuthenticated } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Set by ProtectedRoute and the join page when the user has to sign in first
+  const redirectTo: string | undefined = location.state?.from?.pathname;
   const { toast } = useToast();
 
   // Add effect to redirect when auth state changes
   useEffect(() => {
     if (isAuthenticated) {
-      navigate('/');
+      navigate(redirectTo || '/');
     }
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated, navigate, redirectTo]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -48,7 +51,7 @@ const Signup = () => {
     setIsLoading(true);
     
     try {
-      await signup(email, password, name);
+      await signup(email, password, name, redirectTo);
       // Auth state is handled in AuthContext with Supabase listeners
       // and the useEffect above will handle redirection
     } catch (error) {
@@ -128,7 +131,7 @@ const Signup = () => {
         <div className="text-center text-sm">
           <p className="text-muted-foreground">
             Already have an account?{' '}
-            <Button variant="link" className="p-0" onClick={() => navigate('/login')}>
+            <Button variant="link" className="p-0" onClick={() => navigate('/login', { state: location.state })}>
               Log in
             </Button>
           </p>
@@ -2,14 +2,22 @@
 import { useParams, useNavigate } from "react-router-dom";
 import { useEffect, useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import { WorkflowProvider } from "@/contexts/WorkflowContext";
+import { ProjectPermissionsProvider } from "@/contexts/PermissionsContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { fetchSprints } from "@/lib/supabase/sprints";
+import { fetchSprints, fetchProjectSprints, startSprint } from "@/lib/supabase/sprints";
 import { useToast } from "@/hooks/use-toast";
 import KanbanBoard from "@/components/KanbanBoard";
-import { ArrowLeft, CalendarClock } from "lucide-react";
+import CompleteSprintDialog from "@/components/CompleteSprintDialog";
+import SprintCharts from "@/components/SprintCharts";
+import SprintCapacityDialog from "@/components/SprintCapacityDialog";
+import CapacityGauge from "@/components/CapacityGauge";
+import { useSprintCapacity } from "@/hooks/use-sprint-capacity";
+import { ArrowLeft, CalendarClock, CheckCircle2, Gauge, Play } from "lucide-react";
 import { format, differenceInDays } from "date-fns";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Sprint } from "@/types/sprint";
 
 const SprintPage = () => {
@@ -17,8 +25,13 @@ const SprintPage = () => {
   const { toast } = useToast();
   const [sprint, setSprint] = useState<Sprint | null>(null);
   const [loading, setLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isCompleteDialogOpen, setIsCompleteDialogOpen] = useState(false);
+  const [isCapacityDialogOpen, setIsCapacityDialogOpen] = useState(false);
+  const [boardKey, setBoardKey] = useState(0);
   const { user } = useAuth();
   const navigate = useNavigate();
+  const { getCapacity } = useSprintCapacity(sprint?.projectId);
 
   useEffect(() => {
     const loadSprint = async () => {
@@ -56,6 +69,8 @@ const SprintPage = () => {
 
   const calculateProgress = () => {
     if (!sprint) return 0;
+    if (sprint.status === "planned") return 0;
+    if (sprint.status === "completed") return 100;
     
     const startDate = new Date(sprint.startDate);
     const endDate = new Date(sprint.endDate);
@@ -70,6 +85,61 @@ const SprintPage = () => {
     return Math.min(100, Math.round((daysElapsed / totalDays) * 100));
   };
 
+  const handleStartSprint = async () => {
+    if (!sprint) return;
+
+    try {
+      setIsStarting(true);
+
+      // Only one sprint per project runs at a time
+      if (sprint.projectId) {
+        const projectSprints = await fetchProjectSprints(sprint.projectId);
+        const activeSprint = projectSprints.find(s => s.status === "active" && s.id !== sprint.id);
+        if (activeSprint) {
+          toast({
+            title: "Error",
+            description: `Complete ${activeSprint.name} before starting another sprint`,
+            variant: "destructive",
+          });
+          return;
+        }
+      }
+
+      const startedSprint = await startSprint(sprint.id);
+      setSprint(startedSprint);
+      toast({
+        title: "Sprint started",
+        description: `${startedSprint.name} is now active`,
+      });
+    } catch (error) {
+      console.error("Failed to start sprint:", error);
+      toast({
+        title: "Error",
+        description: "Failed to start sprint",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleSprintCompleted = (completedSprint: Sprint) => {
+    setSprint(completedSprint);
+    // Reload the board so carried-over tasks disappear from it
+    setBoardKey(key => key + 1);
+  };
+
+  const getStatusBadge = () => {
+    switch (sprint?.status) {
+      case "active":
+        return <Badge variant="default">Active</Badge>;
+      case "completed":
+        return <Badge variant="secondary">Completed</Badge>;
+      default:
+        return <Badge variant="outline">Planned</Badge>;
+    }
+  };
+
   const handleBackToProject = () => {
     if (sprint && sprint.projectId) {
       navigate(`/project/${sprint.projectId}`);
@@ -105,40 +175,93 @@ const SprintPage = () => {
   const progress = calculateProgress();
 
   return (
-    <div className="container mx-auto p-4">
-      <div className="flex justify-between items-center mb-4">
-        <div className="flex items-center gap-2">
-          <Button variant="outline" size="icon" onClick={handleBackToProject}>
-            <ArrowLeft className="h-4 w-4" />
-          </Button>
-          <h1 className="text-2xl font-bold">Sprint Board</h1>
-        </div>
-        <Button variant="outline" onClick={handleGoHome}>Home</Button>
-      </div>
-      
-      <Card className="mb-6">
-        <CardHeader className="pb-2">
-          <div className="flex justify-between items-center">
-            <CardTitle className="text-xl">{sprint.name}</CardTitle>
-            <div className="flex items-center text-sm text-muted-foreground">
-              <CalendarClock size={16} className="mr-1" />
-              {format(new Date(sprint.startDate), "MMM d")} - {format(new Date(sprint.endDate), "MMM d, yyyy")}
+    <ProjectPermissionsProvider projectId={sprint.projectId}>
+      <WorkflowProvider projectId={sprint.projectId}>
+        <div className="container mx-auto p-4">
+          <div className="flex justify-between items-center mb-4">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" onClick={handleBackToProject}>
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <h1 className="text-2xl font-bold">Sprint Board</h1>
             </div>
+            <Button variant="outline" onClick={handleGoHome}>Home</Button>
           </div>
-        </CardHeader>
-        <CardContent>
-          <div className="mb-2">
-            <div className="flex justify-between mb-1 text-sm">
-              <span>Sprint Progress</span>
-              <span>{progress}%</span>
-            </div>
-            <Progress value={progress} />
-          </div>
-        </CardContent>
-      </Card>
+        
+          <Card className="mb-6">
+            <CardHeader className="pb-2">
+              <div className="flex justify-between items-center">
+                <div className="flex items-center gap-2">
+                  <CardTitle className="text-xl">{sprint.name}</CardTitle>
+                  {getStatusBadge()}
+                </div>
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center text-sm text-muted-foreground">
+                    <CalendarClock size={16} className="mr-1" />
+                    {format(new Date(sprint.startDate), "MMM d")} - {format(new Date(sprint.endDate), "MMM d, yyyy")}
+                  </div>
+                  {sprint.projectId && (
+                    <Button size="sm" variant="outline" onClick={() => setIsCapacityDialogOpen(true)}>
+                      <Gauge className="mr-2 h-4 w-4" />
+                      Capacity
+                    </Button>
+                  )}
+                  {sprint.status === "planned" && (
+                    <Button size="sm" onClick={handleStartSprint} disabled={isStarting}>
+                      <Play className="mr-2 h-4 w-4" />
+                      {isStarting ? "Starting..." : "Start Sprint"}
+                    </Button>
+                  )}
+                  {sprint.status === "active" && (
+                    <Button size="sm" onClick={() => setIsCompleteDialogOpen(true)}>
+                      <CheckCircle2 className="mr-2 h-4 w-4" />
+                      Complete Sprint
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="mb-2">
+                <div className="flex justify-between mb-1 text-sm">
+                  <span>Sprint Progress</span>
+                  <span>{progress}%</span>
+                </div>
+                <Progress value={progress} />
+              </div>
+              {sprint.status === "completed" && sprint.committedPoints !== undefined && (
+                <p className="text-sm text-muted-foreground">
+                  Completed {sprint.completedPoints} of {sprint.committedPoints} committed points
+                </p>
+              )}
+              {sprint.projectId && sprint.status !== "completed" && (
+                <CapacityGauge capacity={getCapacity(sprint)} projectId={sprint.projectId} className="mt-4" />
+              )}
+            </CardContent>
+          </Card>
+
+          <SprintCharts key={`charts-${boardKey}`} sprint={sprint} />
 
-      {sprintId && <KanbanBoard sprintId={sprintId} />}
-    </div>
+          {sprintId && <KanbanBoard key={boardKey} sprintId={sprintId} projectId={sprint.projectId} />}
+
+          <CompleteSprintDialog
+            open={isCompleteDialogOpen}
+            onOpenChange={setIsCompleteDialogOpen}
+            sprint={sprint}
+            onSprintCompleted={handleSprintCompleted}
+          />
+
+          {sprint.projectId && (
+            <SprintCapacityDialog
+              open={isCapacityDialogOpen}
+              onOpenChange={setIsCapacityDialogOpen}
+              sprint={sprint}
+              onSprintUpdated={setSprint}
+            />
+          )}
+        </div>
+      </WorkflowProvider>
+    </ProjectPermissionsProvider>
   );
 };
 
@@ -65,6 +65,35 @@ export class DatabaseService {
     );
   }
 
+  // IDs of the users with sprints or tasks stored in this browser
+  static getStoredUserIds(): string[] {
+    const userIds = new Set<string>();
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      const baseKey = [SPRINTS_KEY, TASKS_KEY, PRODUCT_BACKLOG_KEY].find(base => key?.startsWith(`${base}_`));
+      if (!baseKey) continue;
+
+      try {
+        const stored = JSON.parse(localStorage.getItem(key) || '[]');
+        if (Array.isArray(stored) && stored.length > 0) {
+          userIds.add(key.slice(baseKey.length + 1));
+        }
+      } catch {
+        // Not data this service wrote
+      }
+    }
+
+    return [...userIds];
+  }
+
+  // Removes the user's sprints, tasks and backlog from this browser
+  async clearUserData(): Promise<void> {
+    localStorage.removeItem(this.getKey(SPRINTS_KEY));
+    localStorage.removeItem(this.getKey(TASKS_KEY));
+    localStorage.removeItem(this.getKey(PRODUCT_BACKLOG_KEY));
+  }
+
   // Sprint methods
   async getSprints(): Promise<Sprint[]> {
     const storedSprints = localStorage.getItem(this.getKey(SPRINTS_KEY));
@@ -0,0 +1,11 @@
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  projectId?: string;
+  parentId?: string; // The comment this one replies to, if any
+  authorId: string;
+  body: string; // Markdown
+  mentions: string[]; // IDs of the users mentioned in the body
+  createdAt: string;
+  updatedAt: string;
+}
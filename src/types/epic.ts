@@ -0,0 +1,9 @@
+export interface Epic {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string;
+  color: string; // Hex color used for the epic's badge
+  userId?: string; // The ID of the user who created the epic
+  createdAt: string;
+}
@@ -0,0 +1,31 @@
+import { Task } from "./task";
+
+export type TaskEventType = "created" | "updated" | "moved" | "deleted";
+
+// Before and after values of a single field; null when there was no value
+export interface TaskFieldChange<T> {
+  from: T | null;
+  to: T | null;
+}
+
+export interface TaskEventChanges {
+  title?: TaskFieldChange<string>;
+  description?: TaskFieldChange<string>;
+  priority?: TaskFieldChange<string>;
+  points?: TaskFieldChange<number>;
+  status?: TaskFieldChange<Task["status"]>;
+  assignees?: TaskFieldChange<string[]>; // User IDs
+  sprint?: TaskFieldChange<string>; // Sprint IDs, null for the product backlog
+}
+
+export type TaskEventField = keyof TaskEventChanges;
+
+export interface TaskEvent {
+  id: number;
+  taskId: string;
+  projectId?: string;
+  actorId?: string; // The user who made the change, if known
+  type: TaskEventType;
+  changes: TaskEventChanges;
+  createdAt: string;
+}
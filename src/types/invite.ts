@@ -0,0 +1,37 @@
+import { ProjectRole } from "./user";
+
+export interface ProjectInvite {
+  id: string;
+  projectId: string;
+  code?: string; // Set on invites shared as a code
+  email?: string; // Set on invites sent to one address
+  token?: string; // Secret of the /join/:token link of email invites
+  role: Exclude<ProjectRole, "owner">; // Role given to people joining with the invite
+  expiresAt?: string; // Never expires if not set
+  maxUses?: number; // Unlimited if not set
+  useCount: number;
+  revokedAt?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export type InviteState = "active" | "expired" | "used-up" | "revoked";
+
+// One person joining through an invite
+export interface ProjectInviteUse {
+  id: number;
+  inviteId: string;
+  projectId: string;
+  userId?: string;
+  role: ProjectRole;
+  joinedAt: string;
+}
+
+// What someone following an invite link sees before joining
+export interface InviteDetails {
+  projectName: string;
+  role: ProjectInvite["role"];
+  email?: string;
+  expiresAt?: string;
+  usable: boolean; // Not revoked, expired or used up
+}
@@ -0,0 +1,6 @@
+export interface Label {
+  id: string;
+  projectId: string;
+  name: string;
+  color: string; // Hex color used for the label's badge
+}
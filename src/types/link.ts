@@ -0,0 +1,11 @@
+// "blocks" is directional: the source task blocks the target task
+export type TaskLinkType = "blocks" | "relates-to";
+
+export interface TaskLink {
+  id: string;
+  projectId?: string;
+  sourceId: string;
+  targetId: string;
+  type: TaskLinkType;
+  createdAt: string;
+}
@@ -0,0 +1,15 @@
+export type NotificationType = "mention";
+
+export interface Notification {
+  id: string;
+  userId: string; // The user being notified
+  actorId?: string; // The user who caused the notification
+  projectId?: string;
+  taskId?: string;
+  commentId?: string;
+  type: NotificationType;
+  readAt?: string;
+  createdAt: string;
+  actorName?: string; // Joined from the actor's profile
+  taskTitle?: string; // Joined from the task
+}
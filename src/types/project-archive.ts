@@ -0,0 +1,29 @@
+import { Tables } from "@/integrations/supabase/types";
+import { ProjectRole } from "./user";
+
+export interface ArchivedMember {
+  user_id: string;
+  email: string | null; // Finds the member again when restoring on another instance
+  role: ProjectRole;
+}
+
+// A project and everything in it. Rows are kept as the database holds them,
+// so the schema version says which columns they have.
+export interface ProjectArchive {
+  format: string;
+  version: number;
+  exported_at: string;
+  project: Pick<Tables<"projects">, "id" | "name" | "description" | "wip_limit_mode" | "created_at">;
+  members: ArchivedMember[];
+  workflow_statuses: Tables<"workflow_statuses">[]; // Empty for the default workflow
+  sprints: Tables<"sprints">[];
+  epics: Tables<"epics">[];
+  labels: Tables<"labels">[];
+  tasks: Tables<"tasks">[];
+  task_labels: Tables<"task_labels">[];
+  task_links: Tables<"task_links">[];
+  task_comments: Tables<"task_comments">[];
+  task_history: Omit<Tables<"task_history">, "id">[];
+  task_events: Omit<Tables<"task_events">, "id">[];
+  sprint_capacity: Tables<"sprint_capacity">[];
+}
@@ -1,3 +1,4 @@
+export type SprintStatus = "planned" | "active" | "completed";
 
 export interface Sprint {
   id: string;
@@ -6,4 +7,19 @@ export interface Sprint {
   endDate: string;
   tasks: string[]; // Array of task IDs
   projectId?: string; // Reference to the project
+  status?: SprintStatus;
+  startedAt?: string; // When the sprint was explicitly started
+  completedAt?: string; // When the sprint was explicitly completed
+  committedPoints?: number; // Points in the sprint when it was completed
+  completedPoints?: number; // Points done when the sprint was completed
+  hoursPerDay?: number; // Working hours of a fully available member per day
+  pointsPerDay?: number; // Points a fully focused member completes per day
+}
+
+// A member's availability for one sprint; members without one are fully available
+export interface MemberAvailability {
+  sprintId: string;
+  userId: string;
+  daysOff: number;
+  focusFactor: number; // Share of the working day spent on sprint work, 0 to 1
 }
@@ -1,13 +1,48 @@
+import { Label } from "./label";
+
+// Key of one of the project's workflow statuses
+export type TaskStatus = string;
+
+export type IssueType = "story" | "bug" | "task" | "spike";
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
 
 export interface Task {
   id: string;
   title: string;
   description: string;
   priority: string;
+  type?: IssueType;
   points: number;
-  status: "todo" | "in-progress" | "in-review" | "done";
+  status: TaskStatus;
   assignees: string[]; // Array of user IDs
   userId?: string; // The ID of the user who created the task
   projectId?: string; // The ID of the project this task belongs to
   sprintId?: string; // The ID of the sprint this task belongs to
+  rank?: string; // Lexicographic position of the task within its list
+  commentCount?: number; // Only loaded by the board and backlog queries
+  epicId?: string; // The epic this task belongs to
+  labels?: Label[];
+  parentId?: string; // The task this one is a subtask of
+  checklist?: ChecklistItem[];
+  subtaskStatuses?: TaskStatus[]; // Only loaded by the board and backlog queries
+  blockerStatuses?: TaskStatus[]; // Statuses of the tasks blocking this one; only loaded by the board and backlog queries
+  createdAt?: string;
+  startedAt?: string; // When the task first left the first workflow status
+  completedAt?: string; // When the task last moved into a done status; cleared when reopened
+}
+
+// Snapshot of a task's chart-relevant fields, recorded whenever they change
+export interface TaskHistoryEntry {
+  taskId: string;
+  projectId?: string;
+  sprintId?: string;
+  status: Task["status"];
+  points: number;
+  deleted: boolean; // True for the entry recorded when the task was deleted
+  recordedAt: string;
 }
@@ -1,3 +1,4 @@
+import { WipLimitMode } from "./workflow";
 
 export interface User {
   id: string;
@@ -25,7 +26,18 @@ export interface Project {
   name: string;
   description?: string;
   user_id: string;
-  code: string;
   members: string[];
   created_at: string;
+  wip_limit_mode?: WipLimitMode;
+}
+
+// Ordered from most to least access
+export type ProjectRole = "owner" | "admin" | "member" | "viewer";
+
+export interface ProjectMember {
+  id: number;
+  projectId: string;
+  userId: string;
+  role: ProjectRole;
+  createdAt: string;
 }
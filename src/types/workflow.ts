@@ -0,0 +1,26 @@
+export interface WorkflowStatus {
+  id: string;
+  projectId?: string;
+  key: string; // Stored in Task.status
+  name: string;
+  color: string; // Hex color used for the status badge
+  isDone: boolean; // Whether tasks in this status count as done for metrics
+  rank: string; // Lexicographic position of the status within the workflow
+  wipLimit?: number; // Most tasks the status should hold at once, unlimited if not set
+}
+
+// Soft limits warn when a move goes over them, hard limits reject the move
+export type WipLimitMode = "soft" | "hard";
+
+export interface WipBreach {
+  id: string;
+  projectId: string;
+  sprintId: string;
+  taskId?: string;
+  status: string;
+  wipLimit: number;
+  taskCount: number; // Tasks in the status had the move gone through
+  rejected: boolean;
+  userId?: string;
+  createdAt: string;
+}
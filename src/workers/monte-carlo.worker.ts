@@ -0,0 +1,8 @@
+import { simulate, SimulationRequest } from "@/lib/monte-carlo";
+
+// Ten thousand runs take long enough to stall the page, so they run here
+const worker = self as unknown as Worker;
+
+worker.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  worker.postMessage(simulate(event.data));
+};
@@ -0,0 +1,99 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Anything that can deliver a message. Functions only talk to this interface,
+// so the transport is picked by configuration.
+export interface Mailer {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+  tls: boolean;
+  from: string;
+}
+
+/**
+ * Creates a mailer sending through an SMTP server. Locally this can be the
+ * Inbucket instance started by `supabase start`, or any other SMTP catcher.
+ * @param config - The SMTP server settings
+ * @returns The mailer
+ */
+export function createSmtpMailer(config: SmtpConfig): Mailer {
+  return {
+    send: async (message) => {
+      const client = new SMTPClient({
+        connection: {
+          hostname: config.host,
+          port: config.port,
+          tls: config.tls,
+          auth: config.username ? { username: config.username, password: config.password ?? "" } : undefined,
+        },
+      });
+
+      try {
+        await client.send({
+          from: config.from,
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
+
+/**
+ * Creates a mailer that only logs messages, for when no SMTP server is set up
+ * @returns The mailer
+ */
+export function createConsoleMailer(): Mailer {
+  return {
+    send: async (message) => {
+      console.log(`Mail to ${message.to}: ${message.subject}\n\n${message.text}`);
+    },
+  };
+}
+
+/**
+ * Creates the mailer configured through the environment. MAILER picks the
+ * transport ("smtp" or "console"), defaulting to SMTP when SMTP_HOST is set.
+ * @returns The mailer
+ */
+export function createMailer(): Mailer {
+  const transport = Deno.env.get("MAILER") ?? (Deno.env.get("SMTP_HOST") ? "smtp" : "console");
+
+  if (transport === "console") {
+    return createConsoleMailer();
+  }
+
+  if (transport !== "smtp") {
+    throw new Error(`Unknown mailer "${transport}"`);
+  }
+
+  const host = Deno.env.get("SMTP_HOST");
+  if (!host) {
+    throw new Error("SMTP_HOST must be set to send mail over SMTP");
+  }
+
+  return createSmtpMailer({
+    host,
+    port: Number(Deno.env.get("SMTP_PORT") ?? 587),
+    username: Deno.env.get("SMTP_USER"),
+    password: Deno.env.get("SMTP_PASS"),
+    tls: Deno.env.get("SMTP_TLS") === "true",
+    from: Deno.env.get("SMTP_FROM") ?? "Sprint Planner <no-reply@localhost>",
+  });
+}
@@ -0,0 +1,62 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createMailer } from "../_shared/mailer.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Emails the join link of an email invite to its recipient
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { inviteId } = await req.json();
+
+    // Acts as the caller, so only project admins can read the invite
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+
+    const { data: invite, error } = await supabase
+      .from("project_invites")
+      .select("email, token, role, expires_at, projects (name)")
+      .eq("id", inviteId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!invite?.email || !invite.token) {
+      return respond({ error: "Invite not found" }, 404);
+    }
+
+    const siteUrl = Deno.env.get("SITE_URL") ?? req.headers.get("origin") ?? "";
+    const link = `${siteUrl}/join/${invite.token}`;
+    const projectName = (invite.projects as { name: string } | null)?.name ?? "a project";
+    const expires = invite.expires_at ? `\n\nThe link expires on ${new Date(invite.expires_at).toUTCString()}.` : "";
+
+    await createMailer().send({
+      to: invite.email,
+      subject: `You're invited to join ${projectName}`,
+      text: `You have been invited to join ${projectName} as ${invite.role}.\n\nAccept the invite: ${link}${expires}`,
+      html: `<p>You have been invited to join <strong>${escapeHtml(projectName)}</strong> as ${invite.role}.</p>`
+        + `<p><a href="${link}">Accept the invite</a></p>`
+        + (expires ? `<p>${expires.trim()}</p>` : ""),
+    });
+
+    return respond({ sent: true });
+  } catch (error) {
+    console.error("Error sending invite:", error);
+    return respond({ error: error instanceof Error ? error.message : "Failed to send the invite" }, 500);
+  }
+});
@@ -0,0 +1,17 @@
+-- Manual ordering of tasks inside sprints and the product backlog.
+-- Ranks are base-62 keys compared byte by byte, hence the "C" collation.
+alter table public.tasks add column if not exists rank text collate "C";
+
+-- Seed existing tasks in creation order so nobody's board reshuffles
+with ordered as (
+  select id, row_number() over (partition by project_id order by created_at, id) as position
+  from public.tasks
+)
+update public.tasks
+set rank = lpad(to_hex(ordered.position), 8, '0') || 'V'
+from ordered
+where public.tasks.id = ordered.id
+  and public.tasks.rank is null;
+
+create index if not exists tasks_project_id_rank_idx on public.tasks (project_id, rank);
+create index if not exists tasks_sprint_id_rank_idx on public.tasks (sprint_id, rank);
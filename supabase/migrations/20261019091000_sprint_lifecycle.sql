@@ -0,0 +1,20 @@
+-- Explicit sprint lifecycle instead of inferring state from dates
+alter table public.sprints
+  add column if not exists status text not null default 'planned',
+  add column if not exists started_at timestamptz,
+  add column if not exists completed_at timestamptz,
+  add column if not exists committed_points integer,
+  add column if not exists completed_points integer;
+
+alter table public.sprints
+  add constraint sprints_status_check check (status in ('planned', 'active', 'completed'));
+
+-- Existing sprints keep the state their dates implied
+update public.sprints
+set status = case
+    when end_date < now() then 'completed'
+    when start_date <= now() then 'active'
+    else 'planned'
+  end,
+  started_at = case when start_date <= now() then start_date end,
+  completed_at = case when end_date < now() then end_date end;
@@ -0,0 +1,65 @@
+-- Per-change snapshots of the task fields that sprint charts are drawn from.
+-- Rows are written by a trigger so every client (and direct SQL) is captured.
+create table if not exists public.task_history (
+  id bigint generated always as identity primary key,
+  task_id uuid not null,
+  project_id uuid references public.projects (id) on delete cascade,
+  sprint_id uuid,
+  status text not null,
+  estimate integer,
+  deleted boolean not null default false,
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists task_history_task_id_idx on public.task_history (task_id, recorded_at);
+create index if not exists task_history_sprint_id_idx on public.task_history (sprint_id);
+create index if not exists task_history_project_id_idx on public.task_history (project_id, recorded_at);
+
+create or replace function public.record_task_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    insert into public.task_history (task_id, project_id, sprint_id, status, estimate, deleted)
+    values (old.id, old.project_id, old.sprint_id, old.status, old.estimate, true);
+    return old;
+  end if;
+
+  -- Reordering or renaming a task does not change what the charts show
+  if tg_op = 'UPDATE'
+    and new.status is not distinct from old.status
+    and new.estimate is not distinct from old.estimate
+    and new.sprint_id is not distinct from old.sprint_id then
+    return new;
+  end if;
+
+  insert into public.task_history (task_id, project_id, sprint_id, status, estimate)
+  values (new.id, new.project_id, new.sprint_id, new.status, new.estimate);
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_record_history on public.tasks;
+create trigger tasks_record_history
+  after insert or update or delete on public.tasks
+  for each row execute function public.record_task_history();
+
+-- Existing tasks start their history from their current state
+insert into public.task_history (task_id, project_id, sprint_id, status, estimate, recorded_at)
+select id, project_id, sprint_id, status, estimate, created_at
+from public.tasks;
+
+alter table public.task_history enable row level security;
+
+create policy "Project members can read task history"
+  on public.task_history for select
+  using (
+    exists (
+      select 1 from public.projects p
+      where p.id = task_history.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
@@ -0,0 +1,98 @@
+-- Append-only audit log of who changed what on a task.
+-- Events are written by a trigger, so they cannot be skipped by any client.
+create table if not exists public.task_events (
+  id bigint generated always as identity primary key,
+  task_id uuid not null,
+  project_id uuid references public.projects (id) on delete cascade,
+  actor_id uuid references public.profiles (id) on delete set null,
+  type text not null check (type in ('created', 'updated', 'moved', 'deleted')),
+  changes jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_events_task_id_idx on public.task_events (task_id, created_at);
+create index if not exists task_events_project_id_idx on public.task_events (project_id, created_at);
+
+create or replace function public.record_task_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  changes jsonb := '{}'::jsonb;
+  event_type text;
+begin
+  if tg_op = 'INSERT' then
+    insert into public.task_events (task_id, project_id, actor_id, type, changes)
+    values (new.id, new.project_id, auth.uid(), 'created', jsonb_build_object(
+      'title', jsonb_build_object('from', null, 'to', new.title),
+      'status', jsonb_build_object('from', null, 'to', new.status),
+      'points', jsonb_build_object('from', null, 'to', new.estimate),
+      'assignees', jsonb_build_object('from', null, 'to', to_jsonb(new.assignee_ids)),
+      'sprint', jsonb_build_object('from', null, 'to', new.sprint_id)
+    ));
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then
+    insert into public.task_events (task_id, project_id, actor_id, type, changes)
+    values (old.id, old.project_id, auth.uid(), 'deleted', jsonb_build_object(
+      'title', jsonb_build_object('from', old.title, 'to', null)
+    ));
+    return old;
+  end if;
+
+  if new.title is distinct from old.title then
+    changes := changes || jsonb_build_object('title', jsonb_build_object('from', old.title, 'to', new.title));
+  end if;
+  if new.description is distinct from old.description then
+    changes := changes || jsonb_build_object('description', jsonb_build_object('from', old.description, 'to', new.description));
+  end if;
+  if new.priority is distinct from old.priority then
+    changes := changes || jsonb_build_object('priority', jsonb_build_object('from', old.priority, 'to', new.priority));
+  end if;
+  if new.estimate is distinct from old.estimate then
+    changes := changes || jsonb_build_object('points', jsonb_build_object('from', old.estimate, 'to', new.estimate));
+  end if;
+  if new.status is distinct from old.status then
+    changes := changes || jsonb_build_object('status', jsonb_build_object('from', old.status, 'to', new.status));
+  end if;
+  if new.assignee_ids is distinct from old.assignee_ids then
+    changes := changes || jsonb_build_object('assignees', jsonb_build_object('from', to_jsonb(old.assignee_ids), 'to', to_jsonb(new.assignee_ids)));
+  end if;
+  if new.sprint_id is distinct from old.sprint_id then
+    changes := changes || jsonb_build_object('sprint', jsonb_build_object('from', old.sprint_id, 'to', new.sprint_id));
+  end if;
+
+  -- Reordering alone is not worth an entry in the timeline
+  if changes = '{}'::jsonb then
+    return new;
+  end if;
+
+  event_type := case when changes ? 'sprint' then 'moved' else 'updated' end;
+
+  insert into public.task_events (task_id, project_id, actor_id, type, changes)
+  values (new.id, new.project_id, auth.uid(), event_type, changes);
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_record_event on public.tasks;
+create trigger tasks_record_event
+  after insert or update or delete on public.tasks
+  for each row execute function public.record_task_event();
+
+alter table public.task_events enable row level security;
+
+-- Readable by project members; there are deliberately no insert, update or
+-- delete policies, so only the trigger can write to the log
+create policy "Project members can read task events"
+  on public.task_events for select
+  using (
+    exists (
+      select 1 from public.projects p
+      where p.id = task_events.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
@@ -0,0 +1,93 @@
+-- Threaded comments on tasks, and notifications for the people they mention
+create table if not exists public.task_comments (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  project_id uuid references public.projects (id) on delete cascade,
+  parent_id uuid references public.task_comments (id) on delete cascade,
+  author_id uuid not null references public.profiles (id) on delete cascade default auth.uid(),
+  body text not null check (length(trim(body)) > 0),
+  mentions uuid[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists task_comments_task_id_idx on public.task_comments (task_id, created_at);
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  actor_id uuid references public.profiles (id) on delete set null,
+  project_id uuid references public.projects (id) on delete cascade,
+  task_id uuid references public.tasks (id) on delete cascade,
+  comment_id uuid references public.task_comments (id) on delete cascade,
+  type text not null check (type in ('mention')),
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_id_idx on public.notifications (user_id, created_at desc);
+
+-- Notify users mentioned in a comment. Edits only notify newly added mentions,
+-- and nobody is notified about mentioning themselves.
+create or replace function public.notify_comment_mentions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.notifications (user_id, actor_id, project_id, task_id, comment_id, type)
+  select mentioned, new.author_id, new.project_id, new.task_id, new.id, 'mention'
+  from unnest(new.mentions) as mentioned
+  where mentioned <> new.author_id
+    and (tg_op = 'INSERT' or not mentioned = any (old.mentions));
+  return new;
+end;
+$$;
+
+drop trigger if exists task_comments_notify_mentions on public.task_comments;
+create trigger task_comments_notify_mentions
+  after insert or update of mentions on public.task_comments
+  for each row execute function public.notify_comment_mentions();
+
+alter table public.task_comments enable row level security;
+alter table public.notifications enable row level security;
+
+create policy "Project members can read comments"
+  on public.task_comments for select
+  using (
+    exists (
+      select 1 from public.projects p
+      where p.id = task_comments.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
+
+create policy "Project members can comment"
+  on public.task_comments for insert
+  with check (
+    author_id = auth.uid()
+    and exists (
+      select 1 from public.projects p
+      where p.id = task_comments.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
+
+create policy "Authors can edit their comments"
+  on public.task_comments for update
+  using (author_id = auth.uid())
+  with check (author_id = auth.uid());
+
+create policy "Authors can delete their comments"
+  on public.task_comments for delete
+  using (author_id = auth.uid());
+
+create policy "Users can read their notifications"
+  on public.notifications for select
+  using (user_id = auth.uid());
+
+create policy "Users can mark their notifications as read"
+  on public.notifications for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,9 @@
+-- Child tasks and lightweight checklists
+alter table public.tasks
+  add column if not exists parent_id uuid references public.tasks (id) on delete cascade,
+  add column if not exists checklist jsonb not null default '[]'::jsonb;
+
+alter table public.tasks
+  add constraint tasks_parent_id_not_self check (parent_id is null or parent_id <> id);
+
+create index if not exists tasks_parent_id_idx on public.tasks (parent_id);
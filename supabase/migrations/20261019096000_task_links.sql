@@ -0,0 +1,81 @@
+-- Links between tasks. "blocks" is directional (source blocks target);
+-- "relates-to" is stored once per pair in whichever direction it was created.
+create table if not exists public.task_links (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid references public.projects (id) on delete cascade,
+  source_id uuid not null references public.tasks (id) on delete cascade,
+  target_id uuid not null references public.tasks (id) on delete cascade,
+  type text not null check (type in ('blocks', 'relates-to')),
+  created_at timestamptz not null default now(),
+  constraint task_links_not_self check (source_id <> target_id),
+  constraint task_links_unique unique (source_id, target_id, type)
+);
+
+create index if not exists task_links_source_id_idx on public.task_links (source_id);
+create index if not exists task_links_target_id_idx on public.task_links (target_id);
+
+-- Reject "blocks" links that would make a task (indirectly) block itself
+create or replace function public.check_task_link_cycle()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.type <> 'blocks' then
+    return new;
+  end if;
+
+  if exists (
+    with recursive downstream (task_id) as (
+      select new.target_id
+      union
+      select l.target_id
+      from public.task_links l
+      join downstream d on l.source_id = d.task_id
+      where l.type = 'blocks'
+    )
+    select 1 from downstream where task_id = new.source_id
+  ) then
+    raise exception 'Task dependency would create a cycle'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists task_links_check_cycle on public.task_links;
+create trigger task_links_check_cycle
+  before insert or update on public.task_links
+  for each row execute function public.check_task_link_cycle();
+
+alter table public.task_links enable row level security;
+
+create policy "Project members can read task links"
+  on public.task_links for select
+  using (
+    exists (
+      select 1 from public.projects p
+      where p.id = task_links.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
+
+create policy "Project members can link tasks"
+  on public.task_links for insert
+  with check (
+    exists (
+      select 1 from public.projects p
+      where p.id = task_links.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
+
+create policy "Project members can unlink tasks"
+  on public.task_links for delete
+  using (
+    exists (
+      select 1 from public.projects p
+      where p.id = task_links.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
@@ -0,0 +1,49 @@
+-- Epics group stories and other issues of a project across sprints
+create table if not exists public.epics (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  description text,
+  color text not null default '#7c3aed',
+  user_id uuid references public.profiles (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists epics_project_id_idx on public.epics (project_id, created_at);
+
+-- Every task has an issue type; existing tasks become plain tasks
+alter table public.tasks
+  add column if not exists type text not null default 'task'
+    check (type in ('story', 'bug', 'task', 'spike')),
+  add column if not exists epic_id uuid references public.epics (id) on delete set null;
+
+create index if not exists tasks_epic_id_idx on public.tasks (epic_id);
+
+alter table public.epics enable row level security;
+
+create policy "Project members can read epics"
+  on public.epics for select
+  using (
+    exists (
+      select 1 from public.projects p
+      where p.id = epics.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
+
+create policy "Project members can manage epics"
+  on public.epics for all
+  using (
+    exists (
+      select 1 from public.projects p
+      where p.id = epics.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.projects p
+      where p.id = epics.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
@@ -0,0 +1,78 @@
+-- Project-scoped labels. Tasks refer to labels through task_labels, so renaming
+-- a label shows up on every task and deleting it removes it from every task.
+create table if not exists public.labels (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  color text not null default '#64748b',
+  created_at timestamptz not null default now(),
+  constraint labels_project_name_unique unique (project_id, name)
+);
+
+create table if not exists public.task_labels (
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  label_id uuid not null references public.labels (id) on delete cascade,
+  primary key (task_id, label_id)
+);
+
+create index if not exists task_labels_label_id_idx on public.task_labels (label_id);
+
+alter table public.labels enable row level security;
+alter table public.task_labels enable row level security;
+
+create policy "Project members can read labels"
+  on public.labels for select
+  using (
+    exists (
+      select 1 from public.projects p
+      where p.id = labels.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
+
+create policy "Project members can manage labels"
+  on public.labels for all
+  using (
+    exists (
+      select 1 from public.projects p
+      where p.id = labels.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.projects p
+      where p.id = labels.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
+
+create policy "Project members can read task labels"
+  on public.task_labels for select
+  using (
+    exists (
+      select 1 from public.labels l
+      join public.projects p on p.id = l.project_id
+      where l.id = task_labels.label_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
+
+create policy "Project members can label tasks"
+  on public.task_labels for all
+  using (
+    exists (
+      select 1 from public.labels l
+      join public.projects p on p.id = l.project_id
+      where l.id = task_labels.label_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.labels l
+      join public.projects p on p.id = l.project_id
+      where l.id = task_labels.label_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
@@ -0,0 +1,106 @@
+-- Per-project workflow. tasks.status stores a status key; the name, color,
+-- order and whether the status counts as done live here.
+create table if not exists public.workflow_statuses (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  key text not null check (key ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name text not null check (length(trim(name)) > 0),
+  color text not null default '#64748b',
+  is_done boolean not null default false,
+  rank text collate "C" not null,
+  created_at timestamptz not null default now(),
+  constraint workflow_statuses_project_key_unique unique (project_id, key)
+);
+
+create index if not exists workflow_statuses_project_rank_idx on public.workflow_statuses (project_id, rank);
+
+-- The four statuses every project used to have
+create or replace function public.seed_workflow_statuses(p_project_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.workflow_statuses (project_id, key, name, color, is_done, rank)
+  values
+    (p_project_id, 'todo', 'To Do', '#64748b', false, 'V'),
+    (p_project_id, 'in-progress', 'In Progress', '#2563eb', false, 'k'),
+    (p_project_id, 'in-review', 'In Review', '#7c3aed', false, 's'),
+    (p_project_id, 'done', 'Done', '#16a34a', true, 'w')
+  on conflict (project_id, key) do nothing;
+$$;
+
+select public.seed_workflow_statuses(id) from public.projects;
+
+create or replace function public.seed_project_workflow()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.seed_workflow_statuses(new.id);
+  return new;
+end;
+$$;
+
+drop trigger if exists projects_seed_workflow on public.projects;
+create trigger projects_seed_workflow
+  after insert on public.projects
+  for each row execute function public.seed_project_workflow();
+
+-- Removes a status after moving its tasks to another status of the same project
+create or replace function public.remove_workflow_status(p_status_id uuid, p_replacement_key text)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  removed public.workflow_statuses;
+begin
+  select * into removed from public.workflow_statuses where id = p_status_id;
+  if not found then
+    raise exception 'Workflow status not found';
+  end if;
+
+  if p_replacement_key = removed.key or not exists (
+    select 1 from public.workflow_statuses
+    where project_id = removed.project_id and key = p_replacement_key
+  ) then
+    raise exception 'Replacement status must be another status of the same project';
+  end if;
+
+  update public.tasks
+  set status = p_replacement_key
+  where project_id = removed.project_id and status = removed.key;
+
+  delete from public.workflow_statuses where id = p_status_id;
+end;
+$$;
+
+alter table public.workflow_statuses enable row level security;
+
+create policy "Project members can read the workflow"
+  on public.workflow_statuses for select
+  using (
+    exists (
+      select 1 from public.projects p
+      where p.id = workflow_statuses.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
+
+create policy "Project members can change the workflow"
+  on public.workflow_statuses for all
+  using (
+    exists (
+      select 1 from public.projects p
+      where p.id = workflow_statuses.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.projects p
+      where p.id = workflow_statuses.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
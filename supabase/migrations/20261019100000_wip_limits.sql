@@ -0,0 +1,46 @@
+-- Work-in-progress limits per workflow status. Soft mode warns when a move
+-- goes over the limit, hard mode rejects it.
+alter table public.workflow_statuses
+  add column if not exists wip_limit integer check (wip_limit > 0);
+
+alter table public.projects
+  add column if not exists wip_limit_mode text not null default 'soft'
+    check (wip_limit_mode in ('soft', 'hard'));
+
+-- Every move that went, or tried to go, over a limit
+create table if not exists public.wip_breaches (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  sprint_id uuid not null references public.sprints (id) on delete cascade,
+  task_id uuid references public.tasks (id) on delete set null,
+  status text not null,
+  wip_limit integer not null,
+  task_count integer not null, -- Tasks in the status had the move gone through
+  rejected boolean not null default false, -- True when hard mode blocked the move
+  user_id uuid references public.profiles (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists wip_breaches_sprint_id_idx on public.wip_breaches (sprint_id, created_at);
+
+alter table public.wip_breaches enable row level security;
+
+create policy "Project members can read WIP breaches"
+  on public.wip_breaches for select
+  using (
+    exists (
+      select 1 from public.projects p
+      where p.id = wip_breaches.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
+
+create policy "Project members can record WIP breaches"
+  on public.wip_breaches for insert
+  with check (
+    exists (
+      select 1 from public.projects p
+      where p.id = wip_breaches.project_id
+        and (p.user_id = auth.uid() or auth.uid() = any (p.members))
+    )
+  );
@@ -0,0 +1,350 @@
+-- Roles per project membership. project_members becomes the source of truth;
+-- projects.members is kept in sync for the queries that still read it.
+--   owner  - everything, including deleting the project
+--   admin  - manages members, workflow and labels, deletes tasks and sprints
+--   member - creates and edits tasks, sprints and epics
+--   viewer - read-only
+alter table public.project_members
+  add column if not exists role text not null default 'member'
+    check (role in ('owner', 'admin', 'member', 'viewer')),
+  add column if not exists created_at timestamptz not null default now();
+
+delete from public.project_members a
+using public.project_members b
+where a.project_id = b.project_id and a.user_id = b.user_id and a.id > b.id;
+
+alter table public.project_members
+  add constraint project_members_project_user_unique unique (project_id, user_id);
+
+insert into public.project_members (project_id, user_id, role)
+select p.id, p.user_id, 'owner'
+from public.projects p
+on conflict (project_id, user_id) do update set role = 'owner';
+
+insert into public.project_members (project_id, user_id, role)
+select p.id, m.user_id, 'member'
+from public.projects p, unnest(p.members) as m (user_id)
+where m.user_id <> p.user_id
+on conflict (project_id, user_id) do nothing;
+
+create or replace function public.project_role_rank(p_role text)
+returns integer
+language sql
+immutable
+as $$
+  select case p_role
+    when 'owner' then 4
+    when 'admin' then 3
+    when 'member' then 2
+    when 'viewer' then 1
+    else 0
+  end;
+$$;
+
+-- Whether the current user has at least the given role in a project
+create or replace function public.has_project_role(p_project_id uuid, p_role text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.project_members m
+    where m.project_id = p_project_id
+      and m.user_id = auth.uid()
+      and public.project_role_rank(m.role) >= public.project_role_rank(p_role)
+  );
+$$;
+
+create or replace function public.sync_project_member_ids()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  changed_project uuid := coalesce(new.project_id, old.project_id);
+begin
+  update public.projects
+  set members = array(
+    select m.user_id from public.project_members m
+    where m.project_id = changed_project
+    order by m.created_at
+  )
+  where id = changed_project;
+  return null;
+end;
+$$;
+
+drop trigger if exists project_members_sync_ids on public.project_members;
+create trigger project_members_sync_ids
+  after insert or update or delete on public.project_members
+  for each row execute function public.sync_project_member_ids();
+
+create or replace function public.add_project_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.project_members (project_id, user_id, role)
+  values (new.id, new.user_id, 'owner')
+  on conflict (project_id, user_id) do update set role = 'owner';
+  return new;
+end;
+$$;
+
+drop trigger if exists projects_add_owner on public.projects;
+create trigger projects_add_owner
+  after insert on public.projects
+  for each row execute function public.add_project_owner();
+
+-- Joining by code happens before the user can see the project
+create or replace function public.join_project(p_code text)
+returns public.projects
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  joined public.projects;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into joined from public.projects where code = p_code;
+  if not found then
+    raise exception 'Project not found with this code';
+  end if;
+
+  insert into public.project_members (project_id, user_id, role)
+  values (joined.id, auth.uid(), 'member')
+  on conflict (project_id, user_id) do nothing;
+
+  select * into joined from public.projects where id = joined.id;
+  return joined;
+end;
+$$;
+
+-- Replace the membership checks with role checks
+do $$
+declare
+  policy record;
+begin
+  for policy in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public' and tablename in ('projects', 'project_members', 'tasks', 'sprints')
+  loop
+    execute format('drop policy %I on public.%I', policy.policyname, policy.tablename);
+  end loop;
+end;
+$$;
+
+drop policy if exists "Project members can read task history" on public.task_history;
+drop policy if exists "Project members can read task events" on public.task_events;
+drop policy if exists "Project members can read comments" on public.task_comments;
+drop policy if exists "Project members can comment" on public.task_comments;
+drop policy if exists "Project members can read task links" on public.task_links;
+drop policy if exists "Project members can link tasks" on public.task_links;
+drop policy if exists "Project members can unlink tasks" on public.task_links;
+drop policy if exists "Project members can read epics" on public.epics;
+drop policy if exists "Project members can manage epics" on public.epics;
+drop policy if exists "Project members can read labels" on public.labels;
+drop policy if exists "Project members can manage labels" on public.labels;
+drop policy if exists "Project members can read task labels" on public.task_labels;
+drop policy if exists "Project members can label tasks" on public.task_labels;
+drop policy if exists "Project members can read the workflow" on public.workflow_statuses;
+drop policy if exists "Project members can change the workflow" on public.workflow_statuses;
+drop policy if exists "Project members can read WIP breaches" on public.wip_breaches;
+drop policy if exists "Project members can record WIP breaches" on public.wip_breaches;
+
+alter table public.projects enable row level security;
+alter table public.project_members enable row level security;
+alter table public.tasks enable row level security;
+alter table public.sprints enable row level security;
+
+-- The creator check lets an insert return the row before the owner trigger runs
+create policy "Viewers can read projects"
+  on public.projects for select
+  using (user_id = auth.uid() or public.has_project_role(id, 'viewer'));
+
+create policy "Users can create their own projects"
+  on public.projects for insert
+  with check (user_id = auth.uid());
+
+create policy "Admins can update projects"
+  on public.projects for update
+  using (public.has_project_role(id, 'admin'))
+  with check (public.has_project_role(id, 'admin'));
+
+create policy "Owners can delete projects"
+  on public.projects for delete
+  using (public.has_project_role(id, 'owner'));
+
+create policy "Viewers can read memberships"
+  on public.project_members for select
+  using (public.has_project_role(project_id, 'viewer'));
+
+-- Ownership only changes hands through the owner, never through this policy
+create policy "Admins can manage memberships"
+  on public.project_members for all
+  using (public.has_project_role(project_id, 'admin') and role <> 'owner')
+  with check (public.has_project_role(project_id, 'admin') and role <> 'owner');
+
+-- Tasks and sprints outside any project stay private to their creator
+create policy "Viewers can read tasks"
+  on public.tasks for select
+  using (
+    public.has_project_role(project_id, 'viewer')
+    or (project_id is null and user_id = auth.uid())
+  );
+
+create policy "Members can create tasks"
+  on public.tasks for insert
+  with check (
+    public.has_project_role(project_id, 'member')
+    or (project_id is null and user_id = auth.uid())
+  );
+
+create policy "Members can update tasks"
+  on public.tasks for update
+  using (
+    public.has_project_role(project_id, 'member')
+    or (project_id is null and user_id = auth.uid())
+  )
+  with check (
+    public.has_project_role(project_id, 'member')
+    or (project_id is null and user_id = auth.uid())
+  );
+
+create policy "Admins can delete tasks"
+  on public.tasks for delete
+  using (
+    public.has_project_role(project_id, 'admin')
+    or (project_id is null and user_id = auth.uid())
+  );
+
+create policy "Viewers can read sprints"
+  on public.sprints for select
+  using (
+    public.has_project_role(project_id, 'viewer')
+    or (project_id is null and user_id = auth.uid())
+  );
+
+create policy "Members can create sprints"
+  on public.sprints for insert
+  with check (
+    public.has_project_role(project_id, 'member')
+    or (project_id is null and user_id = auth.uid())
+  );
+
+create policy "Members can update sprints"
+  on public.sprints for update
+  using (
+    public.has_project_role(project_id, 'member')
+    or (project_id is null and user_id = auth.uid())
+  )
+  with check (
+    public.has_project_role(project_id, 'member')
+    or (project_id is null and user_id = auth.uid())
+  );
+
+create policy "Admins can delete sprints"
+  on public.sprints for delete
+  using (
+    public.has_project_role(project_id, 'admin')
+    or (project_id is null and user_id = auth.uid())
+  );
+
+create policy "Viewers can read task history"
+  on public.task_history for select
+  using (public.has_project_role(project_id, 'viewer'));
+
+create policy "Viewers can read task events"
+  on public.task_events for select
+  using (public.has_project_role(project_id, 'viewer'));
+
+create policy "Viewers can read comments"
+  on public.task_comments for select
+  using (public.has_project_role(project_id, 'viewer'));
+
+create policy "Members can comment"
+  on public.task_comments for insert
+  with check (author_id = auth.uid() and public.has_project_role(project_id, 'member'));
+
+create policy "Viewers can read task links"
+  on public.task_links for select
+  using (public.has_project_role(project_id, 'viewer'));
+
+create policy "Members can link tasks"
+  on public.task_links for insert
+  with check (public.has_project_role(project_id, 'member'));
+
+create policy "Members can unlink tasks"
+  on public.task_links for delete
+  using (public.has_project_role(project_id, 'member'));
+
+create policy "Viewers can read epics"
+  on public.epics for select
+  using (public.has_project_role(project_id, 'viewer'));
+
+create policy "Members can manage epics"
+  on public.epics for all
+  using (public.has_project_role(project_id, 'member'))
+  with check (public.has_project_role(project_id, 'member'));
+
+create policy "Viewers can read labels"
+  on public.labels for select
+  using (public.has_project_role(project_id, 'viewer'));
+
+create policy "Admins can manage labels"
+  on public.labels for all
+  using (public.has_project_role(project_id, 'admin'))
+  with check (public.has_project_role(project_id, 'admin'));
+
+create policy "Viewers can read task labels"
+  on public.task_labels for select
+  using (
+    exists (
+      select 1 from public.labels l
+      where l.id = task_labels.label_id
+        and public.has_project_role(l.project_id, 'viewer')
+    )
+  );
+
+create policy "Members can label tasks"
+  on public.task_labels for all
+  using (
+    exists (
+      select 1 from public.labels l
+      where l.id = task_labels.label_id
+        and public.has_project_role(l.project_id, 'member')
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.labels l
+      where l.id = task_labels.label_id
+        and public.has_project_role(l.project_id, 'member')
+    )
+  );
+
+create policy "Viewers can read the workflow"
+  on public.workflow_statuses for select
+  using (public.has_project_role(project_id, 'viewer'));
+
+create policy "Admins can change the workflow"
+  on public.workflow_statuses for all
+  using (public.has_project_role(project_id, 'admin'))
+  with check (public.has_project_role(project_id, 'admin'));
+
+create policy "Viewers can read WIP breaches"
+  on public.wip_breaches for select
+  using (public.has_project_role(project_id, 'viewer'));
+
+create policy "Members can record WIP breaches"
+  on public.wip_breaches for insert
+  with check (public.has_project_role(project_id, 'member'));
@@ -0,0 +1,71 @@
+-- Removes someone from a project and unassigns them from its open tasks.
+-- Done tasks keep their assignees so reports still show who did the work.
+create or replace function public.remove_project_member(p_project_id uuid, p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_project_role(p_project_id, 'admin') then
+    raise exception 'Only project owners and admins can remove members';
+  end if;
+
+  if exists (
+    select 1 from public.project_members
+    where project_id = p_project_id and user_id = p_user_id and role = 'owner'
+  ) then
+    raise exception 'The project owner cannot be removed';
+  end if;
+
+  update public.tasks t
+  set assignee_ids = array_remove(t.assignee_ids, p_user_id)
+  where t.project_id = p_project_id
+    and p_user_id = any (t.assignee_ids)
+    and t.status not in (
+      select s.key from public.workflow_statuses s
+      where s.project_id = p_project_id and s.is_done
+      -- Projects without a workflow use the default one
+      union all
+      select 'done' where not exists (
+        select 1 from public.workflow_statuses s where s.project_id = p_project_id
+      )
+    );
+
+  delete from public.project_members
+  where project_id = p_project_id and user_id = p_user_id;
+end;
+$$;
+
+-- Hands a project to another member. The previous owner stays on as an admin.
+create or replace function public.transfer_project_ownership(p_project_id uuid, p_new_owner_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_project_role(p_project_id, 'owner') then
+    raise exception 'Only the project owner can transfer ownership';
+  end if;
+
+  if not exists (
+    select 1 from public.project_members
+    where project_id = p_project_id and user_id = p_new_owner_id
+  ) then
+    raise exception 'The new owner must be a member of the project';
+  end if;
+
+  update public.project_members
+  set role = 'admin'
+  where project_id = p_project_id and role = 'owner';
+
+  update public.project_members
+  set role = 'owner'
+  where project_id = p_project_id and user_id = p_new_owner_id;
+
+  update public.projects
+  set user_id = p_new_owner_id
+  where id = p_project_id;
+end;
+$$;
@@ -0,0 +1,208 @@
+-- Invite codes replace the single, permanent projects.code. Each invite grants
+-- a role and can expire, run out of uses, be rotated or be revoked.
+create table if not exists public.project_invites (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  code text not null unique,
+  role text not null default 'member' check (role in ('admin', 'member', 'viewer')),
+  expires_at timestamptz,
+  max_uses integer check (max_uses > 0),
+  use_count integer not null default 0,
+  revoked_at timestamptz,
+  created_by uuid references public.profiles (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists project_invites_project_id_idx on public.project_invites (project_id, created_at);
+
+-- Who joined through which invite
+create table if not exists public.project_invite_uses (
+  id bigint generated always as identity primary key,
+  invite_id uuid not null references public.project_invites (id) on delete cascade,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  user_id uuid references public.profiles (id) on delete set null,
+  role text not null,
+  joined_at timestamptz not null default now()
+);
+
+create index if not exists project_invite_uses_project_id_idx on public.project_invite_uses (project_id, joined_at);
+
+-- Ten characters without look-alikes such as 0/O and 1/I, retried on collision
+create or replace function public.generate_invite_code()
+returns text
+language plpgsql
+volatile
+set search_path = public
+as $$
+declare
+  alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  bytes bytea;
+  candidate text;
+begin
+  loop
+    bytes := decode(replace(gen_random_uuid()::text, '-', ''), 'hex');
+    candidate := '';
+    for i in 0..9 loop
+      candidate := candidate || substr(alphabet, get_byte(bytes, i) % length(alphabet) + 1, 1);
+    end loop;
+    exit when not exists (select 1 from public.project_invites where code = candidate);
+  end loop;
+  return candidate;
+end;
+$$;
+
+-- Existing codes keep working until they are revoked
+insert into public.project_invites (project_id, code, role, created_by, created_at)
+select p.id, upper(p.code), 'member', p.user_id, p.created_at
+from public.projects p
+where p.code is not null
+on conflict (code) do nothing;
+
+alter table public.projects drop column if exists code;
+
+-- New projects start with an open member invite
+create or replace function public.add_project_invite()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.project_invites (project_id, code, role, created_by)
+  values (new.id, public.generate_invite_code(), 'member', new.user_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists projects_add_invite on public.projects;
+create trigger projects_add_invite
+  after insert on public.projects
+  for each row execute function public.add_project_invite();
+
+create or replace function public.create_project_invite(
+  p_project_id uuid,
+  p_role text,
+  p_expires_at timestamptz,
+  p_max_uses integer
+)
+returns public.project_invites
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  created public.project_invites;
+begin
+  if not public.has_project_role(p_project_id, 'admin') then
+    raise exception 'Only project owners and admins can create invites';
+  end if;
+
+  insert into public.project_invites (project_id, code, role, expires_at, max_uses, created_by)
+  values (p_project_id, public.generate_invite_code(), p_role, p_expires_at, p_max_uses, auth.uid())
+  returning * into created;
+  return created;
+end;
+$$;
+
+-- Swaps an invite's code for a new one, so a leaked code stops working
+-- while the invite keeps its settings and history
+create or replace function public.rotate_project_invite(p_invite_id uuid)
+returns public.project_invites
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  rotated public.project_invites;
+begin
+  select * into rotated from public.project_invites where id = p_invite_id;
+  if not found or not public.has_project_role(rotated.project_id, 'admin') then
+    raise exception 'Invite not found';
+  end if;
+
+  update public.project_invites
+  set code = public.generate_invite_code()
+  where id = p_invite_id
+  returning * into rotated;
+  return rotated;
+end;
+$$;
+
+-- Joining by code happens before the user can see the project
+create or replace function public.join_project(p_code text)
+returns public.projects
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.project_invites;
+  joined public.projects;
+  added integer;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- Locked so concurrent joins cannot go over max_uses
+  select * into invite
+  from public.project_invites
+  where code = upper(trim(p_code))
+  for update;
+
+  if not found then
+    raise exception 'Invite code is not valid';
+  end if;
+
+  select * into joined from public.projects where id = invite.project_id;
+
+  -- Members following the link again are let through without using it up
+  if exists (
+    select 1 from public.project_members
+    where project_id = invite.project_id and user_id = auth.uid()
+  ) then
+    return joined;
+  end if;
+
+  if invite.revoked_at is not null then
+    raise exception 'This invite has been revoked';
+  end if;
+  if invite.expires_at is not null and invite.expires_at <= now() then
+    raise exception 'This invite has expired';
+  end if;
+  if invite.max_uses is not null and invite.use_count >= invite.max_uses then
+    raise exception 'This invite has already been used the maximum number of times';
+  end if;
+
+  insert into public.project_members (project_id, user_id, role)
+  values (invite.project_id, auth.uid(), invite.role)
+  on conflict (project_id, user_id) do nothing;
+  get diagnostics added = row_count;
+
+  if added > 0 then
+    update public.project_invites set use_count = use_count + 1 where id = invite.id;
+    insert into public.project_invite_uses (invite_id, project_id, user_id, role)
+    values (invite.id, invite.project_id, auth.uid(), invite.role);
+  end if;
+
+  select * into joined from public.projects where id = invite.project_id;
+  return joined;
+end;
+$$;
+
+alter table public.project_invites enable row level security;
+alter table public.project_invite_uses enable row level security;
+
+-- Invites are created, rotated and redeemed through the functions above
+create policy "Admins can read invites"
+  on public.project_invites for select
+  using (public.has_project_role(project_id, 'admin'));
+
+create policy "Admins can revoke invites"
+  on public.project_invites for update
+  using (public.has_project_role(project_id, 'admin'))
+  with check (public.has_project_role(project_id, 'admin'));
+
+create policy "Admins can read invite uses"
+  on public.project_invite_uses for select
+  using (public.has_project_role(project_id, 'admin'));
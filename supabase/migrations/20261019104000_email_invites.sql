@@ -0,0 +1,192 @@
+-- Email invites: single-use invites sent to one address, redeemed through a
+-- /join/:token link rather than a code
+alter table public.project_invites
+  alter column code drop not null,
+  add column if not exists email text,
+  add column if not exists token text unique,
+  add constraint project_invites_code_or_token check (code is not null or token is not null);
+
+create or replace function public.create_email_invite(p_project_id uuid, p_email text, p_role text)
+returns public.project_invites
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  created public.project_invites;
+begin
+  if not public.has_project_role(p_project_id, 'admin') then
+    raise exception 'Only project owners and admins can create invites';
+  end if;
+
+  if p_email is null or p_email !~ '^[^@\s]+@[^@\s]+$' then
+    raise exception 'A valid email address is required';
+  end if;
+
+  -- A new invite to the same address replaces the pending one
+  update public.project_invites
+  set revoked_at = now()
+  where project_id = p_project_id
+    and lower(email) = lower(trim(p_email))
+    and revoked_at is null
+    and use_count = 0;
+
+  insert into public.project_invites (project_id, email, token, role, expires_at, max_uses, created_by)
+  values (
+    p_project_id,
+    lower(trim(p_email)),
+    replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    p_role,
+    now() + interval '7 days',
+    1,
+    auth.uid()
+  )
+  returning * into created;
+  return created;
+end;
+$$;
+
+-- What the join page shows before the visitor has signed in
+create or replace function public.get_invite_details(p_token text)
+returns table (project_name text, role text, email text, expires_at timestamptz, usable boolean)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    p.name,
+    i.role,
+    i.email,
+    i.expires_at,
+    i.revoked_at is null
+      and (i.expires_at is null or i.expires_at > now())
+      and (i.max_uses is null or i.use_count < i.max_uses)
+  from public.project_invites i
+  join public.projects p on p.id = i.project_id
+  where i.token = p_token;
+$$;
+
+-- Checks and redeems an invite for the current user. Shared by joining with a
+-- code and with a link, and not callable on its own.
+create or replace function public.redeem_project_invite(p_invite_id uuid)
+returns public.projects
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.project_invites;
+  joined public.projects;
+  added integer;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- Locked so concurrent joins cannot go over max_uses
+  select * into invite from public.project_invites where id = p_invite_id for update;
+  if not found then
+    raise exception 'Invite code is not valid';
+  end if;
+
+  select * into joined from public.projects where id = invite.project_id;
+
+  -- Members following the link again are let through without using it up
+  if exists (
+    select 1 from public.project_members
+    where project_id = invite.project_id and user_id = auth.uid()
+  ) then
+    return joined;
+  end if;
+
+  if invite.revoked_at is not null then
+    raise exception 'This invite has been revoked';
+  end if;
+  if invite.expires_at is not null and invite.expires_at <= now() then
+    raise exception 'This invite has expired';
+  end if;
+  if invite.max_uses is not null and invite.use_count >= invite.max_uses then
+    raise exception 'This invite has already been used the maximum number of times';
+  end if;
+  if invite.email is not null and lower(invite.email) <> lower(coalesce(auth.jwt() ->> 'email', '')) then
+    raise exception 'This invite was sent to %, sign in with that address to accept it', invite.email;
+  end if;
+
+  insert into public.project_members (project_id, user_id, role)
+  values (invite.project_id, auth.uid(), invite.role)
+  on conflict (project_id, user_id) do nothing;
+  get diagnostics added = row_count;
+
+  if added > 0 then
+    update public.project_invites set use_count = use_count + 1 where id = invite.id;
+    insert into public.project_invite_uses (invite_id, project_id, user_id, role)
+    values (invite.id, invite.project_id, auth.uid(), invite.role);
+  end if;
+
+  select * into joined from public.projects where id = invite.project_id;
+  return joined;
+end;
+$$;
+
+revoke execute on function public.redeem_project_invite(uuid) from public, anon, authenticated;
+
+create or replace function public.join_project(p_code text)
+returns public.projects
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite_id uuid;
+begin
+  select id into invite_id from public.project_invites where code = upper(trim(p_code));
+  if not found then
+    raise exception 'Invite code is not valid';
+  end if;
+  return public.redeem_project_invite(invite_id);
+end;
+$$;
+
+create or replace function public.join_project_by_token(p_token text)
+returns public.projects
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite_id uuid;
+begin
+  select id into invite_id from public.project_invites where token = p_token;
+  if not found then
+    raise exception 'This invite link is not valid';
+  end if;
+  return public.redeem_project_invite(invite_id);
+end;
+$$;
+
+-- Email invites are tied to their link, giving them a code would open them up
+create or replace function public.rotate_project_invite(p_invite_id uuid)
+returns public.project_invites
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  rotated public.project_invites;
+begin
+  select * into rotated from public.project_invites where id = p_invite_id;
+  if not found or not public.has_project_role(rotated.project_id, 'admin') then
+    raise exception 'Invite not found';
+  end if;
+  if rotated.code is null then
+    raise exception 'Only invite codes can be regenerated';
+  end if;
+
+  update public.project_invites
+  set code = public.generate_invite_code()
+  where id = p_invite_id
+  returning * into rotated;
+  return rotated;
+end;
+$$;
@@ -0,0 +1,56 @@
+-- Team capacity per sprint. Every member is fully available unless a row says
+-- otherwise; capacity in hours and points is derived from the sprint's working
+-- days, the member's days off and focus factor, and the sprint's rates.
+alter table public.sprints
+  add column if not exists hours_per_day numeric not null default 8
+    check (hours_per_day > 0 and hours_per_day <= 24),
+  add column if not exists points_per_day numeric not null default 1
+    check (points_per_day >= 0);
+
+create table if not exists public.sprint_capacity (
+  id uuid primary key default gen_random_uuid(),
+  sprint_id uuid not null references public.sprints (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  days_off numeric not null default 0 check (days_off >= 0),
+  focus_factor numeric not null default 0.8 check (focus_factor >= 0 and focus_factor <= 1),
+  updated_at timestamptz not null default now(),
+  constraint sprint_capacity_sprint_user_unique unique (sprint_id, user_id)
+);
+
+alter table public.sprint_capacity enable row level security;
+
+create policy "Viewers can read sprint capacity"
+  on public.sprint_capacity for select
+  using (
+    exists (
+      select 1 from public.sprints s
+      where s.id = sprint_capacity.sprint_id
+        and (
+          public.has_project_role(s.project_id, 'viewer')
+          or (s.project_id is null and s.user_id = auth.uid())
+        )
+    )
+  );
+
+create policy "Members can plan sprint capacity"
+  on public.sprint_capacity for all
+  using (
+    exists (
+      select 1 from public.sprints s
+      where s.id = sprint_capacity.sprint_id
+        and (
+          public.has_project_role(s.project_id, 'member')
+          or (s.project_id is null and s.user_id = auth.uid())
+        )
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.sprints s
+      where s.id = sprint_capacity.sprint_id
+        and (
+          public.has_project_role(s.project_id, 'member')
+          or (s.project_id is null and s.user_id = auth.uid())
+        )
+    )
+  );
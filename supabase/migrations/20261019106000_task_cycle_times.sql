@@ -0,0 +1,102 @@
+-- When work on a task started and when it was finished, for cycle and lead time.
+-- Lead time runs from created_at to completed_at, cycle time from started_at.
+alter table public.tasks
+  add column if not exists started_at timestamptz,
+  add column if not exists completed_at timestamptz;
+
+create index if not exists tasks_project_completed_idx on public.tasks (project_id, completed_at);
+
+-- Where a status sits in a project's workflow: 'todo' for the first status,
+-- 'done' for statuses that count as done and 'started' for everything between.
+-- Tasks outside a project use the old fixed statuses.
+create or replace function public.task_status_phase(p_project_id uuid, p_status text)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when p_project_id is null or not exists (
+      select 1 from public.workflow_statuses w where w.project_id = p_project_id
+    ) then
+      case p_status when 'done' then 'done' when 'todo' then 'todo' else 'started' end
+    when exists (
+      select 1 from public.workflow_statuses w
+      where w.project_id = p_project_id and w.key = p_status and w.is_done
+    ) then 'done'
+    when p_status = (
+      select w.key from public.workflow_statuses w
+      where w.project_id = p_project_id
+      order by w.rank
+      limit 1
+    ) then 'todo'
+    else 'started'
+  end;
+$$;
+
+-- Stamps the first move out of the first status and the last move into done.
+-- Values given on insert are kept, so imported tasks keep their own history.
+create or replace function public.stamp_task_transitions()
+returns trigger
+language plpgsql
+as $$
+declare
+  phase text;
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  phase := public.task_status_phase(new.project_id, new.status);
+
+  if phase <> 'todo' and new.started_at is null then
+    new.started_at := now();
+  end if;
+
+  if phase = 'done' then
+    if new.completed_at is null
+      or (tg_op = 'UPDATE' and public.task_status_phase(old.project_id, old.status) <> 'done') then
+      new.completed_at := now();
+    end if;
+  elsif tg_op = 'UPDATE' then
+    -- Reopened tasks are finished again later
+    new.completed_at := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_stamp_transitions on public.tasks;
+create trigger tasks_stamp_transitions
+  before insert or update on public.tasks
+  for each row execute function public.stamp_task_transitions();
+
+-- Backfill from the recorded history
+update public.tasks t
+set started_at = h.first_started
+from (
+  select h.task_id, min(h.recorded_at) as first_started
+  from public.task_history h
+  join public.tasks t2 on t2.id = h.task_id
+  where public.task_status_phase(t2.project_id, h.status) <> 'todo'
+  group by h.task_id
+) h
+where h.task_id = t.id and t.started_at is null;
+
+update public.tasks t
+set completed_at = (
+  select min(h.recorded_at)
+  from public.task_history h
+  where h.task_id = t.id
+    and public.task_status_phase(t.project_id, h.status) = 'done'
+    and h.recorded_at > coalesce((
+      select max(h2.recorded_at)
+      from public.task_history h2
+      where h2.task_id = t.id
+        and public.task_status_phase(t.project_id, h2.status) <> 'done'
+    ), '-infinity'::timestamptz)
+)
+where t.completed_at is null
+  and public.task_status_phase(t.project_id, t.status) = 'done';
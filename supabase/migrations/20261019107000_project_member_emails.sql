@@ -0,0 +1,21 @@
+-- Email addresses of a project's members, so imports can match assignees by
+-- email. Profiles do not hold emails, so they are read from auth.users.
+create or replace function public.get_project_member_emails(p_project_id uuid)
+returns table (user_id uuid, email text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_project_role(p_project_id, 'member') then
+    raise exception 'Only project members can look up member emails';
+  end if;
+
+  return query
+    select m.user_id, u.email::text
+    from public.project_members m
+    join auth.users u on u.id = m.user_id
+    where m.project_id = p_project_id;
+end;
+$$;
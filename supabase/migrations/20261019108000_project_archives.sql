@@ -0,0 +1,239 @@
+-- Project archives: a JSON document holding a project and everything in it,
+-- as rows of the tables below. The app wraps the document with a format name
+-- and schema version, and gives every row a new ID before restoring it.
+
+-- Everything in a project, for backups. Member emails are included so the
+-- archive can be restored on another instance, hence admins only.
+create or replace function public.export_project_archive(p_project_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_project_role(p_project_id, 'admin') then
+    raise exception 'Only project owners and admins can export a project';
+  end if;
+
+  return jsonb_build_object(
+    'project', (
+      select jsonb_build_object(
+        'id', p.id,
+        'name', p.name,
+        'description', p.description,
+        'wip_limit_mode', p.wip_limit_mode,
+        'created_at', p.created_at
+      )
+      from public.projects p
+      where p.id = p_project_id
+    ),
+    'members', coalesce((
+      select jsonb_agg(jsonb_build_object('user_id', m.user_id, 'email', u.email, 'role', m.role) order by m.created_at)
+      from public.project_members m
+      left join auth.users u on u.id = m.user_id
+      where m.project_id = p_project_id
+    ), '[]'),
+    'workflow_statuses', coalesce((
+      select jsonb_agg(to_jsonb(s) order by s.rank)
+      from public.workflow_statuses s
+      where s.project_id = p_project_id
+    ), '[]'),
+    'sprints', coalesce((
+      select jsonb_agg(to_jsonb(s) order by s.start_date)
+      from public.sprints s
+      where s.project_id = p_project_id
+    ), '[]'),
+    'epics', coalesce((
+      select jsonb_agg(to_jsonb(e) order by e.created_at)
+      from public.epics e
+      where e.project_id = p_project_id
+    ), '[]'),
+    'labels', coalesce((
+      select jsonb_agg(to_jsonb(l) order by l.name)
+      from public.labels l
+      where l.project_id = p_project_id
+    ), '[]'),
+    'tasks', coalesce((
+      select jsonb_agg(to_jsonb(t) order by t.rank)
+      from public.tasks t
+      where t.project_id = p_project_id
+    ), '[]'),
+    'task_labels', coalesce((
+      select jsonb_agg(to_jsonb(tl))
+      from public.task_labels tl
+      join public.labels l on l.id = tl.label_id
+      where l.project_id = p_project_id
+    ), '[]'),
+    'task_links', coalesce((
+      select jsonb_agg(to_jsonb(k) order by k.created_at)
+      from public.task_links k
+      where k.project_id = p_project_id
+    ), '[]'),
+    'task_comments', coalesce((
+      select jsonb_agg(to_jsonb(c) order by c.created_at)
+      from public.task_comments c
+      where c.project_id = p_project_id
+    ), '[]'),
+    'task_history', coalesce((
+      select jsonb_agg(to_jsonb(h) - 'id' order by h.recorded_at)
+      from public.task_history h
+      where h.project_id = p_project_id
+    ), '[]'),
+    'task_events', coalesce((
+      select jsonb_agg(to_jsonb(e) - 'id' order by e.created_at)
+      from public.task_events e
+      where e.project_id = p_project_id
+    ), '[]'),
+    'sprint_capacity', coalesce((
+      select jsonb_agg(to_jsonb(c))
+      from public.sprint_capacity c
+      join public.sprints s on s.id = c.sprint_id
+      where s.project_id = p_project_id
+    ), '[]')
+  );
+end;
+$$;
+
+-- Restores an archive as a new project owned by the current user, in one
+-- transaction. Members are matched by user ID, then by email; work of people
+-- who are not found is kept but credited to the restoring user, and they are
+-- left out of assignees, mentions and capacity.
+-- Returns the new project's ID and the members that were not found.
+create or replace function public.restore_project_archive(p_archive jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  restorer uuid := auth.uid();
+  restored uuid := (p_archive #>> '{project,id}')::uuid;
+  user_map jsonb := '{}';
+  unmatched jsonb := '[]';
+  member record;
+  matched uuid;
+begin
+  if restorer is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  insert into public.projects (id, name, description, user_id, wip_limit_mode)
+  values (
+    restored,
+    p_archive #>> '{project,name}',
+    p_archive #>> '{project,description}',
+    restorer,
+    coalesce(p_archive #>> '{project,wip_limit_mode}', 'soft')
+  );
+
+  for member in
+    select * from jsonb_to_recordset(coalesce(p_archive -> 'members', '[]')) as m (user_id uuid, email text, role text)
+  loop
+    select u.id into matched
+    from auth.users u
+    join public.profiles p on p.id = u.id
+    where u.id = member.user_id or lower(u.email) = lower(member.email)
+    order by u.id = member.user_id desc
+    limit 1;
+
+    if matched is null then
+      unmatched := unmatched || jsonb_build_object('user_id', member.user_id, 'email', member.email);
+      continue;
+    end if;
+
+    user_map := user_map || jsonb_build_object(member.user_id::text, matched);
+
+    -- The restoring user already owns the project; the old owner joins as an admin
+    if matched <> restorer then
+      insert into public.project_members (project_id, user_id, role)
+      values (restored, matched, case when member.role = 'owner' then 'admin' else coalesce(member.role, 'member') end)
+      on conflict (project_id, user_id) do nothing;
+    end if;
+  end loop;
+
+  -- The archived workflow replaces the default one seeded for the project
+  if jsonb_array_length(coalesce(p_archive -> 'workflow_statuses', '[]')) > 0 then
+    delete from public.workflow_statuses where project_id = restored;
+
+    insert into public.workflow_statuses (id, project_id, key, name, color, is_done, rank, wip_limit, created_at)
+    select s.id, restored, s.key, s.name, s.color, s.is_done, s.rank, s.wip_limit, coalesce(s.created_at, now())
+    from jsonb_populate_recordset(null::public.workflow_statuses, p_archive -> 'workflow_statuses') s;
+  end if;
+
+  insert into public.epics (id, project_id, name, description, color, user_id, created_at)
+  select e.id, restored, e.name, e.description, e.color, (user_map ->> e.user_id::text)::uuid, coalesce(e.created_at, now())
+  from jsonb_populate_recordset(null::public.epics, coalesce(p_archive -> 'epics', '[]')) e;
+
+  insert into public.labels (id, project_id, name, color, created_at)
+  select l.id, restored, l.name, l.color, coalesce(l.created_at, now())
+  from jsonb_populate_recordset(null::public.labels, coalesce(p_archive -> 'labels', '[]')) l;
+
+  insert into public.sprints (
+    id, project_id, user_id, name, start_date, end_date, status, started_at, completed_at,
+    committed_points, completed_points, hours_per_day, points_per_day, created_at
+  )
+  select
+    s.id, restored, coalesce((user_map ->> s.user_id::text)::uuid, restorer), s.name, s.start_date, s.end_date,
+    coalesce(s.status, 'planned'), s.started_at, s.completed_at, s.committed_points, s.completed_points,
+    coalesce(s.hours_per_day, 8), coalesce(s.points_per_day, 1), coalesce(s.created_at, now())
+  from jsonb_populate_recordset(null::public.sprints, coalesce(p_archive -> 'sprints', '[]')) s;
+
+  insert into public.tasks (
+    id, project_id, user_id, title, description, status, priority, type, estimate, assignee_ids,
+    sprint_id, rank, parent_id, epic_id, checklist, created_at, started_at, completed_at
+  )
+  select
+    t.id, restored, coalesce((user_map ->> t.user_id::text)::uuid, restorer), t.title, t.description, t.status,
+    t.priority, coalesce(t.type, 'task'), t.estimate,
+    array(select (user_map ->> a::text)::uuid from unnest(coalesce(t.assignee_ids, '{}')) a where user_map ? a::text),
+    t.sprint_id, t.rank, t.parent_id, t.epic_id, coalesce(t.checklist, '[]'), coalesce(t.created_at, now()),
+    t.started_at, t.completed_at
+  from jsonb_populate_recordset(null::public.tasks, coalesce(p_archive -> 'tasks', '[]')) t;
+
+  -- The triggers on tasks have logged the inserts as new work; the archive's
+  -- own history and activity take their place
+  delete from public.task_history where project_id = restored;
+  delete from public.task_events where project_id = restored;
+
+  insert into public.task_history (task_id, project_id, sprint_id, status, estimate, deleted, recorded_at)
+  select h.task_id, restored, h.sprint_id, h.status, h.estimate, coalesce(h.deleted, false), coalesce(h.recorded_at, now())
+  from jsonb_populate_recordset(null::public.task_history, coalesce(p_archive -> 'task_history', '[]')) h;
+
+  insert into public.task_events (task_id, project_id, type, changes, actor_id, created_at)
+  select e.task_id, restored, e.type, coalesce(e.changes, '{}'), (user_map ->> e.actor_id::text)::uuid, coalesce(e.created_at, now())
+  from jsonb_populate_recordset(null::public.task_events, coalesce(p_archive -> 'task_events', '[]')) e;
+
+  -- Links and labels only join rows of the restored project
+  insert into public.task_labels (task_id, label_id)
+  select tl.task_id, tl.label_id
+  from jsonb_populate_recordset(null::public.task_labels, coalesce(p_archive -> 'task_labels', '[]')) tl
+  join public.tasks t on t.id = tl.task_id and t.project_id = restored
+  join public.labels l on l.id = tl.label_id and l.project_id = restored;
+
+  insert into public.task_links (id, project_id, source_id, target_id, type, created_at)
+  select k.id, restored, k.source_id, k.target_id, k.type, coalesce(k.created_at, now())
+  from jsonb_populate_recordset(null::public.task_links, coalesce(p_archive -> 'task_links', '[]')) k
+  join public.tasks s on s.id = k.source_id and s.project_id = restored
+  join public.tasks t on t.id = k.target_id and t.project_id = restored;
+
+  insert into public.task_comments (id, task_id, project_id, parent_id, author_id, body, mentions, created_at, updated_at)
+  select
+    c.id, c.task_id, restored, c.parent_id, coalesce((user_map ->> c.author_id::text)::uuid, restorer), c.body,
+    array(select (user_map ->> m::text)::uuid from unnest(coalesce(c.mentions, '{}')) m where user_map ? m::text),
+    coalesce(c.created_at, now()), coalesce(c.updated_at, c.created_at, now())
+  from jsonb_populate_recordset(null::public.task_comments, coalesce(p_archive -> 'task_comments', '[]')) c
+  join public.tasks t on t.id = c.task_id and t.project_id = restored;
+
+  -- Old mentions are not news
+  delete from public.notifications where project_id = restored;
+
+  insert into public.sprint_capacity (sprint_id, user_id, days_off, focus_factor)
+  select c.sprint_id, (user_map ->> c.user_id::text)::uuid, c.days_off, c.focus_factor
+  from jsonb_populate_recordset(null::public.sprint_capacity, coalesce(p_archive -> 'sprint_capacity', '[]')) c
+  join public.sprints s on s.id = c.sprint_id and s.project_id = restored
+  where user_map ? c.user_id::text;
+
+  return jsonb_build_object('project_id', restored, 'unmatched_members', unmatched);
+end;
+$$;
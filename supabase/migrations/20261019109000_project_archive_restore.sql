@@ -0,0 +1,201 @@
+-- Restoring trusts nothing in the archive that names users or rows outside it:
+-- every row gets a new ID here, references only resolve to rows of the
+-- restored project, the work of other people is credited to the restoring
+-- user, and archived members are invited back rather than added.
+
+-- Maps the IDs of a list of archived rows to new ones
+create or replace function public.archive_id_map(p_rows jsonb, p_key text default 'id')
+returns jsonb
+language sql
+volatile
+set search_path = public
+as $$
+  select coalesce(jsonb_object_agg(ids.id, gen_random_uuid()), '{}')
+  from (
+    select distinct r ->> p_key as id
+    from jsonb_array_elements(coalesce(p_rows, '[]')) r
+    where r ->> p_key is not null
+  ) ids;
+$$;
+
+revoke execute on function public.archive_id_map(jsonb, text) from public, anon, authenticated;
+
+drop function if exists public.restore_project_archive(jsonb);
+
+-- Restores an archive as a new project owned by the current user, in one
+-- transaction. Archived members with an email address get a pending email
+-- invite with their old role; those without one are returned so they can be
+-- invited by hand.
+-- Returns the new project's ID, the invites created and the members without an email.
+create or replace function public.restore_project_archive(p_archive jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  restorer uuid := auth.uid();
+  restored uuid := gen_random_uuid();
+  sprint_map jsonb := public.archive_id_map(p_archive -> 'sprints');
+  epic_map jsonb := public.archive_id_map(p_archive -> 'epics');
+  label_map jsonb := public.archive_id_map(p_archive -> 'labels');
+  task_map jsonb := public.archive_id_map(p_archive -> 'tasks');
+  comment_map jsonb := public.archive_id_map(p_archive -> 'task_comments');
+  -- History and activity also cover deleted tasks and sprints
+  history_task_map jsonb := public.archive_id_map(
+    coalesce(p_archive -> 'task_history', '[]') || coalesce(p_archive -> 'task_events', '[]'),
+    'task_id'
+  );
+  history_sprint_map jsonb := public.archive_id_map(p_archive -> 'task_history', 'sprint_id');
+  -- The archive's entries for the restoring user, who may have had another ID where it was exported
+  own_ids text[];
+  invites jsonb := '[]';
+  uninvited jsonb := '[]';
+  member record;
+  invite public.project_invites;
+begin
+  if restorer is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  insert into public.projects (id, name, description, user_id, wip_limit_mode)
+  values (
+    restored,
+    p_archive #>> '{project,name}',
+    p_archive #>> '{project,description}',
+    restorer,
+    coalesce(p_archive #>> '{project,wip_limit_mode}', 'soft')
+  );
+
+  select coalesce(array_agg(m.user_id::text), '{}') into own_ids
+  from jsonb_to_recordset(coalesce(p_archive -> 'members', '[]')) as m (user_id uuid, email text)
+  where m.user_id = restorer or lower(m.email) = lower(auth.jwt() ->> 'email');
+
+  for member in
+    select distinct on (coalesce(lower(trim(m.email)), m.user_id::text)) m.user_id, lower(trim(m.email)) as email, m.role
+    from jsonb_to_recordset(coalesce(p_archive -> 'members', '[]')) as m (user_id uuid, email text, role text)
+    where m.user_id is distinct from restorer
+      and lower(coalesce(m.email, '')) <> lower(coalesce(auth.jwt() ->> 'email', ''))
+  loop
+    if member.email is null or member.email = '' then
+      uninvited := uninvited || jsonb_build_object('user_id', member.user_id);
+      continue;
+    end if;
+
+    -- The old owner is invited as an admin, the restoring user owns the project
+    invite := public.create_email_invite(
+      restored,
+      member.email,
+      case when member.role in ('admin', 'member', 'viewer') then member.role
+           when member.role = 'owner' then 'admin'
+           else 'member' end
+    );
+    invites := invites || jsonb_build_object('id', invite.id, 'email', invite.email);
+  end loop;
+
+  -- The archived workflow replaces the default one seeded for the project
+  if jsonb_array_length(coalesce(p_archive -> 'workflow_statuses', '[]')) > 0 then
+    delete from public.workflow_statuses where project_id = restored;
+
+    insert into public.workflow_statuses (project_id, key, name, color, is_done, rank, wip_limit, created_at)
+    select restored, s.key, s.name, s.color, s.is_done, s.rank, s.wip_limit, coalesce(s.created_at, now())
+    from jsonb_populate_recordset(null::public.workflow_statuses, p_archive -> 'workflow_statuses') s;
+  end if;
+
+  insert into public.epics (id, project_id, name, description, color, user_id, created_at)
+  select (epic_map ->> e.id::text)::uuid, restored, e.name, e.description, e.color, restorer, coalesce(e.created_at, now())
+  from jsonb_populate_recordset(null::public.epics, coalesce(p_archive -> 'epics', '[]')) e
+  where epic_map ? e.id::text;
+
+  insert into public.labels (id, project_id, name, color, created_at)
+  select (label_map ->> l.id::text)::uuid, restored, l.name, l.color, coalesce(l.created_at, now())
+  from jsonb_populate_recordset(null::public.labels, coalesce(p_archive -> 'labels', '[]')) l
+  where label_map ? l.id::text;
+
+  insert into public.sprints (
+    id, project_id, user_id, name, start_date, end_date, status, started_at, completed_at,
+    committed_points, completed_points, hours_per_day, points_per_day, created_at
+  )
+  select
+    (sprint_map ->> s.id::text)::uuid, restored, restorer, s.name, s.start_date, s.end_date,
+    coalesce(s.status, 'planned'), s.started_at, s.completed_at, s.committed_points, s.completed_points,
+    coalesce(s.hours_per_day, 8), coalesce(s.points_per_day, 1), coalesce(s.created_at, now())
+  from jsonb_populate_recordset(null::public.sprints, coalesce(p_archive -> 'sprints', '[]')) s
+  where sprint_map ? s.id::text;
+
+  -- References to rows missing from the archive resolve to null
+  insert into public.tasks (
+    id, project_id, user_id, title, description, status, priority, type, estimate, assignee_ids,
+    sprint_id, rank, parent_id, epic_id, checklist, created_at, started_at, completed_at
+  )
+  select
+    (task_map ->> t.id::text)::uuid, restored, restorer, t.title, t.description, t.status,
+    t.priority, coalesce(t.type, 'task'), t.estimate,
+    case when coalesce(t.assignee_ids, '{}')::text[] && own_ids then array[restorer] else '{}' end,
+    (sprint_map ->> t.sprint_id::text)::uuid, t.rank, (task_map ->> t.parent_id::text)::uuid,
+    (epic_map ->> t.epic_id::text)::uuid, coalesce(t.checklist, '[]'), coalesce(t.created_at, now()),
+    t.started_at, t.completed_at
+  from jsonb_populate_recordset(null::public.tasks, coalesce(p_archive -> 'tasks', '[]')) t
+  where task_map ? t.id::text;
+
+  -- The triggers on tasks have logged the inserts as new work; the archive's
+  -- own history and activity take their place
+  delete from public.task_history where project_id = restored;
+  delete from public.task_events where project_id = restored;
+
+  insert into public.task_history (task_id, project_id, sprint_id, status, estimate, deleted, recorded_at)
+  select
+    coalesce(task_map ->> h.task_id::text, history_task_map ->> h.task_id::text)::uuid, restored,
+    coalesce(sprint_map ->> h.sprint_id::text, history_sprint_map ->> h.sprint_id::text)::uuid,
+    h.status, h.estimate, coalesce(h.deleted, false), coalesce(h.recorded_at, now())
+  from jsonb_populate_recordset(null::public.task_history, coalesce(p_archive -> 'task_history', '[]')) h
+  where h.task_id is not null;
+
+  -- Activity is credited to the restoring user, whatever the archive says
+  insert into public.task_events (task_id, project_id, type, changes, actor_id, created_at)
+  select
+    coalesce(task_map ->> e.task_id::text, history_task_map ->> e.task_id::text)::uuid, restored,
+    e.type, coalesce(e.changes, '{}'), restorer, coalesce(e.created_at, now())
+  from jsonb_populate_recordset(null::public.task_events, coalesce(p_archive -> 'task_events', '[]')) e
+  where e.task_id is not null;
+
+  -- Links and labels only join rows of the restored project
+  insert into public.task_labels (task_id, label_id)
+  select distinct t.id, l.id
+  from jsonb_populate_recordset(null::public.task_labels, coalesce(p_archive -> 'task_labels', '[]')) tl
+  join public.tasks t on t.id = (task_map ->> tl.task_id::text)::uuid and t.project_id = restored
+  join public.labels l on l.id = (label_map ->> tl.label_id::text)::uuid and l.project_id = restored;
+
+  insert into public.task_links (project_id, source_id, target_id, type, created_at)
+  select distinct on (s.id, t.id, k.type) restored, s.id, t.id, k.type, coalesce(k.created_at, now())
+  from jsonb_populate_recordset(null::public.task_links, coalesce(p_archive -> 'task_links', '[]')) k
+  join public.tasks s on s.id = (task_map ->> k.source_id::text)::uuid and s.project_id = restored
+  join public.tasks t on t.id = (task_map ->> k.target_id::text)::uuid and t.project_id = restored;
+
+  -- Comments are credited to the restoring user and mention no one, so
+  -- restoring notifies nobody
+  insert into public.task_comments (id, task_id, project_id, author_id, body, mentions, created_at, updated_at)
+  select
+    (comment_map ->> c.id::text)::uuid, t.id, restored, restorer, c.body,
+    '{}', coalesce(c.created_at, now()), coalesce(c.updated_at, c.created_at, now())
+  from jsonb_populate_recordset(null::public.task_comments, coalesce(p_archive -> 'task_comments', '[]')) c
+  join public.tasks t on t.id = (task_map ->> c.task_id::text)::uuid and t.project_id = restored
+  where comment_map ? c.id::text;
+
+  -- Replies are threaded once all comments exist, as their parent may have been left out
+  update public.task_comments reply
+  set parent_id = parent.id
+  from jsonb_populate_recordset(null::public.task_comments, coalesce(p_archive -> 'task_comments', '[]')) c
+  join public.task_comments parent on parent.id = (comment_map ->> c.parent_id::text)::uuid and parent.project_id = restored
+  where reply.id = (comment_map ->> c.id::text)::uuid
+    and reply.project_id = restored;
+
+  insert into public.sprint_capacity (sprint_id, user_id, days_off, focus_factor)
+  select distinct on (s.id) s.id, restorer, c.days_off, c.focus_factor
+  from jsonb_populate_recordset(null::public.sprint_capacity, coalesce(p_archive -> 'sprint_capacity', '[]')) c
+  join public.sprints s on s.id = (sprint_map ->> c.sprint_id::text)::uuid and s.project_id = restored
+  where c.user_id::text = any (own_ids);
+
+  return jsonb_build_object('project_id', restored, 'invites', invites, 'uninvited_members', uninvited);
+end;
+$$;
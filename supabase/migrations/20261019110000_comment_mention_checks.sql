@@ -0,0 +1,47 @@
+-- Mentions only notify members of the comment's project, and comments can
+-- only be placed on tasks of the project they name
+
+create or replace function public.notify_comment_mentions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.notifications (user_id, actor_id, project_id, task_id, comment_id, type)
+  select mentioned, new.author_id, new.project_id, new.task_id, new.id, 'mention'
+  from unnest(new.mentions) as mentioned
+  where mentioned <> new.author_id
+    and (tg_op = 'INSERT' or not mentioned = any (old.mentions))
+    and exists (
+      select 1 from public.project_members m
+      where m.project_id = new.project_id and m.user_id = mentioned
+    );
+  return new;
+end;
+$$;
+
+drop policy if exists "Members can comment" on public.task_comments;
+drop policy if exists "Authors can edit their comments" on public.task_comments;
+
+create policy "Members can comment"
+  on public.task_comments for insert
+  with check (
+    author_id = auth.uid()
+    and public.has_project_role(project_id, 'member')
+    and exists (
+      select 1 from public.tasks t
+      where t.id = task_comments.task_id and t.project_id = task_comments.project_id
+    )
+  );
+
+create policy "Authors can edit their comments"
+  on public.task_comments for update
+  using (author_id = auth.uid())
+  with check (
+    author_id = auth.uid()
+    and exists (
+      select 1 from public.tasks t
+      where t.id = task_comments.task_id and t.project_id = task_comments.project_id
+    )
+  );
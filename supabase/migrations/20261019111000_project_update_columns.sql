@@ -0,0 +1,5 @@
+-- Admins change a project's name, description and settings. The owner and
+-- the member list only change through transfer_project_ownership and the
+-- project_members table, whose functions run as the table owner.
+revoke update on public.projects from anon, authenticated;
+grant update (name, description, wip_limit_mode) on public.projects to authenticated;
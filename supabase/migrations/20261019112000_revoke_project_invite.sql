@@ -0,0 +1,25 @@
+-- Revoking is the only change admins make to an invite themselves, so it goes
+-- through a function rather than an update policy that opens every column
+drop policy if exists "Admins can revoke invites" on public.project_invites;
+
+create or replace function public.revoke_project_invite(p_invite_id uuid)
+returns public.project_invites
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  revoked public.project_invites;
+begin
+  select * into revoked from public.project_invites where id = p_invite_id;
+  if not found or not public.has_project_role(revoked.project_id, 'admin') then
+    raise exception 'Invite not found';
+  end if;
+
+  update public.project_invites
+  set revoked_at = coalesce(revoked_at, now())
+  where id = p_invite_id
+  returning * into revoked;
+  return revoked;
+end;
+$$;
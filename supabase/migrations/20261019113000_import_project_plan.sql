@@ -0,0 +1,68 @@
+-- Jira and Trello imports are written in one transaction, so a failed import
+-- leaves nothing behind and can simply be run again. The function runs as the
+-- importing user: row level security decides what they may create, and every
+-- row is placed in the given project whatever the plan says.
+create or replace function public.import_project_plan(p_project_id uuid, p_plan jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  created_labels integer;
+  created_epics integer;
+  created_sprints integer;
+  created_tasks integer;
+begin
+  -- Labels are matched by name, so importing twice does not duplicate them
+  insert into public.labels (project_id, name, color)
+  select distinct on (lower(l.name)) p_project_id, l.name, coalesce(l.color, '#64748b')
+  from jsonb_to_recordset(coalesce(p_plan -> 'labels', '[]')) as l (name text, color text)
+  where not exists (
+    select 1 from public.labels existing
+    where existing.project_id = p_project_id and lower(existing.name) = lower(l.name)
+  );
+  get diagnostics created_labels = row_count;
+
+  insert into public.epics (id, project_id, name, description, color)
+  select e.id, p_project_id, e.name, e.description, e.color
+  from jsonb_populate_recordset(null::public.epics, coalesce(p_plan -> 'epics', '[]')) e;
+  get diagnostics created_epics = row_count;
+
+  insert into public.sprints (
+    id, project_id, user_id, name, start_date, end_date, status, started_at, completed_at,
+    committed_points, completed_points
+  )
+  select
+    s.id, p_project_id, auth.uid(), s.name, s.start_date, s.end_date, coalesce(s.status, 'planned'),
+    s.started_at, s.completed_at, s.committed_points, s.completed_points
+  from jsonb_populate_recordset(null::public.sprints, coalesce(p_plan -> 'sprints', '[]')) s;
+  get diagnostics created_sprints = row_count;
+
+  -- Parents and subtasks go in together; imported tasks keep their own dates
+  insert into public.tasks (
+    id, project_id, user_id, title, description, status, priority, type, estimate, assignee_ids,
+    sprint_id, rank, parent_id, epic_id, checklist, created_at, started_at, completed_at
+  )
+  select
+    t.id, p_project_id, auth.uid(), t.title, t.description, t.status, t.priority, coalesce(t.type, 'task'),
+    t.estimate, coalesce(t.assignee_ids, '{}'), t.sprint_id, t.rank, t.parent_id, t.epic_id,
+    coalesce(t.checklist, '[]'), coalesce(t.created_at, now()), t.started_at, t.completed_at
+  from jsonb_populate_recordset(null::public.tasks, coalesce(p_plan -> 'tasks', '[]')) t;
+  get diagnostics created_tasks = row_count;
+
+  -- Imported tasks only get labels of their own project
+  insert into public.task_labels (task_id, label_id)
+  select distinct t.id, l.id
+  from jsonb_to_recordset(coalesce(p_plan -> 'task_labels', '[]')) as tl (task_id uuid, label text)
+  join public.tasks t on t.id = tl.task_id and t.project_id = p_project_id
+  join public.labels l on l.project_id = p_project_id and lower(l.name) = lower(tl.label);
+
+  return jsonb_build_object(
+    'labels', created_labels,
+    'epics', created_epics,
+    'sprints', created_sprints,
+    'tasks', created_tasks
+  );
+end;
+$$;
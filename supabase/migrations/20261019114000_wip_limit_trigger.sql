@@ -0,0 +1,48 @@
+-- Hard WIP limits hold for every status change, not only moves on the board.
+-- Runs as the caller, so moves made inside the database's own functions, such
+-- as removing a status, are not limited.
+create or replace function public.enforce_wip_limit()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  target public.workflow_statuses;
+  task_count integer;
+begin
+  if current_user <> 'authenticated' or new.sprint_id is null then
+    return new;
+  end if;
+
+  if not exists (select 1 from public.projects where id = new.project_id and wip_limit_mode = 'hard') then
+    return new;
+  end if;
+
+  select * into target
+  from public.workflow_statuses
+  where project_id = new.project_id and key = new.status;
+
+  if target.wip_limit is null then
+    return new;
+  end if;
+
+  select count(*) + 1 into task_count
+  from public.tasks
+  where sprint_id = new.sprint_id and status = new.status and id <> new.id;
+
+  if task_count > target.wip_limit then
+    raise exception '% is limited to % %', target.name, target.wip_limit,
+      case when target.wip_limit = 1 then 'task' else 'tasks' end
+      using errcode = 'check_violation', hint = 'wip_limit';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_enforce_wip_limit on public.tasks;
+create trigger tasks_enforce_wip_limit
+  before update of status on public.tasks
+  for each row
+  when (new.status is distinct from old.status)
+  execute function public.enforce_wip_limit();
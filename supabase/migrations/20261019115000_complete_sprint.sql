@@ -0,0 +1,37 @@
+-- Completing a sprint carries its unfinished tasks over and stores the points
+-- snapshot in one transaction, so a failure leaves the sprint as it was.
+-- Runs as the caller, under the same policies as the separate updates.
+create or replace function public.complete_sprint(
+  p_sprint_id uuid,
+  p_task_ids uuid[],
+  p_destination_id uuid,
+  p_committed_points integer,
+  p_completed_points integer
+)
+returns public.sprints
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  completed public.sprints;
+begin
+  update public.tasks
+  set sprint_id = p_destination_id
+  where id = any (p_task_ids) and sprint_id = p_sprint_id;
+
+  update public.sprints
+  set status = 'completed',
+      completed_at = now(),
+      committed_points = p_committed_points,
+      completed_points = p_completed_points
+  where id = p_sprint_id
+  returning * into completed;
+
+  if not found then
+    raise exception 'Sprint not found';
+  end if;
+
+  return completed;
+end;
+$$;
@@ -0,0 +1,31 @@
+-- Removing a status moves every task in it, including tasks the caller could
+-- not update under row level security, so the function runs as its owner and
+-- checks the caller's role itself
+create or replace function public.remove_workflow_status(p_status_id uuid, p_replacement_key text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  removed public.workflow_statuses;
+begin
+  select * into removed from public.workflow_statuses where id = p_status_id;
+  if not found or not public.has_project_role(removed.project_id, 'admin') then
+    raise exception 'Workflow status not found';
+  end if;
+
+  if p_replacement_key = removed.key or not exists (
+    select 1 from public.workflow_statuses
+    where project_id = removed.project_id and key = p_replacement_key
+  ) then
+    raise exception 'Replacement status must be another status of the same project';
+  end if;
+
+  update public.tasks
+  set status = p_replacement_key
+  where project_id = removed.project_id and status = removed.key;
+
+  delete from public.workflow_statuses where id = p_status_id;
+end;
+$$;
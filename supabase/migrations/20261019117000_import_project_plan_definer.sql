@@ -0,0 +1,102 @@
+-- Members import plans, but only admins may create labels under row level
+-- security, so the function runs as its owner and checks the caller's role
+-- itself. As nothing is filtered by row level security any more, every
+-- reference in the plan must point at a row created by the same import.
+-- Completed sprints are credited with the points of their done tasks only.
+create or replace function public.import_project_plan(p_project_id uuid, p_plan jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  sprint_ids uuid[];
+  epic_ids uuid[];
+  task_ids uuid[];
+  created_labels integer;
+  created_epics integer;
+  created_sprints integer;
+  created_tasks integer;
+begin
+  if not public.has_project_role(p_project_id, 'member') then
+    raise exception 'Project not found';
+  end if;
+
+  select coalesce(array_agg(id), '{}') into sprint_ids
+  from jsonb_to_recordset(coalesce(p_plan -> 'sprints', '[]')) as s (id uuid);
+  select coalesce(array_agg(id), '{}') into epic_ids
+  from jsonb_to_recordset(coalesce(p_plan -> 'epics', '[]')) as e (id uuid);
+  select coalesce(array_agg(id), '{}') into task_ids
+  from jsonb_to_recordset(coalesce(p_plan -> 'tasks', '[]')) as t (id uuid);
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(coalesce(p_plan -> 'tasks', '[]')) as t (sprint_id uuid, epic_id uuid, parent_id uuid)
+    where (t.sprint_id is not null and not t.sprint_id = any (sprint_ids))
+      or (t.epic_id is not null and not t.epic_id = any (epic_ids))
+      or (t.parent_id is not null and not t.parent_id = any (task_ids))
+  ) then
+    raise exception 'Imported tasks can only reference sprints, epics and tasks of the same import';
+  end if;
+
+  -- Labels are matched by name, so importing twice does not duplicate them
+  insert into public.labels (project_id, name, color)
+  select distinct on (lower(l.name)) p_project_id, l.name, coalesce(l.color, '#64748b')
+  from jsonb_to_recordset(coalesce(p_plan -> 'labels', '[]')) as l (name text, color text)
+  where not exists (
+    select 1 from public.labels existing
+    where existing.project_id = p_project_id and lower(existing.name) = lower(l.name)
+  );
+  get diagnostics created_labels = row_count;
+
+  insert into public.epics (id, project_id, name, description, color)
+  select e.id, p_project_id, e.name, e.description, e.color
+  from jsonb_populate_recordset(null::public.epics, coalesce(p_plan -> 'epics', '[]')) e;
+  get diagnostics created_epics = row_count;
+
+  insert into public.sprints (
+    id, project_id, user_id, name, start_date, end_date, status, started_at, completed_at,
+    committed_points
+  )
+  select
+    s.id, p_project_id, auth.uid(), s.name, s.start_date, s.end_date, coalesce(s.status, 'planned'),
+    s.started_at, s.completed_at, s.committed_points
+  from jsonb_populate_recordset(null::public.sprints, coalesce(p_plan -> 'sprints', '[]')) s;
+  get diagnostics created_sprints = row_count;
+
+  -- Parents and subtasks go in together; imported tasks keep their own dates
+  insert into public.tasks (
+    id, project_id, user_id, title, description, status, priority, type, estimate, assignee_ids,
+    sprint_id, rank, parent_id, epic_id, checklist, created_at, started_at, completed_at
+  )
+  select
+    t.id, p_project_id, auth.uid(), t.title, t.description, t.status, t.priority, coalesce(t.type, 'task'),
+    t.estimate, coalesce(t.assignee_ids, '{}'), t.sprint_id, t.rank, t.parent_id, t.epic_id,
+    coalesce(t.checklist, '[]'), coalesce(t.created_at, now()), t.started_at, t.completed_at
+  from jsonb_populate_recordset(null::public.tasks, coalesce(p_plan -> 'tasks', '[]')) t;
+  get diagnostics created_tasks = row_count;
+
+  update public.sprints s
+  set completed_points = coalesce((
+    select sum(t.estimate)
+    from public.tasks t
+    join public.workflow_statuses w on w.project_id = t.project_id and w.key = t.status and w.is_done
+    where t.sprint_id = s.id and t.parent_id is null
+  ), 0)
+  where s.id = any (sprint_ids) and s.status = 'completed';
+
+  -- Imported tasks only get labels of their own project
+  insert into public.task_labels (task_id, label_id)
+  select distinct t.id, l.id
+  from jsonb_to_recordset(coalesce(p_plan -> 'task_labels', '[]')) as tl (task_id uuid, label text)
+  join public.tasks t on t.id = tl.task_id and t.project_id = p_project_id
+  join public.labels l on l.project_id = p_project_id and lower(l.name) = lower(tl.label);
+
+  return jsonb_build_object(
+    'labels', created_labels,
+    'epics', created_epics,
+    'sprints', created_sprints,
+    'tasks', created_tasks
+  );
+end;
+$$;
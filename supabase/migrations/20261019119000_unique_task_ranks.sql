@@ -0,0 +1,49 @@
+-- Ranks are generated by the client from the ranks it has loaded, so two
+-- people creating or moving tasks at the same time can end up with the same
+-- rank, and no rank can be generated between two equal ones.
+
+-- Spread out the ranks that are already taken more than once, keeping the
+-- first task of each group where it is. Keys never end in "0", as nothing
+-- sorts between a key and the same key followed by a "0".
+with duplicates as (
+  select id, row_number() over (partition by project_id, rank order by created_at, id) - 1 as position
+  from public.tasks
+  where rank is not null
+)
+update public.tasks
+set rank = public.tasks.rank || lpad(to_hex(duplicates.position), 4, '0') || 'V'
+from duplicates
+where public.tasks.id = duplicates.id
+  and duplicates.position > 0;
+
+-- A rank another task of the project already holds is moved just below it.
+-- Tasks of a project get their ranks one at a time, so concurrent writes
+-- see each other's ranks.
+create or replace function public.ensure_unique_task_rank()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.rank is null or new.project_id is null then
+    return new;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('task_rank:' || new.project_id::text));
+
+  while exists (
+    select 1 from public.tasks
+    where project_id = new.project_id and rank = new.rank and id <> new.id
+  ) loop
+    new.rank := new.rank || 'V';
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_ensure_unique_rank on public.tasks;
+create trigger tasks_ensure_unique_rank
+  before insert or update of rank on public.tasks
+  for each row
+  execute function public.ensure_unique_task_rank();
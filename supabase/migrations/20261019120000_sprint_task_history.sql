@@ -0,0 +1,20 @@
+-- The full history of every task that has ever been in a sprint, including
+-- the entries recorded after a task left it. Filtering here rather than by a
+-- list of task IDs keeps the request short for large sprints, and the result
+-- can be read page by page.
+create or replace function public.sprint_task_history(p_sprint_id uuid)
+returns setof public.task_history
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select h.*
+  from public.task_history h
+  join public.sprints s on s.id = p_sprint_id and s.project_id = h.project_id
+  where h.task_id in (
+    select sprint_entries.task_id
+    from public.task_history sprint_entries
+    where sprint_entries.sprint_id = p_sprint_id
+  );
+$$;
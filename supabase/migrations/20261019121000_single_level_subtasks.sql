@@ -0,0 +1,46 @@
+-- Subtasks are one level deep: a subtask's parent is a top-level task of the
+-- same project, and a task with subtasks cannot become a subtask itself. This
+-- also rules out parent cycles. The check runs at commit, so imports and
+-- restores may insert subtasks before their parents, and parents of a project
+-- are checked one transaction at a time, so two tasks cannot become each
+-- other's subtask concurrently.
+create or replace function public.check_task_parent()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  task public.tasks;
+begin
+  select * into task from public.tasks where id = new.id;
+  if not found or task.parent_id is null then
+    return null;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('task_parent:' || coalesce(task.project_id::text, '')));
+
+  if not exists (
+    select 1 from public.tasks
+    where id = task.parent_id
+      and parent_id is null
+      and project_id is not distinct from task.project_id
+  ) then
+    raise exception 'A subtask''s parent must be a top-level task of the same project'
+      using errcode = 'check_violation';
+  end if;
+
+  if exists (select 1 from public.tasks where parent_id = task.id) then
+    raise exception 'A task with subtasks cannot become a subtask'
+      using errcode = 'check_violation';
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists tasks_check_parent on public.tasks;
+create constraint trigger tasks_check_parent
+  after insert or update of parent_id on public.tasks
+  deferrable initially deferred
+  for each row
+  execute function public.check_task_parent();
@@ -0,0 +1,49 @@
+-- Links can only join tasks of the project they are filed under, so a link
+-- cannot expose the status of another project's task
+drop policy if exists "Members can link tasks" on public.task_links;
+
+create policy "Members can link tasks"
+  on public.task_links for insert
+  with check (
+    public.has_project_role(project_id, 'member')
+    and exists (
+      select 1 from public.tasks t
+      where t.id = task_links.source_id and t.project_id = task_links.project_id
+    )
+    and exists (
+      select 1 from public.tasks t
+      where t.id = task_links.target_id and t.project_id = task_links.project_id
+    )
+  );
+
+-- "blocks" links of a project are checked one at a time, so two links added
+-- concurrently cannot close a cycle together
+create or replace function public.check_task_link_cycle()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.type <> 'blocks' then
+    return new;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('task_links:' || coalesce(new.project_id::text, '')));
+
+  if exists (
+    with recursive downstream (task_id) as (
+      select new.target_id
+      union
+      select l.target_id
+      from public.task_links l
+      join downstream d on l.source_id = d.task_id
+      where l.type = 'blocks'
+    )
+    select 1 from downstream where task_id = new.source_id
+  ) then
+    raise exception 'Task dependency would create a cycle'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
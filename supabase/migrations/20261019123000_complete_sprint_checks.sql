@@ -0,0 +1,60 @@
+-- The database decides what completing a sprint means: only an active sprint
+-- can be completed, unfinished work only moves to a planned sprint of the same
+-- project or the product backlog, and the points snapshot is worked out from
+-- the sprint's tasks rather than taken from the client.
+drop function if exists public.complete_sprint(uuid, uuid[], uuid, integer, integer);
+
+create or replace function public.complete_sprint(p_sprint_id uuid, p_destination_id uuid)
+returns public.sprints
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  completed public.sprints;
+  committed integer;
+  done integer;
+begin
+  select * into completed from public.sprints where id = p_sprint_id for update;
+  if not found then
+    raise exception 'Sprint not found';
+  end if;
+
+  if completed.status <> 'active' then
+    raise exception 'Only an active sprint can be completed';
+  end if;
+
+  if p_destination_id is not null and not exists (
+    select 1 from public.sprints
+    where id = p_destination_id and project_id = completed.project_id and status = 'planned'
+  ) then
+    raise exception 'Unfinished tasks can only move to a planned sprint of the same project';
+  end if;
+
+  select
+    coalesce(sum(t.estimate), 0),
+    coalesce(sum(t.estimate) filter (where w.is_done), 0)
+  into committed, done
+  from public.tasks t
+  left join public.workflow_statuses w on w.project_id = t.project_id and w.key = t.status
+  where t.sprint_id = p_sprint_id;
+
+  update public.tasks t
+  set sprint_id = p_destination_id
+  where t.sprint_id = p_sprint_id
+    and not exists (
+      select 1 from public.workflow_statuses w
+      where w.project_id = t.project_id and w.key = t.status and w.is_done
+    );
+
+  update public.sprints
+  set status = 'completed',
+      completed_at = now(),
+      committed_points = committed,
+      completed_points = done
+  where id = p_sprint_id
+  returning * into completed;
+
+  return completed;
+end;
+$$;
@@ -0,0 +1,27 @@
+-- Invite codes are the only secret needed to join a project. The bytes of a
+-- random uuid include fixed version bits, so codes are built from plain
+-- random bytes instead; 32 letters and digits keep every character uniform.
+create extension if not exists pgcrypto with schema extensions;
+
+create or replace function public.generate_invite_code()
+returns text
+language plpgsql
+volatile
+set search_path = public
+as $$
+declare
+  alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  bytes bytea;
+  candidate text;
+begin
+  loop
+    bytes := extensions.gen_random_bytes(10);
+    candidate := '';
+    for i in 0..9 loop
+      candidate := candidate || substr(alphabet, get_byte(bytes, i) % length(alphabet) + 1, 1);
+    end loop;
+    exit when not exists (select 1 from public.project_invites where code = candidate);
+  end loop;
+  return candidate;
+end;
+$$;